@@ -1,37 +1,81 @@
 ﻿import { NextRequest } from "next/server";
-import { ACTIVITY_EVENTS } from "@/data/runs";
+import type { ActivityEvent } from "@/models/activity";
+import {
+  currentActivityCursor,
+  getActivitySince,
+  subscribeActivity,
+  type ActivityEnvelope,
+} from "@/server/activity/bus";
+import { listRuns } from "@/server/runs/store";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+const HEARTBEAT_MS = 15000;
+const RESYNC_RUN_LIMIT = 20;
+
+const formatEvent = ({ id, event }: ActivityEnvelope) => `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`;
+
+const buildResyncEvents = (runId: string | undefined): ActivityEvent[] =>
+  listRuns()
+    .filter((run) => !runId || run.id === runId)
+    .slice(0, RESYNC_RUN_LIMIT)
+    .map((run) => ({
+      type: run.completedAt ? "run.completed" : "run.updated",
+      run,
+      timestamp: run.completedAt ?? run.startedAt,
+    }));
+
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const runId = searchParams.get("runId");
-  const filtered = ACTIVITY_EVENTS.filter((event) =>
-    runId ? (event.type === "step.logged" ? event.runId === runId : event.run.id === runId) : true
-  );
-  const events = filtered.length > 0 ? filtered : ACTIVITY_EVENTS;
+  const runId = searchParams.get("runId") ?? undefined;
+  const lastEventId = request.headers.get("last-event-id") ?? searchParams.get("lastEventId");
   const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
 
   const stream = new ReadableStream<Uint8Array>({
     start(controller) {
-      let index = 0;
-
-      const push = () => {
-        const event = events[index % events.length];
-        index += 1;
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      let closed = false;
+      const enqueue = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup?.();
+        }
       };
 
-      push();
-      const timer = setInterval(push, 4000);
+      enqueue("retry: 3000\n\n");
 
-      const close = () => {
-        clearInterval(timer);
-        controller.close();
+      if (lastEventId) {
+        const backlog = getActivitySince(lastEventId, { runId });
+        if (backlog.complete) {
+          backlog.events.forEach((envelope) => enqueue(formatEvent(envelope)));
+        } else {
+          const cursor = currentActivityCursor();
+          buildResyncEvents(runId).forEach((event) => enqueue(formatEvent({ id: cursor, event })));
+        }
+      }
+
+      const unsubscribe = subscribeActivity((envelope) => enqueue(formatEvent(envelope)), { runId });
+      const heartbeat = setInterval(() => enqueue(": keep-alive\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // The stream may already be closed by the runtime after the client disconnected.
+        }
       };
 
-      request.signal.addEventListener("abort", close);
+      request.signal.addEventListener("abort", () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
     },
   });
 
@@ -42,4 +86,4 @@ export async function GET(request: NextRequest) {
       Connection: "keep-alive",
     },
   });
-}
+}
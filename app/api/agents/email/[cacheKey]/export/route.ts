@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { emailExportOptionsSchema } from "@/models/email";
+import { findEmailDraft } from "@/server/agents/store/revisions";
+import { buildMailtoLink, renderEmailMessage, selectEmailContent } from "@/server/email/mime";
+import { restoreRedactions } from "@/server/guardrails/engine";
+import { getRedactions } from "@/server/guardrails/redactions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+const toFileName = (subject: string) =>
+  subject
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "email-draft";
+
+/**
+ * Exports the draft (or `?variant=2`) as an `.eml` download, or with `?format=mailto` as `{ href }`.
+ * `?to=` takes one or more comma-separated addresses. Redacted placeholders are restored, since the
+ * export goes to the operator's own mail client.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const { searchParams } = request.nextUrl;
+  const parsed = emailExportOptionsSchema.safeParse({
+    format: searchParams.get("format") ?? undefined,
+    variant: searchParams.get("variant") ?? undefined,
+    to: searchParams
+      .getAll("to")
+      .flatMap((value) => value.split(","))
+      .map((value) => value.trim())
+      .filter(Boolean),
+  });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return NextResponse.json({ error: issues.join("; ") }, { status: 400 });
+  }
+
+  const deliverable = findEmailDraft(cacheKey);
+  if (!deliverable) {
+    return NextResponse.json({ error: "Email draft not found" }, { status: 404 });
+  }
+
+  const selected = selectEmailContent(deliverable, parsed.data.variant);
+  if (!selected.ok) {
+    return NextResponse.json({ error: selected.reason }, { status: 400 });
+  }
+
+  const redactions = getRedactions(cacheKey);
+  const content = {
+    subject: restoreRedactions(selected.content.subject, redactions),
+    body: restoreRedactions(selected.content.body, redactions),
+  };
+
+  if (parsed.data.format === "mailto") {
+    return NextResponse.json({ href: buildMailtoLink({ ...content, to: parsed.data.to }) });
+  }
+
+  const message = renderEmailMessage({
+    ...content,
+    to: parsed.data.to,
+    draft: true,
+  });
+  const suffix = parsed.data.variant ? `-variant-${parsed.data.variant}` : "";
+  return new NextResponse(message, {
+    headers: {
+      "Content-Type": "message/rfc822",
+      "Content-Disposition": `attachment; filename="${toFileName(content.subject)}${suffix}.eml"`,
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findEmailDraft } from "@/server/agents/store/revisions";
+import { restoreRedactions } from "@/server/guardrails/engine";
+import { getRedactions } from "@/server/guardrails/redactions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+/** Returns the placeholder mapping for a draft, with the draft's placeholders restored, for the operator. */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const deliverable = findEmailDraft(cacheKey);
+  if (!deliverable) {
+    return NextResponse.json({ error: "Email draft not found" }, { status: 404 });
+  }
+
+  const redactions = getRedactions(cacheKey);
+  const restore = (text: string) => restoreRedactions(text, redactions);
+  return NextResponse.json({
+    redactions,
+    draft: {
+      subject: restore(deliverable.draft.subject),
+      body: restore(deliverable.draft.body),
+      variants: deliverable.draft.variants.map((variant) => ({ ...variant, body: restore(variant.body) })),
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refineEmailDraft } from "@/server/agents/run-email-refinement";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+const FAILURE_STATUS = { not_found: 404, invalid: 400, failed: 422 } as const;
+
+/** Revises a stored draft, e.g. `{ instruction: "Make it shorter", variant: 2 }`, and returns the new revision. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const { threadId, ...payload } = body as Record<string, unknown>;
+    const response = await refineEmailDraft({
+      cacheKey,
+      payload,
+      threadId: typeof threadId === "string" ? threadId : undefined,
+    });
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: response.reason, providerConfigured: response.providerConfigured },
+        { status: FAILURE_STATUS[response.code] },
+      );
+    }
+
+    return NextResponse.json({
+      draft: response.deliverable.draft,
+      metadata: response.deliverable.metadata,
+      cacheKey: response.cacheKey,
+      parentKey: response.parentKey,
+      revision: response.revision,
+      runId: response.runId,
+      providerConfigured: response.providerConfigured,
+      fallbackUsed: response.fallbackUsed,
+      redactions: response.redactions,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { restoreRevision } from "@/server/agents/store/revisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+/** Makes this revision the current one in its draft's history and returns the updated history. */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const result = restoreRevision(cacheKey);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.reason }, { status: 404 });
+  }
+
+  return NextResponse.json({ history: result.history });
+}
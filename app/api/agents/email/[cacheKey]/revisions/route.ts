@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { EmailDraftHistory } from "@/models/email";
+import { getDeliverableRunId } from "@/server/agents/store/deliverables";
+import { findEmailDraft, getDraftHistory, listRevisionChain } from "@/server/agents/store/revisions";
+import { getApproval } from "@/server/approvals/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+/**
+ * Returns the draft's `history` (every revision sharing its original draft, oldest first, and the
+ * current one) and its `chain` (its own ancestry, root first). A draft that was never refined is
+ * reported as a history of one.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const stored = getDraftHistory(cacheKey);
+  if (stored) {
+    return NextResponse.json({ history: stored, chain: listRevisionChain(cacheKey) });
+  }
+
+  const deliverable = findEmailDraft(cacheKey);
+  if (!deliverable) {
+    return NextResponse.json({ error: "Email draft not found" }, { status: 404 });
+  }
+
+  const root = {
+    cacheKey,
+    rootKey: cacheKey,
+    runId: getDeliverableRunId(cacheKey) ?? getApproval(cacheKey)?.runId ?? "",
+    createdAt: new Date().toISOString(),
+    deliverable,
+  };
+  const history: EmailDraftHistory = { rootKey: cacheKey, currentKey: cacheKey, revisions: [root] };
+  return NextResponse.json({ history, chain: [root] });
+}
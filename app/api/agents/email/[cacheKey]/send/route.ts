@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendEmailDraft } from "@/server/email/send";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+const FAILURE_STATUS = {
+  invalid: 400,
+  not_found: 404,
+  not_approved: 409,
+  guardrails: 422,
+  unconfigured: 503,
+  failed: 502,
+} as const;
+
+/** Sends an approved draft, e.g. `{ to: ["ana@example.com"], cc: [], bcc: [], variant: 2 }`, and returns the delivery. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const response = await sendEmailDraft(cacheKey, body);
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: response.reason, delivery: response.delivery },
+        { status: FAILURE_STATUS[response.code] },
+      );
+    }
+
+    return NextResponse.json({ delivery: response.delivery });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
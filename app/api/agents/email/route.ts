@@ -31,6 +31,7 @@ export async function POST(request: NextRequest) {
       runId: response.runId,
       identicalToExisting: response.identicalToExisting,
       providerConfigured: response.providerConfigured,
+      redactions: response.redactions,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unexpected error";
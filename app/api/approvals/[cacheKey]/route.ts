@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { approvalDecisionSchema } from "@/models/approval";
+import { decideApproval, type ApprovalDecisionResult } from "@/server/approvals/decisions";
+import { getApproval } from "@/server/approvals/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ cacheKey: string }> };
+
+const FAILURE_STATUS: Record<Extract<ApprovalDecisionResult, { ok: false }>["code"], number> = {
+  not_found: 404,
+  conflict: 409,
+  unsupported: 400,
+  revision_failed: 422,
+};
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const approval = getApproval(cacheKey);
+  if (!approval) {
+    return NextResponse.json({ error: "Approval not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ approval });
+}
+
+/**
+ * Records a reviewer decision, e.g. `{ decision: "request_changes", comment: "Mention the new SLA" }`.
+ * Requested changes on an email draft return the regenerated draft's approval as `revision`.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { cacheKey } = await context.params;
+  const parsed = approvalDecisionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return NextResponse.json({ error: issues.join("; ") }, { status: 400 });
+  }
+
+  try {
+    const result = await decideApproval(cacheKey, parsed.data);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason }, { status: FAILURE_STATUS[result.code] });
+    }
+
+    return NextResponse.json({ approval: result.approval, revision: result.revision });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { APPROVAL_STATUSES, type ApprovalStatus } from "@/models/approval";
+import { listApprovals } from "@/server/approvals/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Lists approvals newest first, optionally filtered with `?status=pending`. */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get("status");
+  if (status && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+    return NextResponse.json({ error: `Unknown approval status: ${status}` }, { status: 400 });
+  }
+
+  return NextResponse.json({ approvals: listApprovals((status as ApprovalStatus | null) ?? undefined) });
+}
@@ -1,12 +1,31 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { Runner, type AgentInputItem, OpenAIProvider } from "@openai/agents";
-import { createUIMessageStream, createUIMessageStreamResponse, type UIMessage } from "ai";
-import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
-import { getOrCreateSession, updateSessionHistory } from "@/server/agents/conversation-store";
+import type { AgentInputItem } from "@openai/agents";
+import { createUIMessageStream, createUIMessageStreamResponse } from "ai";
+import type { DeliverableRecord } from "@/models/deliverable";
+import { GUARDRAIL_DETECTOR_LABELS } from "@/models/guardrails";
+import { getOrCreateSession, saveThreadMessages, updateSessionHistory } from "@/server/agents/conversation-store";
+import { getDeliverableKind } from "@/server/agents/deliverables/registry";
+import { createAgentRunner } from "@/server/agents/runner";
+import { createStepTracker } from "@/server/agents/runtime";
+import { listRunDeliverables } from "@/server/agents/store/deliverables";
+import { toKnowledgeSources, type SearchKnowledgeResult } from "@/server/agents/tools/search-knowledge";
+import {
+  createRunStreamForwarder,
+  safeParseJSON,
+  type OrchestratorUIMessage,
+  type SourcePartData,
+} from "@/server/agents/ui-stream";
+import { evaluateGuardrails, summarizeGuardrails } from "@/server/guardrails/engine";
+import { getModelProvider } from "@/server/providers/models";
+import { beginRun, finishRun } from "@/server/runs/store";
+import { getRuntimeSettings } from "@/server/settings/store";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+const THREAD_ID_PATTERN = /^[\w-]{1,80}$/;
+
 const toUserMessage = (text: string): AgentInputItem => ({
   role: "user",
   content: [
@@ -48,25 +67,6 @@ const extractIncomingMessageText = (message: unknown): string => {
     .trim();
 };
 
-type EmailDraftDeliverable = {
-  subject: string;
-  body: string;
-  variants: Array<{ label: string; body: string }>;
-  metadata: Record<string, unknown>;
-  cacheKey: string;
-  runId: string;
-  identicalToExisting: boolean;
-};
-
-type EmailDraftPart = {
-  type: "email-draft";
-  deliverable: EmailDraftDeliverable;
-};
-
-type OrchestratorUIMessage = UIMessage & {
-  parts?: EmailDraftPart[];
-};
-
 type ToolInteraction = {
   id: string;
   name: string;
@@ -80,25 +80,20 @@ type ReasoningStep = {
   detail: string;
 };
 
-type SourceItem = {
-  id: string;
-  title: string;
-  description?: string;
-  url?: string;
-  badge?: string;
-};
+const normalizeDetail = (detail: string) => detail.trim().replace(/\s+/g, " ");
 
-const safeParseJSON = (value: unknown) => {
-  if (typeof value !== "string") return value;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return value;
-  }
+/** Swaps the operator's latest message for its redacted text before the thread is persisted. */
+const redactLatestUserMessage = (messages: OrchestratorUIMessage[], text: string) => {
+  const index = messages.map((message) => message.role).lastIndexOf("user");
+  if (index === -1) return messages;
+  const message = messages[index];
+  const parts = [
+    { type: "text" as const, text },
+    ...message.parts.filter((part) => part.type !== "text"),
+  ];
+  return messages.map((candidate, position) => (position === index ? { ...message, parts } : candidate));
 };
 
-const normalizeDetail = (detail: string) => detail.trim().replace(/\s+/g, " ");
-
 const extractToolInteractions = (items: AgentInputItem[]): ToolInteraction[] => {
   const calls = new Map<string, ToolInteraction>();
   let generatedId = 0;
@@ -108,8 +103,8 @@ const extractToolInteractions = (items: AgentInputItem[]): ToolInteraction[] =>
     const type = candidate?.type;
     if (!type) continue;
 
-    if (type === "function_call_arguments") {
-      const id = String(candidate.call_id ?? candidate.id ?? `tool-${generatedId++}`);
+    if (type === "function_call" || type === "function_call_arguments") {
+      const id = String(candidate.callId ?? candidate.call_id ?? candidate.id ?? `tool-${generatedId++}`);
       const name = candidate.name ?? candidate.tool_name ?? "tool";
       const rawArguments = candidate.arguments ?? candidate.args ?? candidate.input ?? candidate.content;
       const parsedArguments = safeParseJSON(
@@ -127,7 +122,7 @@ const extractToolInteractions = (items: AgentInputItem[]): ToolInteraction[] =>
     }
 
     if (type === "function_call_result") {
-      const id = String(candidate.call_id ?? candidate.id ?? candidate.result_id ?? `tool-${generatedId++}`);
+      const id = String(candidate.callId ?? candidate.call_id ?? candidate.id ?? candidate.result_id ?? `tool-${generatedId++}`);
       const name = candidate.name ?? candidate.tool_name ?? "tool";
       const rawOutput = candidate.output ?? candidate.result ?? candidate.data ?? candidate.content;
       const parsedOutput = safeParseJSON(
@@ -152,7 +147,7 @@ const extractToolInteractions = (items: AgentInputItem[]): ToolInteraction[] =>
 const buildReasoning = (
   userText: string,
   toolCalls: ToolInteraction[],
-  deliverable: EmailDraftDeliverable | undefined,
+  deliverables: DeliverableRecord[],
 ): ReasoningStep[] => {
   const steps: ReasoningStep[] = [];
 
@@ -164,6 +159,20 @@ const buildReasoning = (
     });
   }
 
+  toolCalls
+    .filter((call) => call.name === "search_knowledge")
+    .forEach((call) => {
+      const query = (call.arguments as { query?: unknown } | undefined)?.query;
+      const passages = (call.result as Partial<SearchKnowledgeResult> | undefined)?.passages;
+      const count = Array.isArray(passages) ? passages.length : 0;
+      steps.push({
+        title: "Consult knowledge base",
+        detail: normalizeDetail(
+          `Searched for “${typeof query === "string" ? query : "the request"}” and found ${count} passage${count === 1 ? "" : "s"}.`,
+        ),
+      });
+    });
+
   const draftCall = toolCalls.find((call) => call.name === "draft_email");
   if (draftCall) {
     const argsSummary = (() => {
@@ -192,110 +201,51 @@ const buildReasoning = (
     });
   }
 
-  if (deliverable) {
-    const { metadata, variants, subject } = deliverable;
-    const variantCount = Array.isArray(variants) ? variants.length : 0;
-    const keyPointCount = Array.isArray(metadata?.keyPoints) ? metadata.keyPoints.length : 0;
+  toolCalls
+    .filter((call) => call.name === "refine_email")
+    .forEach((call) => {
+      const instruction = (call.arguments as { instruction?: unknown } | undefined)?.instruction;
+      steps.push({
+        title: "Refine existing draft",
+        detail: normalizeDetail(
+          typeof instruction === "string" ? `Called refine_email to “${instruction}”.` : "Called refine_email on the latest draft.",
+        ),
+      });
+    });
+
+  deliverables.forEach(({ deliverable }) => {
+    const kind = getDeliverableKind(deliverable.type);
     steps.push({
       title: "Assemble final response",
-      detail: normalizeDetail(
-        `Prepared subject “${subject}”, rephrased ${variantCount + 1} variants, and reflected ${keyPointCount} key points.`,
-      ),
+      detail: normalizeDetail(kind ? kind.describe(deliverable) : `Recorded a ${deliverable.type} deliverable.`),
     });
-  }
+  });
 
   return steps;
 };
 
-const buildSources = (
-  deliverable: EmailDraftDeliverable | undefined,
-  toolCalls: ToolInteraction[],
-  threadId: string,
-): SourceItem[] => {
-  if (!deliverable) return [];
-
-  const keyPoints = Array.isArray(deliverable.metadata?.keyPoints)
-    ? (deliverable.metadata?.keyPoints as string[])
-    : [];
-
-  const sourcesFromKeyPoints: SourceItem[] = keyPoints.map((point, index) => ({
-    id: `${deliverable.runId ?? threadId}-kp-${index}`,
-    title: point,
-    description: "Key point supplied by the operator",
-    url: `https://sidekick.local/runs/${deliverable.runId ?? threadId}#kp-${index + 1}`,
-    badge: "Operator context",
-  }));
-
-  const draftCall = toolCalls.find((call) => call.name === "draft_email");
-  const toolSource: SourceItem[] = draftCall
-    ? [
-        {
-          id: `${deliverable.runId ?? threadId}-tool-${draftCall.id}`,
-          title: "Draft email specialist",
-          description: "Specialist agent synthesis for email formatting",
-          url: `https://sidekick.local/runs/${deliverable.runId ?? threadId}`,
-          badge: "Specialist",
-        },
-      ]
-    : [];
-
-  return [...sourcesFromKeyPoints, ...toolSource];
-};
-
-const extractDeliverableParts = (items: AgentInputItem[]): EmailDraftPart[] | undefined => {
-  const deliverables: EmailDraftDeliverable[] = [];
-
-  for (const item of items) {
-    if ((item as any).type !== "function_call_result" || (item as any).name !== "draft_email") continue;
-
-    const output = (item as any).output;
-    let parsed: any;
-
-    if (typeof output === "string") {
-      try {
-        parsed = JSON.parse(output);
-      } catch (error) {
-        console.error("Failed to parse draft_email tool output", error);
-        continue;
-      }
-    } else if (output && typeof output === "object") {
-      if ((output as any).type === "text" && typeof (output as any).text === "string") {
-        try {
-          parsed = JSON.parse((output as any).text);
-        } catch (error) {
-          console.error("Failed to parse draft_email tool output", error);
-          continue;
-        }
-      } else {
-        parsed = output;
-      }
-    }
-
-    if (parsed?.subject && parsed?.body) {
-      deliverables.push(parsed);
-    }
-  }
+const buildSources = (toolCalls: ToolInteraction[], deliverables: DeliverableRecord[]): SourcePartData[] => {
+  const sources = new Map<string, SourcePartData>();
 
-  if (deliverables.length === 0) return undefined;
-  return deliverables.map((deliverable) => ({ type: "email-draft" as const, deliverable }));
-};
+  deliverables.forEach(({ deliverable }) => {
+    getDeliverableKind(deliverable.type)
+      ?.sources?.(deliverable)
+      .forEach((source) => {
+        if (!sources.has(source.id)) sources.set(source.id, source);
+      });
+  });
+
+  toolCalls
+    .filter((call) => call.name === "search_knowledge" && call.status === "completed")
+    .forEach((call) => {
+      const result = call.result as Partial<SearchKnowledgeResult> | undefined;
+      const passages = Array.isArray(result?.passages) ? result.passages : [];
+      toKnowledgeSources(passages).forEach((source) => {
+        if (!sources.has(source.id)) sources.set(source.id, source);
+      });
+    });
 
-const writeTextChunks = (
-  writer: { write: (chunk: any) => void },
-  id: string,
-  text: string,
-) => {
-  if (!text) return;
-  const normalized = text.replace(/\r\n/g, "\n");
-  if (!normalized.trim()) {
-    writer.write({ type: "text-delta", id, delta: normalized });
-    return;
-  }
-  const chunkSize = 300;
-  for (let index = 0; index < normalized.length; index += chunkSize) {
-    const delta = normalized.slice(index, index + chunkSize);
-    writer.write({ type: "text-delta", id, delta });
-  }
+  return Array.from(sources.values());
 };
 
 export async function POST(request: NextRequest) {
@@ -309,13 +259,40 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No user message provided." }, { status: 400 });
     }
 
-    const { id: threadId, session } = getOrCreateSession(payload?.threadId ?? "default-thread");
-    const userItem = toUserMessage(userText);
-    const apiKey = process.env.OPENAI_API_KEY;
+    const requestedThreadId = typeof payload?.threadId === "string" ? payload.threadId : undefined;
+    if (requestedThreadId !== undefined && !THREAD_ID_PATTERN.test(requestedThreadId)) {
+      return NextResponse.json({ error: "Invalid thread id." }, { status: 400 });
+    }
+
+    // Without a thread id the message starts a new conversation; its id is streamed back as a data part.
+    const { id: threadId, session } = getOrCreateSession(requestedThreadId);
+    const modelProvider = getModelProvider();
+    const context = { ...session.context, runId: randomUUID(), createdAt: new Date().toISOString() };
+    beginRun({
+      runId: context.runId,
+      name: "Orchestrator chat",
+      workflowId: "chat",
+      threadId,
+      message: "Received operator message",
+    });
+
+    const tracker = createStepTracker(context.runId);
+    const guardSpan = tracker.start("guardrail", "Input guardrails", { message: "Checking for sensitive content" });
+    const guard = evaluateGuardrails(userText, getRuntimeSettings().guardrails.input.chat);
+    tracker.end(guardSpan, guard.outcome === "block" ? "error" : "done", summarizeGuardrails(guard));
+    // Redacted spans never reach the model, the session history or the saved thread.
+    const userItem = toUserMessage(guard.value);
 
     const stream = createUIMessageStream<OrchestratorUIMessage>({
+      // Persisting the rendered messages (data parts included) lets the panel restore the thread later.
+      originalMessages: incomingMessages as OrchestratorUIMessage[],
+      onFinish: ({ messages }) => {
+        if (request.signal.aborted) return;
+        saveThreadMessages(threadId, guard.outcome === "redact" ? redactLatestUserMessage(messages, guard.value) : messages);
+      },
       execute: async ({ writer }) => {
         const messageId = `assistant-text-${Date.now()}`;
+        writer.write({ type: "data-thread", id: `${messageId}-thread`, data: { threadId } });
         writer.write({ type: "text-start", id: messageId });
 
         let closed = false;
@@ -325,55 +302,82 @@ export async function POST(request: NextRequest) {
           writer.write({ type: "text-end", id: messageId });
         };
 
-        if (!apiKey) {
+        if (guard.outcome !== "pass") {
+          writer.write({
+            type: "data-guardrail",
+            id: `${messageId}-guardrail`,
+            data: {
+              stage: "input",
+              outcome: guard.outcome,
+              detectors: Array.from(new Set(guard.findings.map((finding) => GUARDRAIL_DETECTOR_LABELS[finding.detector]))),
+            },
+          });
+        }
+
+        if (guard.outcome === "block") {
           writer.write({
             type: "text-delta",
             id: messageId,
-            delta: "The orchestrator is unavailable because OPENAI_API_KEY is not configured.",
+            delta: "I can't act on that message because it tripped the input guardrails. Please rephrase it without the flagged content.",
           });
+          finishRun(context.runId, "error", "Blocked by input guardrails");
           finalize();
           return;
         }
 
-        try {
-          const provider = new OpenAIProvider({ apiKey });
-          const runner = new Runner({
-            modelProvider: provider,
-            model: "gpt-5",
-            modelSettings: {
-              reasoning: { effort: "low" },
-              text: { verbosity: "low" },
-            },
-            traceMetadata: {
-              workflow_id: session.context.workflowId,
-              run_id: session.context.runId,
-              intent: session.context.intent,
-            },
+        if (!modelProvider.ok) {
+          writer.write({
+            type: "text-delta",
+            id: messageId,
+            delta: `The orchestrator is unavailable because ${modelProvider.reason}.`,
           });
+          finishRun(context.runId, "error", modelProvider.reason);
+          finalize();
+          return;
+        }
 
+        try {
+          const { runner, agents } = createAgentRunner(context);
           const historyWithUser = [...session.history, userItem];
-          const result = await runner.run(orchestratorAgent, historyWithUser, { context: session.context });
+          const forwarder = createRunStreamForwarder(writer, {
+            messageId,
+            runId: context.runId,
+            outputGuardrails: getRuntimeSettings().guardrails.output,
+          });
+          // Closing the tab or navigating away aborts the request, which cancels the model call.
+          const result = await runner.run(agents.orchestrator, historyWithUser, {
+            context,
+            stream: true,
+            signal: request.signal,
+          });
+          for await (const event of result) {
+            forwarder.handle(event);
+          }
+          await result.completed;
+          if (request.signal.aborted) {
+            finishRun(context.runId, "error", "Client disconnected; run aborted");
+            return;
+          }
+
           const history = result.history;
           updateSessionHistory(threadId, history);
 
-          const newItemsStartIndex = historyWithUser.length;
-          const newItems = history.slice(newItemsStartIndex);
-          const assistantMessages = newItems
-            .map((item) => extractAssistantText(item))
-            .filter((text) => text.length > 0);
-
-          const textResponse = assistantMessages.join("\n\n");
-          if (textResponse) {
-            writeTextChunks(writer, messageId, textResponse);
-          } else {
-            writer.write({ type: "text-delta", id: messageId, delta: "No assistant response generated." });
+          const newItems = history.slice(historyWithUser.length);
+          if (!forwarder.hasStreamedText()) {
+            // Providers that do not emit text deltas still produce the final messages in history.
+            const textResponse = newItems
+              .map((item) => extractAssistantText(item))
+              .filter((text) => text.length > 0)
+              .join("\n\n");
+            forwarder.writeText(textResponse || "No assistant response generated.");
           }
+          forwarder.flushText();
 
-          const deliverableParts = extractDeliverableParts(newItems);
+          forwarder.flushDeliverables();
+          const deliverables = listRunDeliverables(context.runId);
           const toolInteractions = extractToolInteractions(newItems);
-          const primaryDeliverable = deliverableParts?.[0]?.deliverable;
 
-          const reasoningSteps = buildReasoning(userText, toolInteractions, primaryDeliverable);
+          const reasoningSteps = buildReasoning(guard.value, toolInteractions, deliverables);
           if (reasoningSteps.length > 0) {
             writer.write({
               type: "data-reasoning",
@@ -385,44 +389,24 @@ export async function POST(request: NextRequest) {
             });
           }
 
-          if (toolInteractions.length > 0) {
-            toolInteractions.forEach((interaction, index) => {
-              writer.write({
-                type: "data-tool",
-                id: `${messageId}-tool-${index}`,
-                data: {
-                  name: interaction.name,
-                  status: interaction.status,
-                  arguments: interaction.arguments,
-                  result: interaction.result,
-                },
-              });
+          const sources = buildSources(toolInteractions, deliverables);
+          if (sources.length > 0) {
+            writer.write({
+              type: "data-sources",
+              id: `${messageId}-sources`,
+              data: sources,
             });
           }
 
-          if (primaryDeliverable) {
-            const sources = buildSources(primaryDeliverable, toolInteractions, threadId);
-            if (sources.length > 0) {
-              writer.write({
-                type: "data-sources",
-                id: `${messageId}-sources`,
-                data: sources,
-              });
-            }
-          }
-
-          if (deliverableParts?.length) {
-            deliverableParts.forEach((part, index) => {
-              writer.write({
-                type: "data-email-draft",
-                id: `${messageId}-email-${index}`,
-                data: part.deliverable,
-              });
-            });
-          }
+          finishRun(context.runId, "done", "Responded to operator");
         } catch (error) {
+          if (request.signal.aborted) {
+            finishRun(context.runId, "error", "Client disconnected; run aborted");
+            return;
+          }
           console.error("Chat orchestrator failed.", error);
           const errorMessage = error instanceof Error ? error.message : String(error);
+          finishRun(context.runId, "error", `Orchestrator failed: ${errorMessage}`);
           writer.write({ type: "text-delta", id: messageId, delta: `Error: ${errorMessage}` });
         } finally {
           finalize();
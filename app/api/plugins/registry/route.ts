@@ -1,8 +1,8 @@
 ﻿import { NextResponse } from "next/server";
-import { WORKFLOW_DEFINITIONS } from "@/data/workflows";
+import { loadWorkflowDefinitions } from "@/server/workflows/loader";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  return NextResponse.json({ workflows: WORKFLOW_DEFINITIONS });
+  return NextResponse.json({ workflows: loadWorkflowDefinitions() });
 }
@@ -1,6 +1,7 @@
 ﻿import { NextRequest, NextResponse } from "next/server";
-import { getRun } from "@/data/runs";
+import { getRun } from "@/server/runs/store";
 
+export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest, context: { params: Promise<{ runId: string }> }) {
@@ -1,8 +1,9 @@
 ﻿import { NextResponse } from "next/server";
-import { RUN_SUMMARIES } from "@/data/runs";
+import { listRunSummaries } from "@/server/runs/store";
 
+export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  return NextResponse.json({ runs: RUN_SUMMARIES });
+  return NextResponse.json({ runs: listRunSummaries() });
 }
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AGENT_PROMPT_VARIABLES, promptVersionActivateSchema, promptVersionCreateSchema } from "@/models/prompts";
+import { AGENT_IDS, type AgentId } from "@/models/settings";
+import {
+  activatePromptVersion,
+  createPromptVersion,
+  listPromptVersions,
+  resolveAgentPrompt,
+} from "@/server/agents/prompt-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ agentId: string }> };
+
+const isAgentId = (value: string): value is AgentId => (AGENT_IDS as readonly string[]).includes(value);
+
+const unknownAgent = (agentId: string) =>
+  NextResponse.json({ error: `Unknown agent "${agentId}"` }, { status: 404 });
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { agentId } = await context.params;
+  if (!isAgentId(agentId)) return unknownAgent(agentId);
+
+  return NextResponse.json({
+    active: resolveAgentPrompt(agentId),
+    variables: AGENT_PROMPT_VARIABLES[agentId],
+    versions: listPromptVersions(agentId),
+  });
+}
+
+/** Saves `{ template, note? }` as the agent's next prompt version and activates it. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { agentId } = await context.params;
+  if (!isAgentId(agentId)) return unknownAgent(agentId);
+
+  const parsed = promptVersionCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, { status: 400 });
+  }
+
+  const result = createPromptVersion(agentId, parsed.data);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.reason }, { status: 400 });
+  }
+  return NextResponse.json({ active: result.prompt }, { status: 201 });
+}
+
+/** Activates an existing version: `{ version }`, where `0` restores the built-in template. */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { agentId } = await context.params;
+  if (!isAgentId(agentId)) return unknownAgent(agentId);
+
+  const parsed = promptVersionActivateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, { status: 400 });
+  }
+
+  const result = activatePromptVersion(agentId, parsed.data.version);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.reason }, { status: 404 });
+  }
+  return NextResponse.json({ active: result.prompt });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { AGENT_PROMPT_VARIABLES } from "@/models/prompts";
+import { AGENT_IDS } from "@/models/settings";
+import { listPromptVersions, resolveAgentPrompt } from "@/server/agents/prompt-store";
+import { DEFAULT_PROMPT_TEMPLATES } from "@/server/agents/prompts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const agents = AGENT_IDS.map((agentId) => ({
+    agentId,
+    active: resolveAgentPrompt(agentId),
+    variables: AGENT_PROMPT_VARIABLES[agentId],
+    defaultTemplate: DEFAULT_PROMPT_TEMPLATES[agentId],
+    versions: listPromptVersions(agentId),
+  }));
+  return NextResponse.json({ agents });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runtimeSettingsUpdateSchema } from "@/models/settings";
+import { getModelProvider } from "@/server/providers/models";
+import { getRuntimeSettings, updateRuntimeSettings } from "@/server/settings/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const describeProvider = () => {
+  const provider = getModelProvider();
+  return provider.ok ? { configured: true, name: provider.name } : { configured: false, reason: provider.reason };
+};
+
+export async function GET() {
+  return NextResponse.json({ settings: getRuntimeSettings(), provider: describeProvider() });
+}
+
+/** Applies a partial update, e.g. `{ agents: { email: { model: "gpt-5" } }, tracingEnabled: false }`. */
+export async function PUT(request: NextRequest) {
+  const parsed = runtimeSettingsUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return NextResponse.json({ error: issues.join("; ") }, { status: 400 });
+  }
+
+  return NextResponse.json({ settings: updateRuntimeSettings(parsed.data), provider: describeProvider() });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { threadUpdateSchema } from "@/models/thread";
+import { deleteThread, getThread, toThreadSummary, updateThread } from "@/server/agents/conversation-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { threadId } = await context.params;
+  const thread = getThread(threadId);
+
+  if (!thread) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    thread: toThreadSummary(thread),
+    messages: thread.messages ?? [],
+    history: thread.history,
+    compactions: thread.compactions ?? [],
+  });
+}
+
+/** Renames and/or archives a thread: `{ title?, archived? }`. */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { threadId } = await context.params;
+  const parsed = threadUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, { status: 400 });
+  }
+
+  const thread = updateThread(threadId, parsed.data);
+  if (!thread) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ thread });
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { threadId } = await context.params;
+
+  if (!deleteThread(threadId)) {
+    return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ threadId, deleted: true });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { threadCreateSchema } from "@/models/thread";
+import { createThread, listThreads, toThreadSummary } from "@/server/agents/conversation-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const parseArchivedFilter = (value: string | null) => {
+  if (value === "all") return "all" as const;
+  return value === "true" || value === "only";
+};
+
+export async function GET(request: NextRequest) {
+  const archived = parseArchivedFilter(request.nextUrl.searchParams.get("archived"));
+  return NextResponse.json({ threads: listThreads({ archived }) });
+}
+
+export async function POST(request: NextRequest) {
+  const payload = await request.json().catch(() => ({}));
+  const parsed = threadCreateSchema.safeParse(payload ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, { status: 400 });
+  }
+
+  const thread = createThread({ title: parsed.data.title });
+  return NextResponse.json({ thread: toThreadSummary(thread) }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteKnowledgeDocument, getKnowledgeDocument } from "@/server/knowledge/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ documentId: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { documentId } = await context.params;
+  const entry = getKnowledgeDocument(documentId);
+
+  if (!entry) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(entry);
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { documentId } = await context.params;
+
+  if (!deleteKnowledgeDocument(documentId)) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ documentId, deleted: true });
+}
@@ -1,14 +1,98 @@
-﻿import { randomUUID } from "crypto";
-import { NextRequest, NextResponse } from "next/server";
+﻿import { NextRequest, NextResponse } from "next/server";
+import { extractDocumentText, MAX_UPLOAD_BYTES } from "@/server/knowledge/extractors";
+import { ingestDocument, listKnowledgeDocuments } from "@/server/knowledge/store";
 
+export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+export async function GET() {
+  return NextResponse.json({ documents: listKnowledgeDocuments() });
+}
+
+type FileUploadResult =
+  | { fileName: string; ok: true; documentId: string; chunkCount: number; duplicate: boolean }
+  | { fileName: string; ok: false; error: string; tooLarge?: boolean };
+
+const ingestFile = async (file: File): Promise<FileUploadResult> => {
+  // Checked before reading, so oversize files are never buffered.
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { fileName: file.name, ok: false, error: `File exceeds ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`, tooLarge: true };
+  }
+
+  const extracted = extractDocumentText({
+    fileName: file.name,
+    mimeType: file.type,
+    data: Buffer.from(await file.arrayBuffer()),
+  });
+  if (!extracted.ok) {
+    return { fileName: file.name, ok: false, error: extracted.reason };
+  }
+
+  const result = await ingestDocument({
+    name: file.name,
+    content: extracted.text,
+    mimeType: extracted.mimeType,
+    source: `upload:${file.name}`,
+  });
+  if (!result.ok) {
+    return { fileName: file.name, ok: false, error: result.reason };
+  }
+
+  return {
+    fileName: file.name,
+    ok: true,
+    documentId: result.document.id,
+    chunkCount: result.document.chunkCount,
+    duplicate: result.duplicate,
+  };
+};
+
+const handleMultipart = async (request: NextRequest) => {
+  const formData = await request.formData().catch(() => null);
+  const files = [...(formData?.getAll("files") ?? []), ...(formData?.getAll("file") ?? [])].filter(
+    (entry): entry is File => typeof entry !== "string",
+  );
+  if (files.length === 0) {
+    return NextResponse.json({ error: "No files provided" }, { status: 400 });
+  }
+
+  const results: FileUploadResult[] = [];
+  for (const file of files) {
+    results.push(await ingestFile(file));
+  }
+
+  const succeeded = results.some((result) => result.ok);
+  const allTooLarge = results.every((result) => !result.ok && result.tooLarge);
+  return NextResponse.json({ files: results }, { status: succeeded ? 201 : allTooLarge ? 413 : 422 });
+};
+
 export async function POST(request: NextRequest) {
-  const { name, content } = await request.json();
+  if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+    return handleMultipart(request);
+  }
 
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Missing name or content" }, { status: 400 });
+  }
+
+  const { name, content, mimeType, source } = body as Record<string, unknown>;
   if (!name || !content) {
     return NextResponse.json({ error: "Missing name or content" }, { status: 400 });
   }
 
-  return NextResponse.json({ documentId: randomUUID(), name });
-}
+  const result = await ingestDocument({
+    name: String(name),
+    content: String(content),
+    mimeType: typeof mimeType === "string" ? mimeType : undefined,
+    source: typeof source === "string" ? source : undefined,
+  });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.reason }, { status: 400 });
+  }
+
+  return NextResponse.json(
+    { documentId: result.document.id, name: result.document.name, document: result.document, duplicate: result.duplicate },
+    { status: result.duplicate ? 200 : 201 },
+  );
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWorkflowDefinition } from "@/server/workflows/loader";
+import { listRuns, toRunSummary } from "@/server/runs/store";
+import { queueWorkflowRun, resolveWorkflowInputs } from "@/server/workflows/engine";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const workflow = getWorkflowDefinition(id);
+  if (!workflow) {
+    return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+  }
+
+  const runs = listRuns()
+    .filter((run) => run.workflowId === id)
+    .map(toRunSummary);
+  return NextResponse.json({ workflow, runs });
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const workflow = getWorkflowDefinition(id);
+  if (!workflow) {
+    return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const rawInputs = body && typeof body === "object" && body.inputs && typeof body.inputs === "object" ? body.inputs : {};
+  const resolved = resolveWorkflowInputs(workflow, rawInputs);
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.reason }, { status: 400 });
+  }
+
+  const { runId } = queueWorkflowRun(workflow, { inputs: resolved.inputs });
+
+  return NextResponse.json({ runId, workflowId: workflow.id }, { status: 202 });
+}
@@ -0,0 +1,19 @@
+import { ApprovalsInbox } from "@/components/approvals-inbox";
+import { listApprovals } from "@/server/approvals/store";
+
+export const dynamic = "force-dynamic";
+
+export default function ApprovalsPage() {
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <p className="text-xs uppercase tracking-[0.35em] text-[#ef233c]">Approvals</p>
+        <h1 className="text-xl font-semibold text-zinc-100">Review Inbox</h1>
+        <p className="text-sm text-zinc-500">
+          Approve, reject or request changes on deliverables before they leave the workspace.
+        </p>
+      </header>
+      <ApprovalsInbox approvals={listApprovals()} />
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 ﻿import { DashboardStatusChart } from "@/components/dashboard-status-chart";
 import { DashboardGrid } from "@/components/dashboard-grid";
 import { DashboardWidget } from "@/components/dashboard-widget";
-import { RUN_SUMMARIES } from "@/data/runs";
+import { listRunSummaries } from "@/server/runs/store";
+
+export const dynamic = "force-dynamic";
 
 export default function DashboardPage() {
-  const statusCounts = RUN_SUMMARIES.reduce<Record<string, number>>((acc, run) => {
+  const runSummaries = listRunSummaries();
+  const statusCounts = runSummaries.reduce<Record<string, number>>((acc, run) => {
     acc[run.status] = (acc[run.status] ?? 0) + 1;
     return acc;
   }, {});
@@ -24,7 +27,7 @@ export default function DashboardPage() {
         </DashboardWidget>
         <DashboardWidget title="Latest Runs" subtitle="In chronological order">
           <ul className="space-y-3 text-sm text-zinc-300">
-            {RUN_SUMMARIES.slice(0, 5).map((run) => (
+            {runSummaries.slice(0, 5).map((run) => (
               <li key={run.id} className="flex items-center justify-between">
                 <span>{run.name}</span>
                 <span className="text-xs uppercase text-zinc-500">{run.status}</span>
@@ -1,6 +1,13 @@
-﻿import { KnowledgeUploader } from "@/components/knowledge-uploader";
+﻿import { KnowledgeDocumentList } from "@/components/knowledge-document-list";
+import { KnowledgeUploader } from "@/components/knowledge-uploader";
+import { listKnowledgeDocuments } from "@/server/knowledge/store";
+
+export const dynamic = "force-dynamic";
 
 export default function KnowledgePage() {
+  const documents = listKnowledgeDocuments();
+
+
   return (
     <div className="space-y-6">
       <header className="space-y-1">
@@ -9,6 +16,7 @@ export default function KnowledgePage() {
         <p className="text-sm text-zinc-500">Drop fresh intelligence into the shared knowledge base.</p>
       </header>
       <KnowledgeUploader />
+      <KnowledgeDocumentList documents={documents} />
     </div>
   );
 }
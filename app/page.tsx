@@ -1,11 +1,15 @@
-﻿import { ChatPanel } from "@/components/chat-panel";
+﻿import { ChatWorkspace } from "@/components/chat-workspace";
 import { DashboardWidget } from "@/components/dashboard-widget";
-import { RUN_SUMMARIES } from "@/data/runs";
+import { listThreads } from "@/server/agents/conversation-store";
+import { listRunSummaries } from "@/server/runs/store";
+
+export const dynamic = "force-dynamic";
 
 export default function HomePage() {
-  const totalRuns = RUN_SUMMARIES.length;
-  const runningRuns = RUN_SUMMARIES.filter((run) => run.status === "running").length;
-  const errorRuns = RUN_SUMMARIES.filter((run) => run.status === "error").length;
+  const runSummaries = listRunSummaries();
+  const totalRuns = runSummaries.length;
+  const runningRuns = runSummaries.filter((run) => run.status === "running").length;
+  const errorRuns = runSummaries.filter((run) => run.status === "error").length;
 
   return (
     <div className="flex flex-1 flex-col gap-6">
@@ -20,7 +24,7 @@ export default function HomePage() {
           <p className="text-3xl font-semibold text-[#ef233c]">{errorRuns}</p>
         </DashboardWidget>
       </section>
-      <ChatPanel />
+      <ChatWorkspace threads={listThreads()} />
     </div>
   );
 }
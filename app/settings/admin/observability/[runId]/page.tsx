@@ -1,6 +1,9 @@
 ﻿import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getRun } from "@/data/runs";
+import { RunTimeline } from "@/components/run-timeline";
+import { getRun } from "@/server/runs/store";
+
+export const dynamic = "force-dynamic";
 
 export default function ObservabilityRunPage({ params }: { params: { runId: string } }) {
   const run = getRun(params.runId);
@@ -19,8 +22,27 @@ export default function ObservabilityRunPage({ params }: { params: { runId: stri
           Back to runs
         </Link>
       </header>
+      {run.agents && Object.keys(run.agents).length > 0 && (
+        <section className="rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
+          <h2 className="text-sm font-semibold uppercase tracking-[0.3em] text-zinc-200">Agent configuration</h2>
+          <ul className="mt-4 grid gap-2 text-sm text-zinc-300 md:grid-cols-3">
+            {Object.entries(run.agents).map(([agentId, details]) => (
+              <li key={agentId} className="rounded-xl border border-white/10 bg-[#101526] px-3 py-2">
+                <p className="font-medium text-zinc-100">{agentId}</p>
+                <p className="text-xs text-zinc-500">
+                  {details.model} · Prompt {details.promptVersion}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
       <section className="rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
         <h2 className="text-sm font-semibold uppercase tracking-[0.3em] text-zinc-200">Timeline</h2>
+        <RunTimeline spans={run.spans ?? []} className="mt-4" />
+      </section>
+      <section className="rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
+        <h2 className="text-sm font-semibold uppercase tracking-[0.3em] text-zinc-200">Step log</h2>
         <ul className="mt-4 space-y-3 text-sm text-zinc-300">
           {run.steps.map((step) => (
             <li key={step.id} className="flex items-start gap-3">
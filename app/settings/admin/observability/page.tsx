@@ -1,5 +1,7 @@
 ﻿import Link from "next/link";
-import { RUN_SUMMARIES } from "@/data/runs";
+import { listRunSummaries } from "@/server/runs/store";
+
+export const dynamic = "force-dynamic";
 
 export default function ObservabilityAdminPage() {
   return (
@@ -10,7 +12,7 @@ export default function ObservabilityAdminPage() {
         <p className="text-sm text-zinc-500">Select a run to inspect detailed traces and telemetry.</p>
       </header>
       <div className="space-y-3">
-        {RUN_SUMMARIES.map((run) => (
+        {listRunSummaries().map((run) => (
           <Link
             key={run.id}
             href={`/settings/admin/observability/${run.id}`}
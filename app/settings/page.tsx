@@ -1,21 +1,30 @@
 ﻿import Link from "next/link";
 import { SettingsPanel } from "@/components/settings-panel";
+import { getModelProvider } from "@/server/providers/models";
+import { getRuntimeSettings } from "@/server/settings/store";
+
+export const dynamic = "force-dynamic";
 
 export default function SettingsPage() {
+  const provider = getModelProvider();
+
   return (
     <div className="space-y-6">
       <header className="space-y-1">
         <p className="text-xs uppercase tracking-[0.35em] text-[#ef233c]">Settings</p>
         <h1 className="text-xl font-semibold text-zinc-100">Platform Defaults</h1>
         <p className="text-sm text-zinc-500">
-          Adjust default models and observability. Admin routes live under
+          Choose the model, reasoning effort and verbosity for each agent, and whether traces are exported. Admin routes live under
           <Link href="/settings/admin/observability" className="ml-1 text-[#ef233c] underline">
             observability controls
           </Link>
           .
         </p>
       </header>
-      <SettingsPanel />
+      <SettingsPanel
+        initialSettings={getRuntimeSettings()}
+        provider={provider.ok ? { configured: true, name: provider.name } : { configured: false, reason: provider.reason }}
+      />
     </div>
   );
 }
@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+import { ChatWorkspace } from "@/components/chat-workspace";
+import { getThread, getThreadMessages, listThreads } from "@/server/agents/conversation-store";
+
+export const dynamic = "force-dynamic";
+
+type ThreadPageProps = { params: Promise<{ threadId: string }> };
+
+export default async function ThreadPage({ params }: ThreadPageProps) {
+  const { threadId } = await params;
+  if (!getThread(threadId)) {
+    notFound();
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-6">
+      <ChatWorkspace
+        key={threadId}
+        threads={listThreads()}
+        threadId={threadId}
+        initialMessages={getThreadMessages(threadId)}
+      />
+    </div>
+  );
+}
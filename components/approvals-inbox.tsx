@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Loader2, MessageSquareWarning, Send, X } from "lucide-react";
+import { DeliverableCard } from "@/components/deliverables/registry";
+import {
+  APPROVAL_STATUS_LABELS,
+  APPROVAL_STATUSES,
+  type ApprovalDecision,
+  type ApprovalRecord,
+  type ApprovalStatus,
+} from "@/models/approval";
+import type { EmailDelivery } from "@/models/email";
+import { cn } from "@/utils/cn";
+
+type ApprovalsInboxProps = {
+  approvals: ApprovalRecord[];
+};
+
+const STATUS_STYLES: Record<ApprovalStatus, string> = {
+  pending: "border-amber-400/40 text-amber-300",
+  approved: "border-emerald-400/40 text-emerald-300",
+  rejected: "border-[#ef233c]/50 text-[#ef233c]",
+  changes_requested: "border-sky-400/40 text-sky-300",
+};
+
+const DECISIONS: { decision: ApprovalDecision["decision"]; label: string; icon: typeof Check }[] = [
+  { decision: "approve", label: "Approve", icon: Check },
+  { decision: "request_changes", label: "Request changes", icon: MessageSquareWarning },
+  { decision: "reject", label: "Reject", icon: X },
+];
+
+const parseAddresses = (value: string) =>
+  value
+    .split(/[,;\s]+/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+const RECIPIENT_FIELDS = [
+  { field: "to", label: "To" },
+  { field: "cc", label: "Cc" },
+  { field: "bcc", label: "Bcc" },
+] as const;
+
+function SendEmailForm({ cacheKey }: { cacheKey: string }) {
+  const [recipients, setRecipients] = useState({ to: "", cc: "", bcc: "" });
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const send = async () => {
+    setSending(true);
+    setResult(null);
+
+    try {
+      const response = await fetch(`/api/agents/email/${encodeURIComponent(cacheKey)}/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to: parseAddresses(recipients.to),
+          cc: parseAddresses(recipients.cc),
+          bcc: parseAddresses(recipients.bcc),
+        }),
+      });
+      const body = (await response.json().catch(() => ({}))) as { error?: string; delivery?: EmailDelivery };
+      if (!response.ok || !body.delivery) {
+        throw new Error(body.error ?? `Send failed (${response.status})`);
+      }
+      const { delivery } = body;
+      const refused = delivery.rejected.length > 0 ? `; refused ${delivery.rejected.join(", ")}` : "";
+      setResult({ ok: true, message: `Sent to ${delivery.accepted.join(", ")}${refused}` });
+    } catch (err) {
+      setResult({ ok: false, message: err instanceof Error ? err.message : "Send failed" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/10 bg-[#0f1322]/60 p-4">
+      <p className="text-xs uppercase tracking-[0.2em] text-zinc-500">Send email</p>
+      <div className="grid gap-2 sm:grid-cols-3">
+        {RECIPIENT_FIELDS.map(({ field, label }) => (
+          <label key={field} className="space-y-1 text-xs text-zinc-400">
+            <span>{label}</span>
+            <input
+              value={recipients[field]}
+              onChange={(event) => setRecipients((current) => ({ ...current, [field]: event.target.value }))}
+              placeholder="name@example.com, ..."
+              className="w-full rounded-lg border border-white/10 bg-[#0f1322] px-3 py-1.5 text-sm text-zinc-100 placeholder:text-zinc-500 focus:border-[#ef233c]/60 focus:outline-none"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={send}
+          disabled={sending || parseAddresses(recipients.to).length === 0}
+          className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-xs text-zinc-200 transition hover:border-[#ef233c]/60 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+          Send
+        </button>
+        {result && (
+          <span className={cn("text-xs", result.ok ? "text-emerald-300" : "text-[#ef233c]")}>{result.message}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ApprovalItem({ approval }: { approval: ApprovalRecord }) {
+  const router = useRouter();
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState<ApprovalDecision["decision"] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (decision: ApprovalDecision["decision"]) => {
+    setSubmitting(decision);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/approvals/${encodeURIComponent(approval.cacheKey)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, comment: comment.trim() || undefined }),
+      });
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) {
+        throw new Error(body.error ?? `Decision failed (${response.status})`);
+      }
+      setComment("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Decision failed");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <li className="space-y-4 rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="truncate text-sm font-medium text-zinc-100">{approval.title}</p>
+          <p className="text-xs text-zinc-500">
+            Submitted {new Date(approval.createdAt).toLocaleString()} · run {approval.runId.slice(0, 8)}
+            {approval.revisionOf && <> · revision of {approval.revisionOf.slice(0, 8)}</>}
+            {approval.revisedBy && <> · revised by {approval.revisedBy.slice(0, 8)}</>}
+          </p>
+        </div>
+        <span
+          className={cn(
+            "rounded-full border px-3 py-1 text-[11px] uppercase tracking-[0.2em]",
+            STATUS_STYLES[approval.status],
+          )}
+        >
+          {APPROVAL_STATUS_LABELS[approval.status]}
+        </span>
+      </header>
+
+      <DeliverableCard
+        messageId={`approval-${approval.cacheKey}`}
+        index={0}
+        record={{
+          cacheKey: approval.cacheKey,
+          runId: approval.runId,
+          identicalToExisting: false,
+          deliverable: approval.deliverable,
+        }}
+        renderCopyButton={() => null}
+      />
+
+      {approval.history.length > 1 && (
+        <ol className="space-y-1 text-xs text-zinc-400">
+          {approval.history.slice(1).map((event) => (
+            <li key={event.at}>
+              {new Date(event.at).toLocaleString()} · {APPROVAL_STATUS_LABELS[event.status]}
+              {event.reviewer ? ` by ${event.reviewer}` : ""}
+              {event.comment ? `: ${event.comment}` : ""}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {approval.status === "approved" && approval.deliverable.type === "email-draft" && (
+        <SendEmailForm cacheKey={approval.cacheKey} />
+      )}
+
+      {approval.status === "pending" && (
+        <div className="space-y-3">
+          <textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            rows={2}
+            maxLength={2000}
+            placeholder="Comment (required to reject or request changes)"
+            className="w-full rounded-lg border border-white/10 bg-[#0f1322] px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-500 focus:border-[#ef233c]/60 focus:outline-none"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            {DECISIONS.map(({ decision, label, icon: Icon }) => (
+              <button
+                key={decision}
+                type="button"
+                onClick={() => submit(decision)}
+                disabled={submitting !== null || (decision !== "approve" && !comment.trim())}
+                className="inline-flex items-center gap-2 rounded-full border border-white/10 px-4 py-1.5 text-xs text-zinc-200 transition hover:border-[#ef233c]/60 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {submitting === decision ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Icon className="h-3.5 w-3.5" />}
+                {label}
+              </button>
+            ))}
+            {error && <span className="text-xs text-[#ef233c]">{error}</span>}
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function ApprovalsInbox({ approvals }: ApprovalsInboxProps) {
+  const [filter, setFilter] = useState<ApprovalStatus | "all">("pending");
+  const visible = approvals.filter((approval) => filter === "all" || approval.status === filter);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(["all", ...APPROVAL_STATUSES] as const).map((status) => {
+          const count = approvals.filter((approval) => status === "all" || approval.status === status).length;
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => setFilter(status)}
+              className={cn(
+                "rounded-full border px-3 py-1 text-xs transition",
+                filter === status
+                  ? "border-[#ef233c]/60 bg-[#2b2d42]/70 text-zinc-100"
+                  : "border-white/10 text-zinc-400 hover:text-zinc-100",
+              )}
+            >
+              {status === "all" ? "All" : APPROVAL_STATUS_LABELS[status]} ({count})
+            </button>
+          );
+        })}
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-sm text-zinc-500">Nothing to review.</p>
+      ) : (
+        <ul className="space-y-4">
+          {visible.map((approval) => (
+            <ApprovalItem key={approval.cacheKey} approval={approval} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
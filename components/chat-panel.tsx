@@ -1,7 +1,7 @@
 ﻿"use client";
 
 import { useChat } from "@ai-sdk/react";
-import { DefaultChatTransport } from "ai";
+import { DefaultChatTransport, type UIMessage } from "ai";
 import {
   AlertTriangle,
   ChevronDown,
@@ -12,6 +12,7 @@ import {
   Loader2,
   Paperclip,
   Send,
+  ShieldAlert,
   Sparkles,
   Workflow,
 } from "lucide-react";
@@ -24,27 +25,14 @@ import {
   useRef,
   useState,
 } from "react";
+import { DeliverableCard } from "@/components/deliverables/registry";
+import type { DeliverableRecord } from "@/models/deliverable";
 import { cn } from "@/utils/cn";
 
-type EmailDraftVariant = {
-  label: string;
-  body: string;
-};
-
-type EmailDraftDeliverable = {
-  subject: string;
-  body: string;
-  variants: EmailDraftVariant[];
-  metadata: Record<string, unknown>;
-  cacheKey: string;
-  runId: string;
-  identicalToExisting?: boolean;
-};
-
-type EmailDraftUIPart = {
-  type: "data-email-draft";
+type DeliverableUIPart = {
+  type: "data-deliverable";
   id?: string;
-  data: EmailDraftDeliverable;
+  data: DeliverableRecord;
 };
 
 type TextPart = {
@@ -73,6 +61,9 @@ type SourceItem = {
   description?: string;
   url?: string;
   badge?: string;
+  documentId?: string;
+  offsets?: { start: number; end: number };
+  score?: number;
 };
 
 type SourcesUIPart = {
@@ -92,7 +83,26 @@ type ToolUIPart = {
   };
 };
 
-type MessagePart = TextPart | EmailDraftUIPart | ReasoningUIPart | SourcesUIPart | ToolUIPart;
+type HandoffUIPart = {
+  type: "data-handoff";
+  id?: string;
+  data: { from: string; to: string };
+};
+
+type GuardrailUIPart = {
+  type: "data-guardrail";
+  id?: string;
+  data: { stage?: "input" | "output"; outcome: "warn" | "redact" | "block"; detectors: string[] };
+};
+
+type MessagePart =
+  | TextPart
+  | DeliverableUIPart
+  | ReasoningUIPart
+  | SourcesUIPart
+  | ToolUIPart
+  | HandoffUIPart
+  | GuardrailUIPart;
 
 type ChatMessage = {
   id: string;
@@ -129,9 +139,30 @@ const extractTextContent = (message: ChatMessage | null | undefined): string =>
     .join("");
 };
 
-export function ChatPanel() {
+type ChatPanelProps = {
+  threadId?: string;
+  /** Persisted messages of a reopened thread, including their data parts. */
+  initialMessages?: UIMessage[];
+  onThreadStarted?: (threadId: string) => void;
+  onResponseFinished?: () => void;
+};
+
+export function ChatPanel({ threadId, initialMessages, onThreadStarted, onResponseFinished }: ChatPanelProps = {}) {
+  // The server starts a thread on the first message and streams its id back; later turns reuse it.
+  const threadIdRef = useRef<string | null>(threadId ?? null);
   const { messages, sendMessage, status } = useChat({
+    id: threadId,
+    messages: initialMessages,
     transport: new DefaultChatTransport({ api: "/api/chat" }),
+    onData: (part) => {
+      if (part.type !== "data-thread") return;
+      const startedId = (part.data as { threadId: string }).threadId;
+      if (threadIdRef.current !== startedId) {
+        threadIdRef.current = startedId;
+        onThreadStarted?.(startedId);
+      }
+    },
+    onFinish: () => onResponseFinished?.(),
   });
   const typedMessages = messages as ChatMessage[];
   const [activeAssistantId, setActiveAssistantId] = useState<string | null>(null);
@@ -147,7 +178,7 @@ export function ChatPanel() {
     const trimmed = input.trim();
     if (!trimmed) return;
 
-    void sendMessage({ text: trimmed });
+    void sendMessage({ text: trimmed }, { body: { threadId: threadIdRef.current ?? undefined } });
     setInput("");
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
@@ -253,8 +284,11 @@ export function ChatPanel() {
     const toolParts = assistantMessage?.parts?.filter(
       (part): part is ToolUIPart => part?.type === "data-tool",
     ) ?? [];
+    const handoffParts = assistantMessage?.parts?.filter(
+      (part): part is HandoffUIPart => part?.type === "data-handoff",
+    ) ?? [];
     const deliverableParts = assistantMessage?.parts?.filter(
-      (part): part is EmailDraftUIPart => part.type === "data-email-draft",
+      (part) => part.type === "data-deliverable",
     ) ?? [];
     const hasResponseText = assistantMessage
       ? extractTextContent(assistantMessage).trim().length > 0
@@ -269,8 +303,13 @@ export function ChatPanel() {
       {
         key: "delegate",
         label: "Delegating specialists",
-        completed: toolParts.length > 0 || (!inFlight && Boolean(assistantMessage)),
-        meta: toolParts.length > 0 ? `${toolParts.length} tool${toolParts.length > 1 ? "s" : ""}` : undefined,
+        completed: toolParts.length > 0 || handoffParts.length > 0 || (!inFlight && Boolean(assistantMessage)),
+        meta:
+          handoffParts.length > 0
+            ? `Handed off to ${handoffParts.at(-1)?.data.to}`
+            : toolParts.length > 0
+              ? `${toolParts.length} tool${toolParts.length > 1 ? "s" : ""}`
+              : undefined,
       },
       {
         key: "draft",
@@ -278,7 +317,7 @@ export function ChatPanel() {
         completed: deliverableParts.length > 0 || (!inFlight && Boolean(assistantMessage)),
         meta:
           deliverableParts.length > 0
-            ? `${deliverableParts.length} draft${deliverableParts.length > 1 ? "s" : ""}`
+            ? `${deliverableParts.length} deliverable${deliverableParts.length > 1 ? "s" : ""}`
             : undefined,
       },
       {
@@ -362,8 +401,14 @@ export function ChatPanel() {
           const toolParts = message.parts?.filter(
             (part): part is ToolUIPart => part?.type === "data-tool",
           );
+          const handoffParts = message.parts?.filter(
+            (part): part is HandoffUIPart => part?.type === "data-handoff",
+          );
           const deliverableParts = message.parts?.filter(
-            (part): part is EmailDraftUIPart => part.type === "data-email-draft",
+            (part): part is DeliverableUIPart => part.type === "data-deliverable",
+          );
+          const guardrailParts = message.parts?.filter(
+            (part): part is GuardrailUIPart => part?.type === "data-guardrail",
           );
 
           return (
@@ -384,15 +429,19 @@ export function ChatPanel() {
 
               {!isUser && (
                 <div className="grid w-full max-w-4xl gap-4">
+                  {guardrailParts?.map((part, index) => (
+                    <GuardrailNotice key={part.id ?? `guardrail-${index}`} part={part} />
+                  ))}
                   {reasoningPart && <ReasoningCard part={reasoningPart} />}
+                  {handoffParts?.length ? <HandoffTrail parts={handoffParts} /> : null}
                   {toolParts?.length ? <ToolPanel parts={toolParts} /> : null}
                   {sourcesPart && <SourcesCard part={sourcesPart} />}
                   {deliverableParts?.map((part, index) => (
-                    <EmailDraftCard
+                    <DeliverableCard
                       key={`${message.id}-deliverable-${index}`}
                       messageId={message.id}
                       index={index}
-                      deliverable={part.data}
+                      record={part.data}
                       renderCopyButton={renderCopyButton}
                     />
                   ))}
@@ -552,6 +601,53 @@ function ReasoningCard({ part }: ReasoningCardProps) {
   );
 }
 
+const GUARDRAIL_NOTICES: Record<"input" | "output", Record<GuardrailUIPart["data"]["outcome"], string>> = {
+  input: {
+    warn: "Your message was flagged",
+    redact: "Redacted before sending",
+    block: "Blocked by guardrails",
+  },
+  output: {
+    warn: "Response flagged",
+    redact: "Redacted from the response",
+    block: "Response withheld by guardrails",
+  },
+};
+
+function GuardrailNotice({ part }: { part: GuardrailUIPart }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 rounded-2xl border px-4 py-2 text-xs",
+        part.data.outcome === "block"
+          ? "border-[#ef233c]/40 bg-[#ef233c]/10 text-[#ffb3c1]"
+          : "border-amber-400/30 bg-amber-400/10 text-amber-200",
+      )}
+    >
+      <ShieldAlert className="h-3.5 w-3.5" aria-hidden />
+      <span className="font-semibold">{GUARDRAIL_NOTICES[part.data.stage ?? "input"][part.data.outcome]}:</span>
+      <span>{part.data.detectors.join(", ")}</span>
+    </div>
+  );
+}
+
+function HandoffTrail({ parts }: { parts: HandoffUIPart[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[11px] text-zinc-400">
+      {parts.map((part, index) => (
+        <span
+          key={part.id ?? `handoff-${index}`}
+          className="flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-3 py-1 font-medium"
+        >
+          {part.data.from}
+          <ChevronRight className="h-3 w-3 text-[#ef233c]" aria-hidden />
+          {part.data.to}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 type ToolPanelProps = {
   parts: ToolUIPart[];
 };
@@ -731,6 +827,12 @@ function SourcesCard({ part }: SourcesCardProps) {
                 {source.url && <ExternalLink className="h-4 w-4 text-zinc-400" />}
               </div>
               {source.description && <p className="mt-2 text-xs text-zinc-400">{source.description}</p>}
+              {source.offsets && (
+                <p className="mt-2 text-[10px] text-zinc-500">
+                  chars {source.offsets.start}–{source.offsets.end}
+                  {typeof source.score === "number" ? ` · score ${source.score.toFixed(2)}` : ""}
+                </p>
+              )}
               {source.badge && (
                 <span className="mt-3 inline-flex items-center rounded-full border border-white/10 px-2.5 py-1 text-[10px] uppercase tracking-[0.25em] text-white/70">
                   {source.badge}
@@ -744,120 +846,6 @@ function SourcesCard({ part }: SourcesCardProps) {
   );
 }
 
-type EmailDraftCardProps = {
-  messageId: string;
-  index: number;
-  deliverable: EmailDraftDeliverable;
-  renderCopyButton: (id: string, content: string, size?: "sm" | "md") => ReactNode;
-};
-
-function EmailDraftCard({ messageId, index, deliverable, renderCopyButton }: EmailDraftCardProps) {
-  const variants = Array.isArray(deliverable.variants) ? deliverable.variants : [];
-  const metadata = (deliverable.metadata ?? {}) as Record<string, unknown>;
-  const keyPoints = Array.isArray(metadata.keyPoints) ? (metadata.keyPoints as string[]) : [];
-  const recipient = typeof metadata.recipient === "string" ? metadata.recipient : undefined;
-  const tone = typeof metadata.tone === "string" ? metadata.tone : undefined;
-  const additionalContext = typeof metadata.additionalContext === "string" ? metadata.additionalContext : undefined;
-
-  return (
-    <section className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#151b2f] via-[#141a2c] to-[#101522] p-6 text-sm text-zinc-100 shadow-lg">
-      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
-        <div className="space-y-2">
-          <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-[#ef233c]">
-            <CheckCircle2 className="h-4 w-4" /> Email deliverable
-          </span>
-          <h2 className="text-lg font-semibold text-white">{deliverable.subject}</h2>
-          <p className="text-xs text-zinc-500">Run {deliverable.runId} • Cache key {deliverable.cacheKey.slice(0, 10)}</p>
-        </div>
-        <div>{renderCopyButton(`${messageId}-subject-${index}`, deliverable.subject, "md")}</div>
-      </div>
-
-      {deliverable.identicalToExisting && (
-        <div className="mt-4 flex items-center gap-2 rounded-2xl border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
-          <CheckCircle2 className="h-3.5 w-3.5" /> Served from cache for this intent.
-        </div>
-      )}
-
-      <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
-        <div className="space-y-4">
-          <section className="rounded-2xl border border-white/10 bg-[#0e1320]/80 p-4">
-            <header className="mb-2 flex items-center justify-between">
-              <span className="text-xs uppercase tracking-[0.25em] text-zinc-500">Primary draft</span>
-              {renderCopyButton(`${messageId}-primary-${index}`, deliverable.body)}
-            </header>
-            <pre className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-100">{deliverable.body}</pre>
-          </section>
-
-          {variants.length > 0 && (
-            <section className="space-y-3">
-              <h3 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Variants ({variants.length})</h3>
-              {variants.map((variant, variantIndex) => (
-                <article
-                  key={variant.label}
-                  className="rounded-2xl border border-white/10 bg-[#0f1524]/70 p-4"
-                >
-                  <header className="mb-2 flex items-center justify-between">
-                    <span className="text-sm font-semibold text-white">{variant.label}</span>
-                    {renderCopyButton(
-                      `${messageId}-variant-${index}-${variantIndex}`,
-                      variant.body,
-                    )}
-                  </header>
-                  <pre className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-200">{variant.body}</pre>
-                </article>
-              ))}
-            </section>
-          )}
-        </div>
-
-        <aside className="space-y-4">
-          <section className="rounded-2xl border border-white/10 bg-[#0d121f]/80 p-4">
-            <h4 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Context summary</h4>
-            <dl className="mt-3 space-y-2 text-sm text-zinc-300">
-              {recipient && (
-                <div className="flex justify-between gap-2">
-                  <dt className="text-zinc-500">Recipient</dt>
-                  <dd className="text-right text-zinc-200">{recipient}</dd>
-                </div>
-              )}
-              {tone && (
-                <div className="flex justify-between gap-2">
-                  <dt className="text-zinc-500">Tone</dt>
-                  <dd className="text-right text-zinc-200">{tone}</dd>
-                </div>
-              )}
-              {additionalContext && (
-                <div className="flex flex-col gap-1">
-                  <dt className="text-zinc-500">Additional notes</dt>
-                  <dd className="rounded-xl border border-white/5 bg-white/5 p-3 text-xs text-zinc-300">
-                    {additionalContext}
-                  </dd>
-                </div>
-              )}
-            </dl>
-          </section>
-
-          {keyPoints.length > 0 && (
-            <section className="rounded-2xl border border-white/10 bg-[#0d131f]/80 p-4">
-              <h4 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Key points</h4>
-              <ul className="mt-3 space-y-2 text-sm text-zinc-300">
-                {keyPoints.map((point, pointIndex) => (
-                  <li
-                    key={`${deliverable.cacheKey}-point-${pointIndex}`}
-                    className="rounded-xl border border-white/5 bg-white/5 px-3 py-2 text-xs text-zinc-200"
-                  >
-                    {point}
-                  </li>
-                ))}
-              </ul>
-            </section>
-          )}
-        </aside>
-      </div>
-    </section>
-  );
-}
-
 type StatusPillProps = {
   status: "started" | "completed" | "error";
 };
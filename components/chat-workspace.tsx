@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { UIMessage } from "ai";
+import { ChatPanel } from "@/components/chat-panel";
+import { ThreadSidebar } from "@/components/thread-sidebar";
+import type { ThreadSummary } from "@/models/thread";
+
+type ChatWorkspaceProps = {
+  threads: ThreadSummary[];
+  threadId?: string;
+  initialMessages?: UIMessage[];
+};
+
+const threadUrl = (threadId: string) => `/threads/${encodeURIComponent(threadId)}`;
+
+export function ChatWorkspace({ threads: initialThreads, threadId, initialMessages }: ChatWorkspaceProps) {
+  const router = useRouter();
+  const [threads, setThreads] = useState(initialThreads);
+  const [activeThreadId, setActiveThreadId] = useState(threadId);
+  // Bumped for "New conversation" so the panel drops its messages even when the route stays "/".
+  const [conversationKey, setConversationKey] = useState(0);
+
+  const refreshThreads = useCallback(async () => {
+    try {
+      const response = await fetch("/api/threads", { cache: "no-store" });
+      if (!response.ok) return;
+      const data = (await response.json()) as { threads: ThreadSummary[] };
+      setThreads(data.threads);
+    } catch (error) {
+      console.error("Failed to refresh threads", error);
+    }
+  }, []);
+
+  // A conversation started from "/" gets its URL once the server assigns the thread id. The URL is
+  // swapped in place rather than navigated to so the in-flight response keeps streaming.
+  const handleThreadStarted = useCallback(
+    (startedId: string) => {
+      setActiveThreadId(startedId);
+      window.history.replaceState(null, "", threadUrl(startedId));
+      void refreshThreads();
+    },
+    [refreshThreads],
+  );
+
+  const startNewConversation = () => {
+    setActiveThreadId(undefined);
+    setConversationKey((key) => key + 1);
+    router.push("/");
+  };
+
+  const handleRename = async (targetId: string, title: string) => {
+    const response = await fetch(`/api/threads/${encodeURIComponent(targetId)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    if (!response.ok) {
+      throw new Error(`Rename failed (${response.status})`);
+    }
+    await refreshThreads();
+  };
+
+  const handleDelete = async (targetId: string) => {
+    const response = await fetch(`/api/threads/${encodeURIComponent(targetId)}`, { method: "DELETE" });
+    if (!response.ok) {
+      throw new Error(`Delete failed (${response.status})`);
+    }
+    setThreads((current) => current.filter((thread) => thread.id !== targetId));
+    if (targetId === activeThreadId) {
+      startNewConversation();
+    }
+  };
+
+  return (
+    <div className="flex min-h-[36rem] flex-1 gap-4">
+      <ThreadSidebar
+        threads={threads}
+        activeThreadId={activeThreadId}
+        onNew={startNewConversation}
+        onRename={handleRename}
+        onDelete={handleDelete}
+      />
+      <ChatPanel
+        key={conversationKey}
+        threadId={threadId}
+        initialMessages={initialMessages}
+        onThreadStarted={handleThreadStarted}
+        onResponseFinished={refreshThreads}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Download, EyeOff, Mail, ShieldAlert } from "lucide-react";
+import { EmailDraftHistoryPanel } from "@/components/deliverables/email-draft-history";
+import type { DeliverableRendererProps } from "@/components/deliverables/registry";
+import type { EmailDraft, EmailDraftDeliverable, EmailDraftHistory } from "@/models/email";
+import {
+  GUARDRAIL_DETECTOR_IDS,
+  GUARDRAIL_DETECTOR_LABELS,
+  GUARDRAIL_PLACEHOLDERS,
+  REDACTION_PLACEHOLDER_PATTERN,
+  type RedactionEntry,
+} from "@/models/guardrails";
+
+const PLACEHOLDER_LABELS = new Map<string, string>(
+  GUARDRAIL_DETECTOR_IDS.map((id) => [GUARDRAIL_PLACEHOLDERS[id], GUARDRAIL_DETECTOR_LABELS[id]]),
+);
+PLACEHOLDER_LABELS.set("REMOVED", "Removed content");
+
+/** Placeholders left by the input guardrails, in order of first appearance. */
+const findPlaceholders = (texts: string[]) => {
+  const found = new Map<string, string>();
+  texts.forEach((text) => {
+    for (const match of text.matchAll(REDACTION_PLACEHOLDER_PATTERN)) {
+      const label = PLACEHOLDER_LABELS.get(match[1]);
+      if (label && !found.has(match[0])) found.set(match[0], label);
+    }
+  });
+  return Array.from(found, ([placeholder, label]) => ({ placeholder, label }));
+};
+
+type RevealState =
+  | { status: "hidden" | "loading" }
+  | { status: "revealed"; draft: EmailDraft; redactions: RedactionEntry[] }
+  | { status: "error"; message: string };
+
+export function EmailDraftCard({
+  messageId,
+  index,
+  record,
+  renderCopyButton,
+}: DeliverableRendererProps<EmailDraftDeliverable>) {
+  const [history, setHistory] = useState<EmailDraftHistory | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  // Once the history loads, the card shows its current revision, which a restore can change.
+  const current = history?.revisions.find((revision) => revision.cacheKey === history.currentKey);
+  const activeKey = current?.cacheKey ?? record.cacheKey;
+  const deliverable = current?.deliverable ?? record.deliverable;
+  const { metadata } = deliverable;
+  const keyPoints = metadata.keyPoints ?? [];
+  const [reveal, setReveal] = useState<RevealState>({ status: "hidden" });
+  const draft = reveal.status === "revealed" ? reveal.draft : deliverable.draft;
+  const variants = draft.variants ?? [];
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/agents/email/${encodeURIComponent(record.cacheKey)}/revisions`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data) => {
+        if (!cancelled && data?.history) setHistory(data.history);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [record.cacheKey]);
+
+  const [exportVariant, setExportVariant] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportUrl = (format: "eml" | "mailto") => {
+    const params = new URLSearchParams({ format });
+    if (exportVariant > 0) params.set("variant", String(exportVariant));
+    return `/api/agents/email/${encodeURIComponent(activeKey)}/export?${params}`;
+  };
+
+  const openMailto = async () => {
+    setExportError(null);
+    try {
+      const response = await fetch(exportUrl("mailto"));
+      const data = await response.json();
+      if (!response.ok) {
+        setExportError(data.error ?? "Unable to build the mailto link.");
+        return;
+      }
+      window.location.href = data.href;
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const restore = async (cacheKey: string) => {
+    setRestoring(cacheKey);
+    setHistoryError(null);
+    try {
+      const response = await fetch(`/api/agents/email/${encodeURIComponent(cacheKey)}/restore`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        setHistoryError(data.error ?? "Unable to restore the revision.");
+        return;
+      }
+      setHistory(data.history);
+      setReveal({ status: "hidden" });
+      setExportVariant(0);
+    } catch (error) {
+      setHistoryError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const placeholders = findPlaceholders([
+    deliverable.draft.subject,
+    deliverable.draft.body,
+    ...(deliverable.draft.variants ?? []).map((variant) => variant.body),
+    metadata.recipient,
+    metadata.additionalContext ?? "",
+    ...keyPoints,
+  ]);
+
+  const toggleReveal = async () => {
+    if (reveal.status === "revealed") {
+      setReveal({ status: "hidden" });
+      return;
+    }
+    setReveal({ status: "loading" });
+    try {
+      const response = await fetch(`/api/agents/email/${encodeURIComponent(activeKey)}/redactions`);
+      const data = await response.json();
+      if (!response.ok) {
+        setReveal({ status: "error", message: data.error ?? "Unable to load the redacted values." });
+        return;
+      }
+      setReveal({ status: "revealed", draft: data.draft, redactions: data.redactions });
+    } catch (error) {
+      setReveal({ status: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#151b2f] via-[#141a2c] to-[#101522] p-6 text-sm text-zinc-100 shadow-lg">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div className="space-y-2">
+          <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-[#ef233c]">
+            <CheckCircle2 className="h-4 w-4" /> Email deliverable
+          </span>
+          <h2 className="text-lg font-semibold text-white">{draft.subject}</h2>
+          <p className="text-xs text-zinc-500">
+            Run {current?.runId || record.runId} • Cache key {activeKey.slice(0, 10)}
+            {history && history.revisions.length > 1 && current && (
+              <> • Revision {history.revisions.indexOf(current) + 1} of {history.revisions.length}</>
+            )}
+          </p>
+        </div>
+        <div>{renderCopyButton(`${messageId}-subject-${index}`, draft.subject, "md")}</div>
+      </div>
+
+      {record.identicalToExisting && (
+        <div className="mt-4 flex items-center gap-2 rounded-2xl border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+          <CheckCircle2 className="h-3.5 w-3.5" /> Served from cache for this intent.
+        </div>
+      )}
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <div className="space-y-4">
+          <section className="rounded-2xl border border-white/10 bg-[#0e1320]/80 p-4">
+            <header className="mb-2 flex items-center justify-between">
+              <span className="text-xs uppercase tracking-[0.25em] text-zinc-500">Primary draft</span>
+              {renderCopyButton(`${messageId}-primary-${index}`, draft.body)}
+            </header>
+            <pre className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-100">{draft.body}</pre>
+          </section>
+
+          {variants.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Variants ({variants.length})</h3>
+              {variants.map((variant, variantIndex) => (
+                <article
+                  key={variant.label}
+                  className="rounded-2xl border border-white/10 bg-[#0f1524]/70 p-4"
+                >
+                  <header className="mb-2 flex items-center justify-between">
+                    <span className="text-sm font-semibold text-white">{variant.label}</span>
+                    {renderCopyButton(
+                      `${messageId}-variant-${index}-${variantIndex}`,
+                      variant.body,
+                    )}
+                  </header>
+                  <pre className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-200">{variant.body}</pre>
+                </article>
+              ))}
+            </section>
+          )}
+        </div>
+
+        <aside className="space-y-4">
+          {placeholders.length > 0 && (
+            <section className="rounded-2xl border border-amber-400/30 bg-amber-400/5 p-4">
+              <header className="flex items-center justify-between gap-2">
+                <h4 className="inline-flex items-center gap-2 text-xs uppercase tracking-[0.25em] text-amber-200">
+                  <ShieldAlert className="h-3.5 w-3.5" /> Redacted
+                </h4>
+                <button
+                  type="button"
+                  onClick={toggleReveal}
+                  disabled={reveal.status === "loading"}
+                  className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 text-[11px] text-zinc-300 transition hover:border-amber-300/40 disabled:opacity-60"
+                >
+                  {reveal.status === "revealed" ? (
+                    <>
+                      <EyeOff className="h-3 w-3" /> Hide originals
+                    </>
+                  ) : reveal.status === "loading" ? (
+                    "Loading…"
+                  ) : (
+                    "Reveal originals"
+                  )}
+                </button>
+              </header>
+              <p className="mt-2 text-xs text-zinc-500">
+                These values were masked before the request reached the model. Revealing them only changes this view.
+              </p>
+              <ul className="mt-3 space-y-2 text-xs">
+                {placeholders.map(({ placeholder, label }) => {
+                  const original =
+                    reveal.status === "revealed"
+                      ? reveal.redactions.find((entry) => entry.placeholder === placeholder)?.original
+                      : undefined;
+                  return (
+                    <li key={placeholder} className="flex items-center justify-between gap-2 rounded-xl bg-white/5 px-3 py-2">
+                      <code className="text-amber-200">{placeholder}</code>
+                      <span className="text-right text-zinc-400">{original ?? label}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {reveal.status === "error" && <p className="mt-2 text-xs text-red-300">{reveal.message}</p>}
+            </section>
+          )}
+
+          <section className="rounded-2xl border border-white/10 bg-[#0d121f]/80 p-4">
+            <h4 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Export</h4>
+            <div className="mt-3 space-y-2">
+              <select
+                value={exportVariant}
+                onChange={(event) => setExportVariant(Number(event.target.value))}
+                aria-label="Draft to export"
+                className="w-full rounded-lg border border-white/10 bg-[#0f1322] px-2 py-1.5 text-xs text-zinc-200 focus:border-[#ef233c]/60 focus:outline-none"
+              >
+                <option value={0}>Primary draft</option>
+                {variants.map((variant, variantIndex) => (
+                  <option key={variant.label} value={variantIndex + 1}>
+                    {variant.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex flex-wrap gap-2">
+                <a
+                  href={exportUrl("eml")}
+                  download
+                  className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 text-[11px] text-zinc-300 transition hover:border-[#ef233c]/60 hover:text-white"
+                >
+                  <Download className="h-3 w-3" /> Download .eml
+                </a>
+                <button
+                  type="button"
+                  onClick={openMailto}
+                  className="inline-flex items-center gap-1 rounded-full border border-white/10 px-3 py-1 text-[11px] text-zinc-300 transition hover:border-[#ef233c]/60 hover:text-white"
+                >
+                  <Mail className="h-3 w-3" /> Open in mail client
+                </button>
+              </div>
+              {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+            </div>
+          </section>
+
+          <section className="rounded-2xl border border-white/10 bg-[#0d121f]/80 p-4">
+            <h4 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Context summary</h4>
+            <dl className="mt-3 space-y-2 text-sm text-zinc-300">
+              {metadata.recipient && (
+                <div className="flex justify-between gap-2">
+                  <dt className="text-zinc-500">Recipient</dt>
+                  <dd className="text-right text-zinc-200">{metadata.recipient}</dd>
+                </div>
+              )}
+              {metadata.tone && (
+                <div className="flex justify-between gap-2">
+                  <dt className="text-zinc-500">Tone</dt>
+                  <dd className="text-right text-zinc-200">{metadata.tone}</dd>
+                </div>
+              )}
+              {metadata.additionalContext && (
+                <div className="flex flex-col gap-1">
+                  <dt className="text-zinc-500">Additional notes</dt>
+                  <dd className="rounded-xl border border-white/5 bg-white/5 p-3 text-xs text-zinc-300">
+                    {metadata.additionalContext}
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </section>
+
+          {keyPoints.length > 0 && (
+            <section className="rounded-2xl border border-white/10 bg-[#0d131f]/80 p-4">
+              <h4 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Key points</h4>
+              <ul className="mt-3 space-y-2 text-sm text-zinc-300">
+                {keyPoints.map((point, pointIndex) => (
+                  <li
+                    key={`${activeKey}-point-${pointIndex}`}
+                    className="rounded-xl border border-white/5 bg-white/5 px-3 py-2 text-xs text-zinc-200"
+                  >
+                    {point}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </div>
+
+      {history && history.revisions.length > 1 && (
+        <EmailDraftHistoryPanel
+          key={history.currentKey}
+          history={history}
+          restoring={restoring}
+          error={historyError}
+          onRestore={restore}
+        />
+      )}
+    </section>
+  );
+}
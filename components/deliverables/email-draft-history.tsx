@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import type { EmailDraft, EmailDraftHistory, EmailDraftRevision } from "@/models/email";
+import { cn } from "@/utils/cn";
+import { diffWords } from "@/utils/word-diff";
+
+type EmailDraftHistoryPanelProps = {
+  history: EmailDraftHistory;
+  restoring: string | null;
+  error: string | null;
+  onRestore: (cacheKey: string) => void;
+};
+
+type DiffField = "subject" | "body" | `variant-${number}`;
+
+const fieldText = (draft: EmailDraft, field: DiffField) => {
+  if (field === "subject") return draft.subject;
+  if (field === "body") return draft.body;
+  return draft.variants[Number(field.slice("variant-".length))]?.body ?? "";
+};
+
+const describeRevision = (revision: EmailDraftRevision, position: number) =>
+  revision.parentKey ? `v${position} · ${revision.instruction ?? "Revision"}` : `v${position} · Original draft`;
+
+export function EmailDraftHistoryPanel({ history, restoring, error, onRestore }: EmailDraftHistoryPanelProps) {
+  const { revisions, currentKey } = history;
+  const current = revisions.find((revision) => revision.cacheKey === currentKey) ?? revisions[revisions.length - 1];
+  const [fromKey, setFromKey] = useState(current.parentKey ?? revisions[0].cacheKey);
+  const [toKey, setToKey] = useState(current.cacheKey);
+  const [field, setField] = useState<DiffField>("body");
+
+  const from = revisions.find((revision) => revision.cacheKey === fromKey) ?? revisions[0];
+  const to = revisions.find((revision) => revision.cacheKey === toKey) ?? current;
+  const variantCount = Math.max(from.deliverable.draft.variants.length, to.deliverable.draft.variants.length);
+  const segments = diffWords(fieldText(from.deliverable.draft, field), fieldText(to.deliverable.draft, field));
+
+  const revisionOptions = revisions.map((revision, position) => (
+    <option key={revision.cacheKey} value={revision.cacheKey}>
+      {describeRevision(revision, position + 1)}
+    </option>
+  ));
+  const selectClassName =
+    "min-w-0 rounded-lg border border-white/10 bg-[#0f1322] px-2 py-1 text-xs text-zinc-200 focus:border-[#ef233c]/60 focus:outline-none";
+
+  return (
+    <section className="mt-6 space-y-4 rounded-2xl border border-white/10 bg-[#0d121f]/80 p-4">
+      <h4 className="inline-flex items-center gap-2 text-xs uppercase tracking-[0.25em] text-zinc-500">
+        <History className="h-3.5 w-3.5" /> Revision history ({revisions.length})
+      </h4>
+
+      <ol className="space-y-2 text-xs">
+        {revisions.map((revision, position) => {
+          const isCurrent = revision.cacheKey === currentKey;
+          return (
+            <li
+              key={revision.cacheKey}
+              className="flex items-center justify-between gap-3 rounded-xl border border-white/5 bg-white/5 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-zinc-200">{describeRevision(revision, position + 1)}</p>
+                <p className="text-zinc-500">
+                  {new Date(revision.createdAt).toLocaleString()} · {revision.cacheKey.slice(0, 10)}
+                </p>
+              </div>
+              {isCurrent ? (
+                <span className="shrink-0 rounded-full border border-emerald-400/40 px-2 py-0.5 text-[11px] text-emerald-300">
+                  Current
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onRestore(revision.cacheKey)}
+                  disabled={restoring !== null}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-full border border-white/10 px-3 py-1 text-[11px] text-zinc-300 transition hover:border-[#ef233c]/60 hover:text-white disabled:opacity-60"
+                >
+                  <RotateCcw className="h-3 w-3" /> {restoring === revision.cacheKey ? "Restoring…" : "Restore"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+          <span>Compare</span>
+          <select value={from.cacheKey} onChange={(event) => setFromKey(event.target.value)} className={selectClassName}>
+            {revisionOptions}
+          </select>
+          <span>with</span>
+          <select value={to.cacheKey} onChange={(event) => setToKey(event.target.value)} className={selectClassName}>
+            {revisionOptions}
+          </select>
+          <select value={field} onChange={(event) => setField(event.target.value as DiffField)} className={selectClassName}>
+            <option value="subject">Subject</option>
+            <option value="body">Primary draft</option>
+            {Array.from({ length: variantCount }, (_, variantIndex) => (
+              <option key={variantIndex} value={`variant-${variantIndex}`}>
+                Variant {variantIndex + 1}
+              </option>
+            ))}
+          </select>
+        </div>
+        <pre className="whitespace-pre-wrap rounded-xl border border-white/5 bg-[#0e1320]/80 p-3 text-sm leading-relaxed text-zinc-200">
+          {segments.map((segment, segmentIndex) => (
+            <span
+              key={segmentIndex}
+              className={cn(
+                segment.type === "added" && "rounded bg-emerald-500/20 text-emerald-200",
+                segment.type === "removed" && "rounded bg-[#ef233c]/20 text-red-300 line-through",
+              )}
+            >
+              {segment.text}
+            </span>
+          ))}
+        </pre>
+      </div>
+    </section>
+  );
+}
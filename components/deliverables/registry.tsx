@@ -0,0 +1,51 @@
+"use client";
+
+import type { ComponentType, ReactNode } from "react";
+import { FileText } from "lucide-react";
+import { EmailDraftCard } from "@/components/deliverables/email-draft-card";
+import { ResearchBriefCard } from "@/components/deliverables/research-brief-card";
+import type { DeliverablePayload, DeliverableRecord } from "@/models/deliverable";
+
+export type CopyButtonRenderer = (id: string, content: string, size?: "sm" | "md") => ReactNode;
+
+export type DeliverableRendererProps<T extends DeliverablePayload = DeliverablePayload> = {
+  messageId: string;
+  index: number;
+  record: DeliverableRecord<T>;
+  renderCopyButton: CopyButtonRenderer;
+};
+
+type DeliverableRenderer = ComponentType<DeliverableRendererProps<any>>;
+
+// Keyed by deliverable `type`; mirrors the server-side kind registry.
+const renderers = new Map<string, DeliverableRenderer>([
+  ["email-draft", EmailDraftCard],
+  ["research-brief", ResearchBriefCard],
+]);
+
+export const registerDeliverableRenderer = <T extends DeliverablePayload>(
+  type: T["type"],
+  renderer: ComponentType<DeliverableRendererProps<T>>,
+) => {
+  renderers.set(type, renderer as DeliverableRenderer);
+};
+
+export function DeliverableCard(props: DeliverableRendererProps) {
+  const Renderer = renderers.get(props.record.deliverable.type);
+  if (Renderer) {
+    return <Renderer {...props} />;
+  }
+
+  const json = JSON.stringify(props.record.deliverable, null, 2);
+  return (
+    <section className="rounded-3xl border border-white/10 bg-[#101522]/90 p-6 text-sm text-zinc-100 shadow-lg">
+      <header className="flex items-center justify-between gap-3">
+        <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-[#ef233c]">
+          <FileText className="h-4 w-4" /> {props.record.deliverable.type}
+        </span>
+        {props.renderCopyButton(`${props.messageId}-deliverable-${props.index}`, json)}
+      </header>
+      <pre className="mt-4 max-h-80 overflow-auto whitespace-pre-wrap text-xs text-zinc-300">{json}</pre>
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { CheckCircle2, ExternalLink } from "lucide-react";
+import type { DeliverableRendererProps } from "@/components/deliverables/registry";
+import type { ResearchBriefDeliverable } from "@/models/research";
+
+export function ResearchBriefCard({
+  messageId,
+  index,
+  record,
+  renderCopyButton,
+}: DeliverableRendererProps<ResearchBriefDeliverable>) {
+  const { brief, metadata } = record.deliverable;
+  const labelByUrl = new Map(brief.citations.map((citation) => [citation.url, citation.label]));
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#151b2f] via-[#141a2c] to-[#101522] p-6 text-sm text-zinc-100 shadow-lg">
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+        <div className="space-y-2">
+          <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.3em] text-[#ef233c]">
+            <CheckCircle2 className="h-4 w-4" /> Research brief
+          </span>
+          <h2 className="text-lg font-semibold text-white">{brief.title}</h2>
+          <p className="text-xs text-zinc-500">
+            {metadata.question} • Run {record.runId}
+          </p>
+        </div>
+        <div>{renderCopyButton(`${messageId}-research-${index}`, brief.summary, "md")}</div>
+      </div>
+
+      <p className="mt-4 whitespace-pre-wrap leading-relaxed text-zinc-200">{brief.summary}</p>
+
+      <section className="mt-5 space-y-3">
+        <h3 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Key findings ({brief.keyFindings.length})</h3>
+        {brief.keyFindings.map((finding, findingIndex) => (
+          <article key={`${record.cacheKey}-finding-${findingIndex}`} className="rounded-2xl border border-white/10 bg-[#0f1524]/70 p-4">
+            <p className="text-sm text-zinc-100">{finding.finding}</p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {finding.citations.map((url) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 rounded-full border border-white/10 px-2.5 py-1 text-[11px] text-zinc-300 transition hover:border-white/30"
+                >
+                  {labelByUrl.get(url) ?? new URL(url).hostname}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ))}
+            </div>
+          </article>
+        ))}
+      </section>
+
+      {brief.openQuestions && brief.openQuestions.length > 0 && (
+        <section className="mt-5">
+          <h3 className="text-xs uppercase tracking-[0.25em] text-zinc-500">Open questions</h3>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-zinc-300">
+            {brief.openQuestions.map((question) => (
+              <li key={question}>{question}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </section>
+  );
+}
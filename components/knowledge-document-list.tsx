@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileText, Loader2, Trash2 } from "lucide-react";
+import type { KnowledgeDocumentSummary } from "@/models/knowledge";
+
+type KnowledgeDocumentListProps = {
+  documents: KnowledgeDocumentSummary[];
+};
+
+const formatCharacters = (characters: number) =>
+  characters >= 1000 ? `${(characters / 1000).toFixed(1)}k chars` : `${characters} chars`;
+
+export function KnowledgeDocumentList({ documents }: KnowledgeDocumentListProps) {
+  const router = useRouter();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (documentId: string) => {
+    setDeletingId(documentId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/uploads/${encodeURIComponent(documentId)}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(`Delete failed (${response.status})`);
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
+      <header className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-[#ef233c]">Knowledge Store</p>
+          <p className="text-sm text-zinc-400">
+            {documents.length} document{documents.length === 1 ? "" : "s"} indexed for retrieval.
+          </p>
+        </div>
+        {error && <span className="text-xs text-[#ef233c]">{error}</span>}
+      </header>
+      {documents.length === 0 ? (
+        <p className="text-sm text-zinc-500">No documents uploaded yet.</p>
+      ) : (
+        <ul className="divide-y divide-white/5">
+          {documents.map((document) => (
+            <li key={document.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="flex min-w-0 items-start gap-3">
+                <FileText className="mt-0.5 h-4 w-4 shrink-0 text-zinc-500" />
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-zinc-200">{document.name}</p>
+                  <p className="text-xs text-zinc-500">
+                    {document.chunkCount} chunks · {formatCharacters(document.characters)} · {document.mimeType}
+                    {document.embedded ? " · embedded" : ""} · {new Date(document.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(document.id)}
+                disabled={deletingId === document.id}
+                aria-label={`Delete ${document.name}`}
+                className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-white/10 text-zinc-400 transition hover:border-[#ef233c]/60 hover:text-[#ef233c] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#ef233c]"
+              >
+                {deletingId === document.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,15 +1,122 @@
 ﻿"use client";
 
-import { useState } from "react";
-import { Loader2, UploadCloud } from "lucide-react";
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileUp, Loader2, UploadCloud } from "lucide-react";
+import { SUPPORTED_UPLOAD_EXTENSIONS, findKnowledgeFileFormat } from "@/models/knowledge";
+import { cn } from "@/utils/cn";
+
+type FileUploadStatus = "queued" | "uploading" | "indexing" | "done" | "error";
+
+type FileUploadItem = {
+  id: string;
+  name: string;
+  status: FileUploadStatus;
+  progress: number;
+  message?: string;
+};
+
+type FileUploadResponse = {
+  files?: Array<{ fileName: string; ok: boolean; chunkCount?: number; duplicate?: boolean; error?: string }>;
+  error?: string;
+};
+
+// XHR rather than fetch so the upload body reports progress per file.
+const uploadFile = (file: File, onProgress: (progress: number) => void) =>
+  new Promise<FileUploadResponse>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    const body = new FormData();
+    body.append("files", file);
+
+    request.open("POST", "/api/uploads");
+    request.responseType = "json";
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    request.onload = () => resolve((request.response ?? { error: `Upload failed (${request.status})` }) as FileUploadResponse);
+    request.onerror = () => reject(new Error("Network error"));
+    request.send(body);
+  });
+
+const summarizeUploads = (items: FileUploadItem[]) => {
+  const active = items.find((item) => item.status === "uploading" || item.status === "indexing");
+  const done = items.filter((item) => item.status === "done").length;
+  const failed = items.filter((item) => item.status === "error");
+
+  const parts = [
+    active ? `${active.status === "uploading" ? "Uploading" : "Indexing"} ${active.name} (${active.progress}%)` : null,
+    `${done}/${items.length} files indexed`,
+    failed.length ? `${failed.length} failed: ${failed.map((item) => `${item.name} (${item.message})`).join(", ")}` : null,
+  ];
+  return parts.filter(Boolean).join(" · ");
+};
 
 export function KnowledgeUploader() {
   const [status, setStatus] = useState<string>("Idle");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploads, setUploads] = useState<FileUploadItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+
+  const updateUpload = (id: string, patch: Partial<FileUploadItem>) => {
+    setUploads((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    const queued = files.map((file, index) => ({
+      id: `${Date.now()}-${index}-${file.name}`,
+      name: file.name,
+      status: "queued" as const,
+      progress: 0,
+    }));
+    setUploads(queued);
+    setIsSubmitting(true);
+
+    for (const [index, file] of files.entries()) {
+      const { id } = queued[index];
+      if (!findKnowledgeFileFormat(file.name, file.type)) {
+        updateUpload(id, { status: "error", progress: 100, message: "unsupported file type" });
+        continue;
+      }
+
+      updateUpload(id, { status: "uploading" });
+      try {
+        const response = await uploadFile(file, (progress) =>
+          updateUpload(id, progress < 100 ? { progress } : { status: "indexing", progress: 100 }),
+        );
+        const result = response.files?.[0];
+        if (!result?.ok) {
+          throw new Error(result?.error ?? response.error ?? "upload failed");
+        }
+        updateUpload(id, {
+          status: "done",
+          progress: 100,
+          message: result.duplicate ? "already indexed" : `${result.chunkCount ?? 0} chunks`,
+        });
+      } catch (error) {
+        updateUpload(id, { status: "error", progress: 100, message: error instanceof Error ? error.message : "upload failed" });
+      }
+    }
+
+    setIsSubmitting(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    router.refresh();
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!isSubmitting) void handleFiles(event.dataTransfer.files);
+  };
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    const formData = new FormData(event.currentTarget);
+    const form = event.currentTarget;
+    const formData = new FormData(form);
     const name = formData.get("name")?.toString().trim();
     const content = formData.get("content")?.toString().trim();
 
@@ -19,6 +126,7 @@ export function KnowledgeUploader() {
     }
 
     setIsSubmitting(true);
+    setUploads([]);
     setStatus("Uploading...");
 
     try {
@@ -28,13 +136,18 @@ export function KnowledgeUploader() {
         body: JSON.stringify({ name, content }),
       });
 
+      const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error(`Upload failed (${response.status})`);
+        throw new Error(data.error ?? `Upload failed (${response.status})`);
       }
 
-      const data = await response.json();
-      setStatus(`Uploaded successfully (documentId: ${data.documentId})`);
-      event.currentTarget.reset();
+      setStatus(
+        data.duplicate
+          ? `Already indexed as ${data.name} (documentId: ${data.documentId})`
+          : `Indexed ${data.document?.chunkCount ?? 0} chunks (documentId: ${data.documentId})`,
+      );
+      form.reset();
+      router.refresh();
     } catch (error) {
       setStatus(error instanceof Error ? error.message : "Upload failed");
     } finally {
@@ -48,6 +161,60 @@ export function KnowledgeUploader() {
         <label className="text-xs uppercase tracking-[0.3em] text-[#ef233c]">Knowledge Upload</label>
         <p className="text-sm text-zinc-400">Send a new document into the knowledge base.</p>
       </div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => fileInputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex cursor-pointer flex-col items-center gap-2 rounded-xl border border-dashed px-4 py-6 text-center text-sm transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#ef233c]",
+          isDragging ? "border-[#ef233c] bg-[#ef233c]/10 text-zinc-200" : "border-white/15 bg-[#101526] text-zinc-400",
+        )}
+      >
+        <FileUp className="h-5 w-5 text-[#ef233c]" />
+        <span>Drop files here or click to browse</span>
+        <span className="text-xs text-zinc-500">Markdown, HTML, PDF (text), CSV, JSON or plain text</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SUPPORTED_UPLOAD_EXTENSIONS.join(",")}
+          className="hidden"
+          onChange={(event) => void handleFiles(event.target.files)}
+          disabled={isSubmitting}
+        />
+      </div>
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map((item) => (
+            <li key={item.id} className="space-y-1 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <span className="truncate text-zinc-300">{item.name}</span>
+                <span className={cn("shrink-0", item.status === "error" ? "text-[#ef233c]" : "text-zinc-500")}>
+                  {item.status === "error" ? item.message : item.status === "done" ? item.message : item.status}
+                </span>
+              </div>
+              <div className="h-1 overflow-hidden rounded-full bg-white/10">
+                <div
+                  className={cn("h-full transition-all", item.status === "error" ? "bg-[#ef233c]/60" : "bg-[#ef233c]")}
+                  style={{ width: `${item.progress}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="space-y-2">
         <label htmlFor="name" className="text-xs uppercase text-zinc-500">Name</label>
         <input
@@ -70,8 +237,8 @@ export function KnowledgeUploader() {
           required
         />
       </div>
-      <div className="flex items-center justify-between text-xs text-zinc-500">
-        <span>{status}</span>
+      <div className="flex items-center justify-between gap-3 text-xs text-zinc-500">
+        <span>{uploads.length > 0 ? summarizeUploads(uploads) : status}</span>
         <button
           type="submit"
           className="inline-flex items-center gap-2 rounded-full bg-[#ef233c] px-4 py-2 text-sm font-medium text-white transition hover:bg-[#d90429] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#ef233c]"
@@ -83,4 +250,4 @@ export function KnowledgeUploader() {
       </div>
     </form>
   );
-}
+}
@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Archive, Gauge, GitBranch, Home, LayoutGrid, Settings } from "lucide-react";
+import { Archive, ClipboardCheck, Gauge, GitBranch, Home, LayoutGrid, Settings } from "lucide-react";
 import { useUIStore } from "@/store/ui";
 import type { NavigationItem } from "@/types/ui";
 import { cn } from "@/utils/cn";
@@ -12,6 +12,7 @@ const NAV_ITEMS: NavigationItem[] = [
   { label: "Dashboard", href: "/dashboard", icon: Gauge },
   { label: "Workflows", href: "/workflows", icon: GitBranch },
   { label: "Knowledge", href: "/knowledge", icon: Archive },
+  { label: "Approvals", href: "/approvals", icon: ClipboardCheck },
   { label: "Settings", href: "/settings", icon: Settings },
 ];
 
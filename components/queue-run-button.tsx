@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, PlayCircle } from "lucide-react";
+import { useUIStore } from "@/store/ui";
+
+type QueueRunButtonProps = {
+  workflowId: string;
+};
+
+export function QueueRunButton({ workflowId }: QueueRunButtonProps) {
+  const setFocusedRun = useUIStore((state) => state.setFocusedRun);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsQueueing(true);
+    setStatus(null);
+
+    try {
+      const response = await fetch(`/api/workflows/${encodeURIComponent(workflowId)}/runs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Queue failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      setFocusedRun(data.runId);
+      setStatus("Run queued - follow it in the activity feed.");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Queue failed");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isQueueing}
+        className="inline-flex items-center gap-2 self-start rounded-full border border-[#ef233c]/50 px-4 py-2 text-sm text-[#ef233c] transition hover:border-[#ef233c] hover:bg-[#ef233c]/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#ef233c]"
+      >
+        {isQueueing ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle className="h-4 w-4" />}
+        Queue Run
+      </button>
+      {status && <span className="text-xs text-zinc-500">{status}</span>}
+    </div>
+  );
+}
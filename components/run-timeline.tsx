@@ -0,0 +1,90 @@
+import type { RunSpan, RunSpanKind } from "@/models/activity";
+import { cn } from "@/utils/cn";
+
+const KIND_LABELS: Record<RunSpanKind, string> = {
+  agent: "Agent",
+  tool: "Tool",
+  handoff: "Handoff",
+  guardrail: "Guardrail",
+  fallback: "Fallback",
+  approval: "Approval",
+  delivery: "Delivery",
+  step: "Step",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  running: "bg-amber-500/70",
+  done: "bg-emerald-500/70",
+  error: "bg-red-500/80",
+  queued: "bg-slate-500/60",
+};
+
+type SpanNode = RunSpan & { children: SpanNode[] };
+
+const buildTree = (spans: RunSpan[]) => {
+  const nodes = new Map<string, SpanNode>(spans.map((span) => [span.id, { ...span, children: [] }] as const));
+  const roots: SpanNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
+export const formatDuration = (durationMs?: number) => {
+  if (durationMs == null) return "in progress";
+  if (durationMs < 1000) return `${durationMs}ms`;
+  return `${(durationMs / 1000).toFixed(1)}s`;
+};
+
+type RunTimelineProps = {
+  spans: RunSpan[];
+  className?: string;
+};
+
+export function RunTimeline({ spans, className }: RunTimelineProps) {
+  if (spans.length === 0) {
+    return <p className="text-xs text-zinc-500">No timeline recorded for this run.</p>;
+  }
+
+  return <SpanList nodes={buildTree(spans)} depth={0} className={className} />;
+}
+
+function SpanList({ nodes, depth, className }: { nodes: SpanNode[]; depth: number; className?: string }) {
+  return (
+    <ul className={cn("space-y-2", depth > 0 && "mt-2 border-l border-white/10 pl-3", className)}>
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <div className="rounded-lg border border-white/10 bg-[#161a2a] p-3 text-sm text-zinc-300">
+            <div className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+              <span className="uppercase tracking-widest">{KIND_LABELS[node.kind] ?? node.kind}</span>
+              <span className="flex items-center gap-2">
+                <span>{formatDuration(node.durationMs)}</span>
+                <span
+                  className={cn(
+                    "rounded-full px-2 py-0.5 text-[11px] uppercase text-white",
+                    STATUS_COLORS[node.status] ?? STATUS_COLORS.running,
+                  )}
+                >
+                  {node.status}
+                </span>
+              </span>
+            </div>
+            <p className="mt-1 font-medium text-zinc-100">{node.name}</p>
+            {node.message && <p className="mt-1 text-xs text-zinc-400">{node.message}</p>}
+            {node.status === "running" && (
+              <div className="mt-2 h-1 w-full overflow-hidden rounded bg-white/10">
+                <div className="h-full bg-[#ef233c]" style={{ width: `${node.progress}%` }} />
+              </div>
+            )}
+          </div>
+          {node.children.length > 0 && <SpanList nodes={node.children} depth={depth + 1} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,16 +1,92 @@
 ﻿"use client";
 
 import { useState } from "react";
+import {
+  GUARDRAIL_DETECTOR_IDS,
+  GUARDRAIL_DETECTOR_LABELS,
+  guardrailActionSchema,
+  type GuardrailAction,
+  type GuardrailDetectorId,
+} from "@/models/guardrails";
+import {
+  AGENT_IDS,
+  AGENT_LABELS,
+  MODEL_OPTIONS,
+  reasoningEffortSchema,
+  verbositySchema,
+  type AgentId,
+  type AgentRuntimeSettings,
+  type RuntimeSettings,
+} from "@/models/settings";
 
-const MODEL_OPTIONS = [
-  { id: "gpt-5-mini", label: "gpt-5-mini" },
-  { id: "gpt-5", label: "gpt-5" },
-  { id: "gpt-5-nano", label: "gpt-5-nano" },
+type ProviderStatus = { configured: true; name: string } | { configured: false; reason: string };
+
+type SettingsPanelProps = {
+  initialSettings: RuntimeSettings;
+  provider: ProviderStatus;
+};
+
+type SaveState = { status: "idle" | "saving" | "saved" } | { status: "error"; message: string };
+
+type GuardrailColumn = "email" | "chat" | "output";
+
+const GUARDRAIL_COLUMNS: Array<{ id: GuardrailColumn; label: string }> = [
+  { id: "email", label: "Email input" },
+  { id: "chat", label: "Chat input" },
+  { id: "output", label: "Deliverables" },
 ];
 
-export function SettingsPanel() {
-  const [model, setModel] = useState(MODEL_OPTIONS[0].id);
-  const [observabilityEnabled, setObservabilityEnabled] = useState(true);
+const selectClass =
+  "w-full rounded-lg border border-white/10 bg-[#0c101c] px-2 py-1.5 text-sm text-zinc-200 focus:border-[#ef233c] focus:outline-none";
+
+export function SettingsPanel({ initialSettings, provider }: SettingsPanelProps) {
+  const [settings, setSettings] = useState(initialSettings);
+  const [saveState, setSaveState] = useState<SaveState>({ status: "idle" });
+
+  const updateAgent = (agentId: AgentId, patch: Partial<AgentRuntimeSettings>) => {
+    setSettings((current) => ({
+      ...current,
+      agents: { ...current.agents, [agentId]: { ...current.agents[agentId], ...patch } },
+    }));
+    setSaveState({ status: "idle" });
+  };
+
+  const guardrailAction = (column: GuardrailColumn, detector: GuardrailDetectorId) =>
+    column === "output" ? settings.guardrails.output[detector] : settings.guardrails.input[column][detector];
+
+  const updateGuardrail = (column: GuardrailColumn, detector: GuardrailDetectorId, action: GuardrailAction) => {
+    setSettings((current) => {
+      const { input, output } = current.guardrails;
+      return {
+        ...current,
+        guardrails:
+          column === "output"
+            ? { input, output: { ...output, [detector]: action } }
+            : { input: { ...input, [column]: { ...input[column], [detector]: action } }, output },
+      };
+    });
+    setSaveState({ status: "idle" });
+  };
+
+  const save = async () => {
+    setSaveState({ status: "saving" });
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSaveState({ status: "error", message: data.error ?? "Failed to save settings." });
+        return;
+      }
+      setSettings(data.settings);
+      setSaveState({ status: "saved" });
+    } catch (error) {
+      setSaveState({ status: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
 
   return (
     <section className="space-y-6 rounded-2xl border border-white/10 bg-[#161a2a]/80 p-6">
@@ -19,52 +95,162 @@ export function SettingsPanel() {
         <p className="text-sm text-zinc-400">Configure SideKick defaults for orchestrated runs.</p>
       </div>
       <div className="space-y-4">
-        <fieldset className="space-y-3">
-          <legend className="text-xs uppercase text-zinc-500">Default model</legend>
-          <div className="grid gap-2 md:grid-cols-3">
-            {MODEL_OPTIONS.map((option) => (
-              <label
-                key={option.id}
-                className={`flex cursor-pointer items-center justify-between rounded-xl border px-3 py-2 text-sm transition ${
-                  model === option.id
-                    ? "border-[#ef233c] bg-[#ef233c]/10 text-zinc-100"
-                    : "border-white/10 bg-[#101526] text-zinc-400 hover:border-[#ef233c]/40"
-                }`}
-              >
-                <span>{option.label}</span>
-                <input
-                  type="radio"
-                  name="model"
-                  value={option.id}
-                  checked={model === option.id}
-                  onChange={() => setModel(option.id)}
-                  className="sr-only"
-                />
-              </label>
-            ))}
-          </div>
-        </fieldset>
+        {AGENT_IDS.map((agentId) => {
+          const agent = settings.agents[agentId];
+          return (
+            <fieldset key={agentId} className="space-y-3 rounded-xl border border-white/10 bg-[#101526] p-4">
+              <legend className="px-1 text-xs uppercase text-zinc-500">{AGENT_LABELS[agentId]}</legend>
+              <div className="grid gap-2 md:grid-cols-3">
+                {MODEL_OPTIONS.map((option) => (
+                  <label
+                    key={option}
+                    className={`flex cursor-pointer items-center justify-between rounded-xl border px-3 py-2 text-sm transition ${
+                      agent.model === option
+                        ? "border-[#ef233c] bg-[#ef233c]/10 text-zinc-100"
+                        : "border-white/10 bg-[#0c101c] text-zinc-400 hover:border-[#ef233c]/40"
+                    }`}
+                  >
+                    <span>{option}</span>
+                    <input
+                      type="radio"
+                      name={`${agentId}-model`}
+                      value={option}
+                      checked={agent.model === option}
+                      onChange={() => updateAgent(agentId, { model: option })}
+                      className="sr-only"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="grid gap-3 text-xs text-zinc-500 md:grid-cols-3">
+                <label className="space-y-1">
+                  <span>Model name</span>
+                  <input
+                    value={agent.model}
+                    onChange={(event) => updateAgent(agentId, { model: event.target.value })}
+                    className={selectClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span>Reasoning effort</span>
+                  <select
+                    value={agent.reasoningEffort}
+                    onChange={(event) =>
+                      updateAgent(agentId, { reasoningEffort: reasoningEffortSchema.parse(event.target.value) })
+                    }
+                    className={selectClass}
+                  >
+                    {reasoningEffortSchema.options.map((effort) => (
+                      <option key={effort} value={effort}>
+                        {effort}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span>Verbosity</span>
+                  <select
+                    value={agent.verbosity}
+                    onChange={(event) => updateAgent(agentId, { verbosity: verbositySchema.parse(event.target.value) })}
+                    className={selectClass}
+                  >
+                    {verbositySchema.options.map((verbosity) => (
+                      <option key={verbosity} value={verbosity}>
+                        {verbosity}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </fieldset>
+          );
+        })}
         <label className="flex items-center justify-between rounded-xl border border-white/10 bg-[#101526] px-3 py-2 text-sm text-zinc-200">
-          <span>Observability collection</span>
+          <span>
+            Observability collection
+            <span className="block text-xs text-zinc-500">Export Agents SDK traces to the OpenAI dashboard.</span>
+          </span>
           <button
             type="button"
             className={`relative inline-flex h-6 w-11 items-center rounded-full transition ${
-              observabilityEnabled ? "bg-[#ef233c]" : "bg-zinc-700"
+              settings.tracingEnabled ? "bg-[#ef233c]" : "bg-zinc-700"
             }`}
-            aria-pressed={observabilityEnabled}
-            onClick={() => setObservabilityEnabled((value) => !value)}
+            aria-pressed={settings.tracingEnabled}
+            onClick={() => {
+              setSettings((current) => ({ ...current, tracingEnabled: !current.tracingEnabled }));
+              setSaveState({ status: "idle" });
+            }}
           >
             <span
               className={`inline-block h-5 w-5 rounded-full bg-white transition ${
-                observabilityEnabled ? "translate-x-5" : "translate-x-1"
+                settings.tracingEnabled ? "translate-x-5" : "translate-x-1"
               }`}
             />
           </button>
         </label>
+        <fieldset className="space-y-3 rounded-xl border border-white/10 bg-[#101526] p-4">
+          <legend className="px-1 text-xs uppercase text-zinc-500">Guardrails</legend>
+          <p className="text-xs text-zinc-500">
+            Choose what happens when a detector matches an operator request or a generated deliverable.
+          </p>
+          <table className="w-full text-left text-xs text-zinc-400">
+            <thead>
+              <tr>
+                <th className="py-1 font-medium">Detector</th>
+                {GUARDRAIL_COLUMNS.map((column) => (
+                  <th key={column.id} className="py-1 font-medium">
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {GUARDRAIL_DETECTOR_IDS.map((detector) => (
+                <tr key={detector}>
+                  <td className="py-1 pr-3 text-zinc-200">{GUARDRAIL_DETECTOR_LABELS[detector]}</td>
+                  {GUARDRAIL_COLUMNS.map((column) => (
+                    <td key={column.id} className="py-1 pr-2">
+                      <select
+                        aria-label={`${GUARDRAIL_DETECTOR_LABELS[detector]} (${column.label})`}
+                        value={guardrailAction(column.id, detector)}
+                        onChange={(event) =>
+                          updateGuardrail(column.id, detector, guardrailActionSchema.parse(event.target.value))
+                        }
+                        className={selectClass}
+                      >
+                        {guardrailActionSchema.options.map((action) => (
+                          <option key={action} value={action}>
+                            {action}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </fieldset>
       </div>
-      <div className="rounded-xl border border-dashed border-white/15 bg-white/5 px-4 py-3 text-xs text-zinc-500">
-        Changes are local mocks only – wire to platform APIs before releasing.
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-zinc-500">
+          {provider.configured
+            ? `Model provider: ${provider.name}`
+            : `Model provider unavailable: ${provider.reason}`}
+        </p>
+        <div className="flex items-center gap-3 text-xs">
+          {saveState.status === "saved" && <span className="text-emerald-300">Settings saved</span>}
+          {saveState.status === "error" && <span className="text-red-300">{saveState.message}</span>}
+          <button
+            type="button"
+            onClick={save}
+            disabled={saveState.status === "saving"}
+            className="rounded-full bg-[#ef233c] px-4 py-2 font-semibold text-white transition hover:bg-[#d90429] disabled:opacity-60"
+          >
+            {saveState.status === "saving" ? "Saving…" : "Save settings"}
+          </button>
+        </div>
       </div>
     </section>
   );
-}
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { Check, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { ThreadSummary } from "@/models/thread";
+import { cn } from "@/utils/cn";
+
+type ThreadSidebarProps = {
+  threads: ThreadSummary[];
+  activeThreadId?: string;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => Promise<void>;
+  onDelete: (threadId: string) => Promise<void>;
+};
+
+export function ThreadSidebar({ threads, activeThreadId, onNew, onRename, onDelete }: ThreadSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (threadId: string, action: () => Promise<void>) => {
+    setPendingId(threadId);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Thread update failed");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const startEditing = (thread: ThreadSummary) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const submitRename = (event: FormEvent<HTMLFormElement>, threadId: string) => {
+    event.preventDefault();
+    const title = draftTitle.trim();
+    if (!title) return;
+    setEditingId(null);
+    void run(threadId, () => onRename(threadId, title));
+  };
+
+  return (
+    <aside className="flex w-60 shrink-0 flex-col gap-3 rounded-[28px] border border-white/10 bg-[#0f1321]/90 p-4">
+      <header className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-[0.3em] text-[#ef233c]">Threads</span>
+        <button
+          type="button"
+          onClick={onNew}
+          aria-label="New conversation"
+          className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-white/10 text-zinc-300 transition hover:border-white/40 hover:text-white"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </header>
+      {error && <p className="text-xs text-[#ef233c]">{error}</p>}
+      {threads.length === 0 ? (
+        <p className="text-xs text-zinc-500">No conversations yet.</p>
+      ) : (
+        <ul className="flex-1 space-y-1 overflow-y-auto">
+          {threads.map((thread) => {
+            const active = thread.id === activeThreadId;
+            const busy = pendingId === thread.id;
+
+            if (editingId === thread.id) {
+              return (
+                <li key={thread.id}>
+                  <form onSubmit={(event) => submitRename(event, thread.id)} className="flex items-center gap-1">
+                    <input
+                      value={draftTitle}
+                      onChange={(event) => setDraftTitle(event.currentTarget.value)}
+                      maxLength={120}
+                      autoFocus
+                      aria-label="Thread title"
+                      className="min-w-0 flex-1 rounded-lg border border-white/10 bg-[#11172a] px-2 py-1.5 text-xs text-zinc-100 focus:outline-none"
+                    />
+                    <button type="submit" aria-label="Save title" className="p-1 text-zinc-400 hover:text-white">
+                      <Check className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Cancel rename"
+                      onClick={() => setEditingId(null)}
+                      className="p-1 text-zinc-400 hover:text-white"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </form>
+                </li>
+              );
+            }
+
+            return (
+              <li
+                key={thread.id}
+                className={cn(
+                  "group flex items-center gap-1 rounded-lg pr-1 transition-colors",
+                  active ? "bg-[#2b2d42]/70" : "hover:bg-[#2b2d42]/40",
+                )}
+              >
+                <Link
+                  href={`/threads/${encodeURIComponent(thread.id)}`}
+                  className="flex min-w-0 flex-1 items-start gap-2 px-2 py-2"
+                >
+                  <MessageSquare className="mt-0.5 h-3.5 w-3.5 shrink-0 text-zinc-500" />
+                  <span className="min-w-0">
+                    <span className={cn("block truncate text-xs", active ? "text-zinc-100" : "text-zinc-300")}>
+                      {thread.title}
+                    </span>
+                    <span className="block text-[11px] text-zinc-500">
+                      {new Date(thread.updatedAt).toLocaleString()}
+                    </span>
+                  </span>
+                </Link>
+                {busy ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin text-zinc-500" />
+                ) : (
+                  <span className="flex opacity-0 transition group-hover:opacity-100 group-focus-within:opacity-100">
+                    <button
+                      type="button"
+                      aria-label={`Rename ${thread.title}`}
+                      onClick={() => startEditing(thread)}
+                      className="p-1 text-zinc-500 hover:text-white"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Delete ${thread.title}`}
+                      onClick={() => void run(thread.id, () => onDelete(thread.id))}
+                      className="p-1 text-zinc-500 hover:text-[#ef233c]"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
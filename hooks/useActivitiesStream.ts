@@ -3,32 +3,54 @@
 import { useEffect } from "react";
 import { useRunsStore } from "@/store/runs";
 
+const RECONNECT_DELAY_MS = 3000;
+
 export function useActivitiesStream(runId?: string) {
   const applyEvent = useRunsStore((state) => state.applyEvent);
   const lastEvent = useRunsStore((state) => state.lastEvent);
 
   useEffect(() => {
-    const search = runId ? `?runId=${encodeURIComponent(runId)}` : "";
-    const source = new EventSource(`/api/activities/stream${search}`);
-
-    source.onmessage = (event) => {
-      try {
-        const payload = JSON.parse(event.data);
-        applyEvent(payload);
-      } catch (error) {
-        console.error("Failed to parse activity event", error);
-      }
-    };
+    let source: EventSource | null = null;
+    let lastEventId: string | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = () => {
+      const params = new URLSearchParams();
+      if (runId) params.set("runId", runId);
+      if (lastEventId) params.set("lastEventId", lastEventId);
+      const search = params.toString() ? `?${params.toString()}` : "";
+      source = new EventSource(`/api/activities/stream${search}`);
 
-    source.onerror = (error) => {
-      console.error("Activity stream error", error);
-      source.close();
+      source.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventId = event.lastEventId;
+        }
+        try {
+          const payload = JSON.parse(event.data);
+          applyEvent(payload);
+        } catch (error) {
+          console.error("Failed to parse activity event", error);
+        }
+      };
+
+      source.onerror = () => {
+        // EventSource retries on its own (sending Last-Event-ID); only rebuild it once the browser gives up.
+        if (source?.readyState !== EventSource.CLOSED || disposed) return;
+        console.error("Activity stream closed; reconnecting");
+        source.close();
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
     };
 
+    connect();
+
     return () => {
-      source.close();
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
     };
   }, [applyEvent, runId]);
 
   return lastEvent;
-}
+}
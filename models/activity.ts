@@ -1,4 +1,22 @@
-﻿export type ActivityStatus = "queued" | "running" | "done" | "error";
+﻿import type { EmailDelivery } from "@/models/email";
+
+export type ActivityStatus = "queued" | "running" | "done" | "error";
+
+export type RunSpanKind = "agent" | "tool" | "handoff" | "guardrail" | "fallback" | "approval" | "delivery" | "step";
+
+export type RunSpan = {
+  id: string;
+  runId: string;
+  parentId?: string;
+  kind: RunSpanKind;
+  name: string;
+  status: ActivityStatus;
+  message?: string;
+  progress: number;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+};
 
 export type ActivityStepLog = {
   id: string;
@@ -6,6 +24,17 @@ export type ActivityStepLog = {
   status: ActivityStatus;
   message: string;
   timestamp: string;
+  spanId?: string;
+  parentSpanId?: string;
+  kind?: RunSpanKind;
+  progress?: number;
+  durationMs?: number;
+};
+
+/** Configuration an agent ran with, recorded the first time it builds its instructions in a run. */
+export type RunAgentDetails = {
+  model: string;
+  promptVersion: string;
 };
 
 export type ActivityRun = {
@@ -14,7 +43,14 @@ export type ActivityRun = {
   status: ActivityStatus;
   startedAt: string;
   completedAt?: string;
+  workflowId?: string;
+  threadId?: string;
   steps: ActivityStepLog[];
+  spans?: RunSpan[];
+  /** Keyed by agent id (`orchestrator`, `email`, `research`). */
+  agents?: Record<string, RunAgentDetails>;
+  /** Emails sent from deliverables this run produced. */
+  deliveries?: EmailDelivery[];
 };
 
 export type RunSummary = {
@@ -40,5 +76,6 @@ export type ActivityEvent =
       type: "step.logged";
       runId: string;
       step: ActivityStepLog;
+      span?: RunSpan;
       timestamp: string;
     };
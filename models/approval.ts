@@ -0,0 +1,63 @@
+import { z } from "zod";
+import type { DeliverablePayload } from "@/models/deliverable";
+
+export const APPROVAL_STATUSES = ["pending", "approved", "rejected", "changes_requested"] as const;
+
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "Pending review",
+  approved: "Approved",
+  rejected: "Rejected",
+  changes_requested: "Changes requested",
+};
+
+const reviewer = z.string().trim().min(1).max(100).optional();
+
+export const approvalDecisionSchema = z.discriminatedUnion("decision", [
+  z.object({ decision: z.literal("approve"), comment: z.string().trim().max(2000).optional(), reviewer }).strict(),
+  z
+    .object({
+      decision: z.literal("reject"),
+      comment: z.string().trim().min(1, "Explain why the deliverable is rejected.").max(2000),
+      reviewer,
+    })
+    .strict(),
+  z
+    .object({
+      decision: z.literal("request_changes"),
+      comment: z.string().trim().min(1, "Describe the changes you want.").max(2000),
+      reviewer,
+    })
+    .strict(),
+]);
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+export type ApprovalEvent = {
+  status: ApprovalStatus;
+  at: string;
+  reviewer?: string;
+  comment?: string;
+};
+
+/** Review state for one recorded deliverable, keyed by its cache key. */
+export type ApprovalRecord = {
+  cacheKey: string;
+  /** The specialist run that reported the deliverable; status transitions are recorded on it. */
+  runId: string;
+  status: ApprovalStatus;
+  /**
+   * Copied in so the approval stands on its own: the inbox renders without the deliverable store,
+   * and an approved draft can still be exported and sent if that store has been cleared.
+   */
+  deliverable: DeliverablePayload;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  history: ApprovalEvent[];
+  /** Set on a revision produced by requesting changes on an earlier deliverable. */
+  revisionOf?: string;
+  /** Set when requested changes produced a new deliverable that replaces this one. */
+  revisedBy?: string;
+};
@@ -0,0 +1,10 @@
+/** Every deliverable payload carries a `type` discriminator naming its registered kind. */
+export type DeliverablePayload = { type: string };
+
+/** A recorded deliverable, as returned by the store and streamed to the UI as a `data-deliverable` part. */
+export type DeliverableRecord<T extends DeliverablePayload = DeliverablePayload> = {
+  cacheKey: string;
+  runId: string;
+  identicalToExisting: boolean;
+  deliverable: T;
+};
@@ -34,8 +34,87 @@ export const emailDraftDeliverableSchema = z.object({
     .strict(),
 });
 
+export const emailRefinementRequestSchema = z
+  .object({
+    instruction: z.string().trim().min(3, "Describe how the draft should change.").max(2000),
+    /** 1-based index of the variant to change; omit to revise the whole draft. */
+    variant: z.number().int().min(1).max(4).optional(),
+  })
+  .strict();
+
+export const emailAddressSchema = z.string().trim().email("Use a valid email address.");
+
+export const EMAIL_EXPORT_FORMATS = ["eml", "mailto"] as const;
+
+export const emailExportOptionsSchema = z
+  .object({
+    format: z.enum(EMAIL_EXPORT_FORMATS).default("eml"),
+    /** 1-based index of the variant to export; omit for the primary draft. */
+    variant: z.coerce.number().int().min(1).max(4).optional(),
+    to: z.array(emailAddressSchema).max(50).default([]),
+  })
+  .strict();
+
+const emailAddressListSchema = z.array(emailAddressSchema).max(50);
+
+export const emailSendRequestSchema = z
+  .object({
+    to: emailAddressListSchema.min(1, "Add at least one To address."),
+    cc: emailAddressListSchema.default([]),
+    bcc: emailAddressListSchema.default([]),
+    /** 1-based index of the variant to send; omit for the primary draft. */
+    variant: z.number().int().min(1).max(4).optional(),
+  })
+  .strict();
+
+export const EMAIL_DELIVERY_STATUSES = ["sent", "partial", "failed"] as const;
+
+export type EmailDeliveryStatus = (typeof EMAIL_DELIVERY_STATUSES)[number];
+
 export type EmailDraftVariant = z.infer<typeof emailDraftVariantSchema>;
 export type EmailDraft = z.infer<typeof emailDraftSchema>;
 export type EmailDraftAgentInput = z.infer<typeof emailDraftAgentInputSchema>;
-export type EmailDraftDeliverable = z.infer<typeof emailDraftDeliverableSchema>;
+export type EmailDraftDeliverable = z.infer<typeof emailDraftDeliverableSchema>;
+export type EmailRefinementRequest = z.infer<typeof emailRefinementRequestSchema>;
+export type EmailExportOptions = z.infer<typeof emailExportOptionsSchema>;
+export type EmailSendRequest = z.infer<typeof emailSendRequestSchema>;
+
+/** One attempt to send a draft; `partial` means the server refused some of the recipients. */
+export type EmailDelivery = {
+  id: string;
+  cacheKey: string;
+  variant?: number;
+  transport: string;
+  messageId: string;
+  status: EmailDeliveryStatus;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  accepted: string[];
+  rejected: string[];
+  response?: string;
+  error?: string;
+  sentAt: string;
+};
+
+/** One entry in a draft's revision chain; the original draft is the root and has no parent. */
+export type EmailDraftRevision = {
+  cacheKey: string;
+  parentKey?: string;
+  rootKey: string;
+  /** The refinement instruction or reviewer feedback that produced this revision. */
+  instruction?: string;
+  runId: string;
+  createdAt: string;
+  /** Snapshot of the draft, so the history stays complete even if the deliverable store is cleared. */
+  deliverable: EmailDraftDeliverable;
+};
+
+/** All revisions that descend from one original draft, and the one currently in use. */
+export type EmailDraftHistory = {
+  rootKey: string;
+  currentKey: string;
+  /** Oldest first; branches from an earlier revision are kept. */
+  revisions: EmailDraftRevision[];
+};
 
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+export const GUARDRAIL_DETECTOR_IDS = [
+  "credit_card",
+  "ssn",
+  "secret",
+  "email_address",
+  "phone_number",
+  "sensitive_terms",
+  "profanity",
+  "prompt_injection",
+] as const;
+
+export type GuardrailDetectorId = (typeof GUARDRAIL_DETECTOR_IDS)[number];
+
+export const GUARDRAIL_DETECTOR_LABELS: Record<GuardrailDetectorId, string> = {
+  credit_card: "Card number",
+  ssn: "Social security number",
+  secret: "API key or secret",
+  email_address: "Email address",
+  phone_number: "Phone number",
+  sensitive_terms: "Password or card reference",
+  profanity: "Profanity",
+  prompt_injection: "Prompt injection",
+};
+
+/** Redacted spans become numbered placeholders such as `[CARD_NUMBER_1]`; the same value reuses its number. */
+export const GUARDRAIL_PLACEHOLDERS: Record<GuardrailDetectorId, string> = {
+  credit_card: "CARD_NUMBER",
+  ssn: "SSN",
+  secret: "SECRET",
+  email_address: "EMAIL",
+  phone_number: "PHONE",
+  sensitive_terms: "SENSITIVE",
+  profanity: "REMOVED",
+  prompt_injection: "REMOVED",
+};
+
+export const REDACTION_PLACEHOLDER_PATTERN = /\[([A-Z_]+)_(\d+)\]/g;
+
+export const formatRedactionPlaceholder = (detector: GuardrailDetectorId, index: number) =>
+  `[${GUARDRAIL_PLACEHOLDERS[detector]}_${index}]`;
+
+/** Ordered from least to most severe; a text takes the most severe action among its findings. */
+export const GUARDRAIL_ACTIONS = ["off", "warn", "redact", "block"] as const;
+
+export const guardrailActionSchema = z.enum(GUARDRAIL_ACTIONS);
+
+export type GuardrailAction = z.infer<typeof guardrailActionSchema>;
+
+export const GUARDRAIL_ENTRY_POINTS = ["email", "chat"] as const;
+
+export type GuardrailEntryPoint = (typeof GUARDRAIL_ENTRY_POINTS)[number];
+
+const detectorShape = <T extends z.ZodTypeAny>(schema: T) =>
+  Object.fromEntries(GUARDRAIL_DETECTOR_IDS.map((id) => [id, schema])) as Record<GuardrailDetectorId, T>;
+
+export const guardrailActionsSchema = z.object(detectorShape(guardrailActionSchema)).strict();
+
+export const guardrailPolicySchema = z
+  .object({
+    /** Checked before a request reaches the model, separately for each entry point. */
+    input: z.object({ email: guardrailActionsSchema, chat: guardrailActionsSchema }).strict(),
+    /** Checked when a specialist reports a deliverable, whichever entry point started the run. */
+    output: guardrailActionsSchema,
+  })
+  .strict();
+
+const guardrailActionsUpdateSchema = z.object(detectorShape(guardrailActionSchema.optional())).strict();
+
+export const guardrailPolicyUpdateSchema = z
+  .object({
+    input: z
+      .object({ email: guardrailActionsUpdateSchema.optional(), chat: guardrailActionsUpdateSchema.optional() })
+      .strict()
+      .optional(),
+    output: guardrailActionsUpdateSchema.optional(),
+  })
+  .strict();
+
+export type GuardrailActions = z.infer<typeof guardrailActionsSchema>;
+export type GuardrailPolicy = z.infer<typeof guardrailPolicySchema>;
+export type GuardrailPolicyUpdate = z.infer<typeof guardrailPolicyUpdateSchema>;
+
+export type GuardrailFinding = {
+  detector: GuardrailDetectorId;
+  action: Exclude<GuardrailAction, "off">;
+  /** Which field of the checked payload matched, e.g. `keyPoints.0` or `draft.body`. */
+  field: string;
+  start: number;
+  end: number;
+  /** Set when the span was redacted. */
+  placeholder?: string;
+};
+
+/** A redacted span as reported to the operator; the original value never leaves the server in this shape. */
+export type RedactedSpan = {
+  placeholder: string;
+  detector: GuardrailDetectorId;
+  /** Every field the value appeared in, e.g. `keyPoints.0`. */
+  fields: string[];
+};
+
+/** Server-side mapping that lets the operator restore a placeholder to the value it replaced. */
+export type RedactionEntry = RedactedSpan & { original: string };
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  input: {
+    email: {
+      credit_card: "redact",
+      ssn: "redact",
+      secret: "redact",
+      email_address: "off",
+      phone_number: "redact",
+      sensitive_terms: "redact",
+      profanity: "warn",
+      prompt_injection: "block",
+    },
+    chat: {
+      credit_card: "redact",
+      ssn: "redact",
+      secret: "redact",
+      email_address: "off",
+      phone_number: "off",
+      sensitive_terms: "off",
+      profanity: "warn",
+      prompt_injection: "block",
+    },
+  },
+  output: {
+    credit_card: "block",
+    ssn: "block",
+    secret: "block",
+    email_address: "off",
+    phone_number: "off",
+    sensitive_terms: "off",
+    profanity: "block",
+    prompt_injection: "off",
+  },
+};
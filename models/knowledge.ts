@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+export const MAX_KNOWLEDGE_DOCUMENT_CHARS = 1_000_000;
+
+export type KnowledgeFileFormat = {
+  /** The MIME type stored with documents of this format. */
+  mimeType: string;
+  extensions: string[];
+  mimeTypes: string[];
+};
+
+/** The file formats text can be extracted from; shared by the uploader and the server extractors. */
+export const KNOWLEDGE_FILE_FORMATS: KnowledgeFileFormat[] = [
+  { mimeType: "text/markdown", extensions: [".md", ".markdown", ".mdx"], mimeTypes: ["text/markdown", "text/x-markdown"] },
+  { mimeType: "text/html", extensions: [".html", ".htm"], mimeTypes: ["text/html", "application/xhtml+xml"] },
+  { mimeType: "application/pdf", extensions: [".pdf"], mimeTypes: ["application/pdf"] },
+  { mimeType: "text/csv", extensions: [".csv"], mimeTypes: ["text/csv", "application/csv"] },
+  { mimeType: "application/json", extensions: [".json"], mimeTypes: ["application/json"] },
+  { mimeType: "text/plain", extensions: [".txt", ".text", ".log"], mimeTypes: ["text/plain"] },
+];
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = KNOWLEDGE_FILE_FORMATS.flatMap((format) => format.extensions);
+
+/** The lower-cased extension including the dot, or "" for names without one (including dotfiles). */
+export const getFileExtension = (fileName: string) => {
+  const base = fileName.slice(fileName.lastIndexOf("/") + 1);
+  const index = base.lastIndexOf(".");
+  return index > 0 ? base.slice(index).toLowerCase() : "";
+};
+
+/** Matches by extension first, then by MIME type for files without a known extension. */
+export const findKnowledgeFileFormat = (fileName: string, mimeType?: string) => {
+  const extension = getFileExtension(fileName);
+  const baseMime = mimeType?.split(";")[0].trim().toLowerCase();
+  return (
+    KNOWLEDGE_FILE_FORMATS.find((format) => extension && format.extensions.includes(extension)) ??
+    KNOWLEDGE_FILE_FORMATS.find((format) => baseMime && format.mimeTypes.includes(baseMime))
+  );
+};
+
+export const knowledgeUploadSchema = z
+  .object({
+    name: z.string().trim().min(1, "Provide a document name.").max(200),
+    content: z
+      .string()
+      .trim()
+      .min(1, "Document content is empty.")
+      .max(MAX_KNOWLEDGE_DOCUMENT_CHARS, "Document is too large to index."),
+    mimeType: z.string().default("text/plain"),
+    source: z.string().max(500).optional(),
+  })
+  .strict();
+
+export type KnowledgeUpload = z.input<typeof knowledgeUploadSchema>;
+
+export type KnowledgeDocument = {
+  id: string;
+  name: string;
+  mimeType: string;
+  source?: string;
+  /** sha256 of the normalised content; identical uploads resolve to the same document. */
+  checksum: string;
+  content: string;
+  chunkCount: number;
+  embedded: boolean;
+  createdAt: string;
+};
+
+export type KnowledgeDocumentSummary = Omit<KnowledgeDocument, "content"> & { characters: number };
+
+export type KnowledgeChunk = {
+  id: string;
+  documentId: string;
+  index: number;
+  /** Character offsets of the chunk inside the document content. */
+  start: number;
+  end: number;
+  text: string;
+  embedding?: number[];
+};
+
+export type KnowledgePassage = {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+};
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import type { AgentId } from "@/models/settings";
+
+/** Variables each agent's instruction template may reference as `{{name}}`. */
+export const AGENT_PROMPT_VARIABLES: Record<AgentId, readonly string[]> = {
+  orchestrator: ["context"],
+  email: ["recipient", "tone", "variants", "keyPoints", "additionalContext"],
+  research: [],
+};
+
+export const DEFAULT_PROMPT_VERSION = 0;
+
+export const promptVersionCreateSchema = z
+  .object({
+    template: z.string().trim().min(1, "Template cannot be empty.").max(20_000),
+    note: z.string().trim().max(200).optional(),
+  })
+  .strict();
+
+export const promptVersionActivateSchema = z
+  .object({
+    /** `0` switches back to the built-in template. */
+    version: z.number().int().min(DEFAULT_PROMPT_VERSION),
+  })
+  .strict();
+
+export type PromptVersionCreate = z.infer<typeof promptVersionCreateSchema>;
+
+export type AgentPromptVersion = {
+  agentId: AgentId;
+  version: number;
+  template: string;
+  note?: string;
+  createdAt: string;
+};
+
+/** The template an agent runs with, plus the label recorded on runs (e.g. `email@v3`, `email@default`). */
+export type ResolvedAgentPrompt = {
+  agentId: AgentId;
+  version: number;
+  label: string;
+  template: string;
+};
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+export const researchSourceSchema = z.object({
+  title: z.string().min(1),
+  url: z.string().url(),
+  snippet: z.string().nullable().optional(),
+});
+
+export const researchCitationSchema = z.object({
+  label: z.string().min(2, "Citation label must be at least 2 characters."),
+  url: z.string().url("Citations must be URLs returned by search_web or fetch_content."),
+});
+
+export const researchFindingSchema = z.object({
+  finding: z.string().min(10, "Findings must be at least 10 characters."),
+  citations: z.array(z.string().url()).min(1, "Each finding must cite at least one source URL."),
+});
+
+export const researchBriefSchema = z.object({
+  title: z.string().min(3, "Title must be at least 3 characters."),
+  summary: z.string().min(40, "Summary must be at least 40 characters."),
+  keyFindings: z.array(researchFindingSchema).min(2, "Provide at least two key findings.").max(8),
+  citations: z.array(researchCitationSchema).min(1, "Cite at least one source.").max(12),
+  openQuestions: z.array(z.string().min(3)).max(5).default([]),
+});
+
+export const researchBriefDeliverableSchema = z.object({
+  type: z.literal("research-brief"),
+  brief: researchBriefSchema,
+  metadata: z
+    .object({
+      question: z.string().min(3, "Restate the research question."),
+      audience: z.string().nullable().optional(),
+    })
+    .strict(),
+});
+
+export type ResearchSource = z.infer<typeof researchSourceSchema>;
+export type ResearchCitation = z.infer<typeof researchCitationSchema>;
+export type ResearchFinding = z.infer<typeof researchFindingSchema>;
+export type ResearchBrief = z.infer<typeof researchBriefSchema>;
+export type ResearchBriefDeliverable = z.infer<typeof researchBriefDeliverableSchema>;
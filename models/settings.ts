@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { DEFAULT_GUARDRAIL_POLICY, guardrailPolicySchema, guardrailPolicyUpdateSchema } from "@/models/guardrails";
+
+export const AGENT_IDS = ["orchestrator", "email", "research"] as const;
+
+export type AgentId = (typeof AGENT_IDS)[number];
+
+export const AGENT_LABELS: Record<AgentId, string> = {
+  orchestrator: "Orchestrator",
+  email: "Email specialist",
+  research: "Research synthesizer",
+};
+
+/** Suggested in the settings panel; the API accepts any model name the provider serves. */
+export const MODEL_OPTIONS = ["gpt-5", "gpt-5-mini", "gpt-5-nano"] as const;
+
+export const reasoningEffortSchema = z.enum(["minimal", "low", "medium", "high"]);
+export const verbositySchema = z.enum(["low", "medium", "high"]);
+
+export const agentRuntimeSettingsSchema = z
+  .object({
+    model: z.string().trim().min(1, "Model name cannot be empty.").max(100),
+    reasoningEffort: reasoningEffortSchema,
+    verbosity: verbositySchema,
+  })
+  .strict();
+
+export const runtimeSettingsSchema = z
+  .object({
+    agents: z
+      .object({
+        orchestrator: agentRuntimeSettingsSchema,
+        email: agentRuntimeSettingsSchema,
+        research: agentRuntimeSettingsSchema,
+      })
+      .strict(),
+    /** Exports Agents SDK traces to the OpenAI dashboard; the local run timeline is always recorded. */
+    tracingEnabled: z.boolean(),
+    guardrails: guardrailPolicySchema,
+  })
+  .strict();
+
+export const runtimeSettingsUpdateSchema = z
+  .object({
+    agents: z
+      .object({
+        orchestrator: agentRuntimeSettingsSchema.partial().optional(),
+        email: agentRuntimeSettingsSchema.partial().optional(),
+        research: agentRuntimeSettingsSchema.partial().optional(),
+      })
+      .strict()
+      .optional(),
+    tracingEnabled: z.boolean().optional(),
+    guardrails: guardrailPolicyUpdateSchema.optional(),
+  })
+  .strict();
+
+export type AgentRuntimeSettings = z.infer<typeof agentRuntimeSettingsSchema>;
+export type RuntimeSettings = z.infer<typeof runtimeSettingsSchema>;
+export type RuntimeSettingsUpdate = z.infer<typeof runtimeSettingsUpdateSchema>;
+
+export const DEFAULT_RUNTIME_SETTINGS: RuntimeSettings = {
+  agents: {
+    orchestrator: { model: "gpt-5", reasoningEffort: "low", verbosity: "low" },
+    email: { model: "gpt-5-mini", reasoningEffort: "medium", verbosity: "low" },
+    research: { model: "gpt-5", reasoningEffort: "medium", verbosity: "medium" },
+  },
+  tracingEnabled: true,
+  guardrails: DEFAULT_GUARDRAIL_POLICY,
+};
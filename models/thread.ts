@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+export const DEFAULT_THREAD_TITLE = "New conversation";
+
+export const threadCreateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(120).optional(),
+  })
+  .strict();
+
+export const threadUpdateSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title cannot be empty.").max(120).optional(),
+    archived: z.boolean().optional(),
+  })
+  .strict();
+
+export type ThreadCreate = z.infer<typeof threadCreateSchema>;
+export type ThreadUpdate = z.infer<typeof threadUpdateSchema>;
+
+export type ThreadSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  /** Last time the conversation received a message; threads are listed newest first by this. */
+  updatedAt: string;
+  archived: boolean;
+  messageCount: number;
+  /** Approximate token count of the history replayed to the model on the next turn. */
+  historyTokens: number;
+};
+
+/** What a single compaction pass folded into the history summary. */
+export type HistoryCompaction = {
+  compactedAt: string;
+  turns: number;
+  items: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  toolCallIds: string[];
+  deliverableKeys: string[];
+};
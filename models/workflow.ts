@@ -1,13 +1,149 @@
-﻿export type WorkflowStepDef = {
-  id: string;
-  label: string;
-  description: string;
+﻿import { z } from "zod";
+
+const identifierSchema = z
+  .string()
+  .min(1)
+  .regex(/^[a-z0-9][a-z0-9-_]*$/i, "Use letters, numbers, dashes or underscores.");
+
+export const workflowInputSchema = z
+  .object({
+    name: identifierSchema,
+    label: z.string().optional(),
+    description: z.string().optional(),
+    type: z.enum(["string", "number", "boolean", "string[]"]).default("string"),
+    required: z.boolean().default(false),
+    default: z.unknown().optional(),
+  })
+  .strict();
+
+export const workflowConditionSchema = z
+  .object({
+    ref: z.string().min(1, "Conditions must reference inputs.<name> or steps.<id>."),
+    equals: z.unknown().optional(),
+    notEquals: z.unknown().optional(),
+    in: z.array(z.unknown()).optional(),
+    exists: z.boolean().optional(),
+    gt: z.number().optional(),
+    lt: z.number().optional(),
+  })
+  .strict();
+
+export const workflowRetryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().min(1).max(10).default(1),
+    backoffMs: z.number().int().min(0).max(60000).default(0),
+    backoffMultiplier: z.number().min(1).max(10).default(2),
+  })
+  .strict();
+
+const withDefaultStepType = (value: unknown) =>
+  value && typeof value === "object" && !("type" in value) ? { ...value, type: "task" } : value;
+
+const stepBaseShape = {
+  id: identifierSchema,
+  label: z.string().min(1),
+  description: z.string().default(""),
+  when: workflowConditionSchema.optional(),
+  next: z.string().optional(),
 };
 
-export type WorkflowDefinition = {
-  id: string;
-  name: string;
-  description: string;
-  estimatedDuration: string;
-  steps: WorkflowStepDef[];
-};
+export const workflowTaskStepSchema = z
+  .object({
+    ...stepBaseShape,
+    type: z.literal("task"),
+    handler: z.string().min(1, "Task steps must reference a registered handler."),
+    with: z.record(z.unknown()).default({}),
+    timeoutMs: z.number().int().positive().max(30 * 60 * 1000).optional(),
+    retry: workflowRetryPolicySchema.optional(),
+  })
+  .strict();
+
+export const workflowParallelStepSchema = z
+  .object({
+    ...stepBaseShape,
+    type: z.literal("parallel"),
+    steps: z
+      .array(z.preprocess(withDefaultStepType, workflowTaskStepSchema))
+      .min(2, "Fan-out needs at least two branches."),
+    join: z.enum(["all", "any"]).default("all"),
+  })
+  .strict();
+
+export const workflowBranchStepSchema = z
+  .object({
+    ...stepBaseShape,
+    type: z.literal("branch"),
+    branches: z
+      .array(z.object({ when: workflowConditionSchema, next: z.string().min(1) }).strict())
+      .min(1),
+    otherwise: z.string().optional(),
+  })
+  .strict();
+
+export const workflowStepSchema = z.preprocess(
+  withDefaultStepType,
+  z.discriminatedUnion("type", [workflowTaskStepSchema, workflowParallelStepSchema, workflowBranchStepSchema]),
+);
+
+export const WORKFLOW_END = "end";
+
+export const workflowDefinitionSchema = z
+  .object({
+    id: identifierSchema,
+    name: z.string().min(1),
+    description: z.string().default(""),
+    estimatedDuration: z.string().default("Unknown"),
+    inputs: z.array(workflowInputSchema).default([]),
+    steps: z.array(workflowStepSchema).min(1),
+  })
+  .strict()
+  .superRefine((definition, ctx) => {
+    const ids = new Set<string>();
+    const register = (id: string, path: (string | number)[]) => {
+      if (ids.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate step id "${id}".`, path });
+      }
+      ids.add(id);
+    };
+
+    definition.steps.forEach((step, index) => {
+      register(step.id, ["steps", index, "id"]);
+      if (step.type === "parallel") {
+        step.steps.forEach((child, childIndex) => register(child.id, ["steps", index, "steps", childIndex, "id"]));
+      }
+    });
+
+    const topLevel = new Set(definition.steps.map((step) => step.id));
+    const checkTarget = (target: string | undefined, path: (string | number)[]) => {
+      if (target && target !== WORKFLOW_END && !topLevel.has(target)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown step "${target}".`, path });
+      }
+    };
+
+    definition.steps.forEach((step, index) => {
+      checkTarget(step.next, ["steps", index, "next"]);
+      if (step.type === "branch") {
+        step.branches.forEach((branch, branchIndex) =>
+          checkTarget(branch.next, ["steps", index, "branches", branchIndex, "next"]),
+        );
+        checkTarget(step.otherwise, ["steps", index, "otherwise"]);
+      }
+    });
+
+    const inputNames = new Set<string>();
+    definition.inputs.forEach((input, index) => {
+      if (inputNames.has(input.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate input "${input.name}".`, path: ["inputs", index] });
+      }
+      inputNames.add(input.name);
+    });
+  });
+
+export type WorkflowInputDef = z.infer<typeof workflowInputSchema>;
+export type WorkflowCondition = z.infer<typeof workflowConditionSchema>;
+export type WorkflowRetryPolicy = z.infer<typeof workflowRetryPolicySchema>;
+export type WorkflowTaskStepDef = z.infer<typeof workflowTaskStepSchema>;
+export type WorkflowParallelStepDef = z.infer<typeof workflowParallelStepSchema>;
+export type WorkflowBranchStepDef = z.infer<typeof workflowBranchStepSchema>;
+export type WorkflowStepDef = WorkflowTaskStepDef | WorkflowParallelStepDef | WorkflowBranchStepDef;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
@@ -0,0 +1,86 @@
+import type { ActivityEvent } from "@/models/activity";
+
+const HISTORY_LIMIT = 500;
+
+export type ActivityEnvelope = {
+  id: string;
+  event: ActivityEvent;
+};
+
+type ActivityListener = (envelope: ActivityEnvelope) => void;
+
+type SubscribeOptions = {
+  runId?: string;
+};
+
+// Event ids embed a boot marker so a client resuming against a restarted server is detected
+// instead of silently replaying from the wrong sequence.
+const bootId = Date.now().toString(36);
+let sequence = 0;
+const history: ActivityEnvelope[] = [];
+const listeners = new Set<ActivityListener>();
+
+const formatEventId = (value: number) => `${bootId}-${value}`;
+
+const parseEventId = (value: string) => {
+  const [boot, raw] = value.split("-");
+  const parsed = Number(raw);
+  if (boot !== bootId || !Number.isInteger(parsed)) return undefined;
+  return parsed;
+};
+
+export const eventRunId = (event: ActivityEvent) => (event.type === "step.logged" ? event.runId : event.run.id);
+
+const matchesRun = (event: ActivityEvent, runId?: string) => !runId || eventRunId(event) === runId;
+
+export const publishActivity = (event: ActivityEvent): ActivityEnvelope => {
+  sequence += 1;
+  const envelope: ActivityEnvelope = { id: formatEventId(sequence), event };
+  history.push(envelope);
+  if (history.length > HISTORY_LIMIT) {
+    history.splice(0, history.length - HISTORY_LIMIT);
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(envelope);
+    } catch (error) {
+      console.error("Activity listener failed", error);
+    }
+  });
+
+  return envelope;
+};
+
+export const subscribeActivity = (listener: ActivityListener, { runId }: SubscribeOptions = {}) => {
+  const filtered: ActivityListener = (envelope) => {
+    if (matchesRun(envelope.event, runId)) {
+      listener(envelope);
+    }
+  };
+  listeners.add(filtered);
+  return () => {
+    listeners.delete(filtered);
+  };
+};
+
+export const currentActivityCursor = () => formatEventId(sequence);
+
+/**
+ * Returns the events published after `lastEventId`. `complete` is false when the id is unknown
+ * (another server boot) or has already been evicted, meaning the caller must resynchronise.
+ */
+export const getActivitySince = (lastEventId: string, { runId }: SubscribeOptions = {}) => {
+  const cursor = parseEventId(lastEventId);
+  const oldest = history[0] ? parseEventId(history[0].id) ?? 0 : sequence + 1;
+  const complete = cursor !== undefined && cursor <= sequence && cursor >= oldest - 1;
+  const events = complete
+    ? history.filter((envelope) => (parseEventId(envelope.id) ?? 0) > cursor && matchesRun(envelope.event, runId))
+    : [];
+  return { complete, events };
+};
+
+export const resetActivityBus = () => {
+  history.length = 0;
+  listeners.clear();
+};
@@ -1,6 +1,7 @@
 ﻿import { Agent } from "@openai/agents";
 import type { EmailDraftAgentInput } from "@/models/email";
 import type { EmailAgentRuntimeContext } from "@/server/agents/runtime";
+import { renderAgentInstructions } from "@/server/agents/prompt-store";
 import { resolveContext } from "@/server/agents/runtime";
 import { reportEmailDraftTool } from "@/server/agents/tools/report-result";
 
@@ -10,7 +11,7 @@ const formatKeyPoints = (input: EmailDraftAgentInput) =>
 export const emailDraftAgent = new Agent<EmailAgentRuntimeContext>({
   name: "Email Draft Builder",
   handoffDescription: "Produces a polished email draft deliverable using the report_result tool.",
-  instructions: (runContext) => {
+  instructions: (runContext, agent) => {
     const ctx = resolveContext(runContext.context);
     if (!ctx) {
       return "Runtime context missing. Wait for the driver to retry with payload details.";
@@ -21,27 +22,19 @@ export const emailDraftAgent = new Agent<EmailAgentRuntimeContext>({
       return "Payload missing. Hold for orchestrator instructions.";
     }
 
-    const keyPointList = formatKeyPoints(payload);
-
-    return [
-      "You are the SideKick Email Draft Builder.",
-      "Compose a professional reply email that matches the requested tone and captures every key point.",
-      "Workflow expectations:",
-      "- Call the `report_result` tool exactly once with a payload shaped like { type: 'email-draft', draft: { subject, body, variants[] }, metadata }.",
-      "- Do NOT emit normal assistant text in the same turn as the `report_result` call.",
-      "- Ensure the draft body is friendly but concise, and provide the requested number of variants (label + body).",
-      "- Use bullet points or paragraphs to improve readability when helpful.",
-      "Context for this run:",
-      `Recipient: ${payload.recipient}`,
-      `Tone: ${payload.tone}`,
-      `Variants requested: ${payload.variants}`,
-      "Key points:",
-      keyPointList,
-      payload.additionalContext ? `Additional context: ${payload.additionalContext}` : "No additional context provided.",
-      "Keep closing signatures consistent with the tone.",
-    ]
-      .filter(Boolean)
-      .join("\n");
+    return renderAgentInstructions(
+      "email",
+      { runId: ctx.runId, model: agent.model },
+      {
+        recipient: payload.recipient,
+        tone: payload.tone,
+        variants: payload.variants,
+        keyPoints: formatKeyPoints(payload),
+        additionalContext: payload.additionalContext
+          ? `Additional context: ${payload.additionalContext}`
+          : "No additional context provided.",
+      },
+    );
   },
   tools: [reportEmailDraftTool],
   model: "gpt-5-mini",
@@ -0,0 +1,27 @@
+import { Agent } from "@openai/agents";
+import { researchBriefKind } from "@/server/agents/deliverables/research-brief";
+import type { EmailAgentRuntimeContext } from "@/server/agents/runtime";
+import { renderAgentInstructions } from "@/server/agents/prompt-store";
+import { resolveContext } from "@/server/agents/runtime";
+import { fetchContentTool } from "@/server/agents/tools/fetch-content";
+import { createReportResultTool } from "@/server/agents/tools/report-result";
+import { searchWebTool } from "@/server/agents/tools/search-web";
+
+export const researchAgent = new Agent<EmailAgentRuntimeContext>({
+  name: "Research Synthesizer",
+  handoffDescription: "Researches a question on the web and synthesizes sources into a cited research brief.",
+  instructions: (runContext, agent) => {
+    const ctx = resolveContext(runContext.context);
+    if (!ctx) {
+      return "Runtime context missing. Wait for the driver to retry.";
+    }
+
+    return renderAgentInstructions("research", { runId: ctx.runId, model: agent.model });
+  },
+  tools: [searchWebTool, fetchContentTool, createReportResultTool(researchBriefKind)],
+  model: "gpt-5",
+  modelSettings: {
+    reasoning: { effort: "medium" },
+    text: { verbosity: "medium" },
+  },
+});
@@ -1,31 +1,209 @@
 ﻿import type { AgentInputItem } from "@openai/agents";
-import { createRuntimeContext, type EmailAgentRuntimeContext } from "@/server/agents/runtime";
+import type { UIMessage } from "ai";
 import { randomUUID } from "crypto";
+import { DEFAULT_THREAD_TITLE, type HistoryCompaction, type ThreadSummary, type ThreadUpdate } from "@/models/thread";
+import { compactHistory, estimateHistoryTokens } from "@/server/agents/history";
+import { createRuntimeContext, type EmailAgentRuntimeContext } from "@/server/agents/runtime";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
 
 type SessionState = {
   context: EmailAgentRuntimeContext;
   history: AgentInputItem[];
 };
 
-const sessions = new Map<string, SessionState>();
+export type StoredThread = Omit<ThreadSummary, "messageCount" | "historyTokens"> &
+  SessionState & {
+    /** UI messages as rendered by the chat panel (text plus data parts), replayed when the thread is reopened. */
+    messages?: UIMessage[];
+    historyTokens?: number;
+    /** Audit trail of the turns folded into the history summary, oldest first. */
+    compactions?: HistoryCompaction[];
+  };
 
-export const getOrCreateSession = (threadId?: string) => {
-  const id = threadId ?? randomUUID();
-  const existing = sessions.get(id);
-  if (existing) {
-    return { id, session: existing };
+export type ThreadRepository = {
+  list: () => StoredThread[];
+  get: (threadId: string) => StoredThread | undefined;
+  save: (thread: StoredThread) => void;
+  remove: (threadId: string) => boolean;
+  clear: () => void;
+};
+
+export const createMemoryThreadRepository = (seed: StoredThread[] = []): ThreadRepository => {
+  const threads = new Map(seed.map((thread) => [thread.id, thread] as const));
+
+  return {
+    list: () => Array.from(threads.values()),
+    get: (threadId) => threads.get(threadId),
+    save: (thread) => {
+      threads.set(thread.id, thread);
+    },
+    remove: (threadId) => threads.delete(threadId),
+    clear: () => threads.clear(),
+  };
+};
+
+export const createFileThreadRepository = (filePath: string): ThreadRepository => {
+  let memory: ThreadRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryThreadRepository(readJsonFile<StoredThread[]>(filePath, []));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    try {
+      writeJsonFile(filePath, load().list());
+    } catch (error) {
+      console.error("Failed to persist thread repository", error);
+    }
+  };
+
+  return {
+    list: () => load().list(),
+    get: (threadId) => load().get(threadId),
+    save: (thread) => {
+      load().save(thread);
+      persist();
+    },
+    remove: (threadId) => {
+      const removed = load().remove(threadId);
+      if (removed) persist();
+      return removed;
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: ThreadRepository | undefined;
+
+export const getThreadRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryThreadRepository()
+      : createFileThreadRepository(resolveDataPath("threads.json"));
+  }
+  return repository;
+};
+
+export const setThreadRepository = (next: ThreadRepository | undefined) => {
+  repository = next;
+};
+
+const countMessages = (history: AgentInputItem[]) =>
+  history.filter((item) => {
+    const role = (item as { role?: unknown }).role;
+    return role === "user" || role === "assistant";
+  }).length;
+
+export const toThreadSummary = ({
+  context: _context,
+  history,
+  messages: _messages,
+  compactions: _compactions,
+  historyTokens,
+  ...thread
+}: StoredThread): ThreadSummary => ({
+  ...thread,
+  messageCount: countMessages(history),
+  historyTokens: historyTokens ?? estimateHistoryTokens(history),
+});
+
+const firstUserText = (history: AgentInputItem[]) => {
+  for (const item of history) {
+    const candidate = item as { role?: unknown; content?: unknown };
+    if (candidate.role !== "user") continue;
+    if (typeof candidate.content === "string") return candidate.content;
+    if (Array.isArray(candidate.content)) {
+      const text = candidate.content.find((part) => part?.type === "input_text")?.text;
+      if (typeof text === "string") return text;
+    }
   }
+  return undefined;
+};
+
+const deriveTitle = (text: string) => {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > 60 ? `${singleLine.slice(0, 57)}…` : singleLine;
+};
 
-  const context = createRuntimeContext({ threadId: id });
-  const session: SessionState = { context, history: [] };
-  sessions.set(id, session);
-  return { id, session };
+export const createThread = ({ id = randomUUID(), title }: { id?: string; title?: string } = {}) => {
+  const now = new Date().toISOString();
+  const thread: StoredThread = {
+    id,
+    title: title ?? DEFAULT_THREAD_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    context: createRuntimeContext({ threadId: id }),
+    history: [],
+    messages: [],
+  };
+  getThreadRepository().save(thread);
+  return thread;
 };
 
+export const getOrCreateSession = (threadId?: string) => {
+  const existing = threadId ? getThreadRepository().get(threadId) : undefined;
+  const session = existing ?? createThread({ id: threadId });
+  return { id: session.id, session };
+};
+
+/**
+ * Replaces the thread's history, bumps its activity timestamp and titles untitled threads.
+ * Histories over the token budget are compacted before they are stored, so the next turn
+ * replays the summary instead of every earlier item.
+ */
 export const updateSessionHistory = (threadId: string, items: AgentInputItem[]) => {
-  const entry = sessions.get(threadId);
+  const entry = getThreadRepository().get(threadId);
   if (!entry) return;
-  entry.history = items;
+
+  const prompt = entry.title === DEFAULT_THREAD_TITLE ? firstUserText(items) : undefined;
+  const { history, tokens, compaction } = compactHistory(items);
+  getThreadRepository().save({
+    ...entry,
+    title: prompt ? deriveTitle(prompt) : entry.title,
+    updatedAt: new Date().toISOString(),
+    history,
+    historyTokens: tokens,
+    compactions: compaction ? [...(entry.compactions ?? []), compaction] : entry.compactions,
+  });
 };
 
-export const resetSessions = () => sessions.clear();
+export const getThreadMessages = (threadId: string) => getThreadRepository().get(threadId)?.messages ?? [];
+
+export const saveThreadMessages = (threadId: string, messages: UIMessage[]) => {
+  const entry = getThreadRepository().get(threadId);
+  if (!entry) return;
+  getThreadRepository().save({ ...entry, messages });
+};
+
+export const listThreads = ({ archived = false }: { archived?: boolean | "all" } = {}) =>
+  getThreadRepository()
+    .list()
+    .filter((thread) => archived === "all" || thread.archived === archived)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .map(toThreadSummary);
+
+export const getThread = (threadId: string) => getThreadRepository().get(threadId);
+
+export const updateThread = (threadId: string, patch: ThreadUpdate) => {
+  const entry = getThreadRepository().get(threadId);
+  if (!entry) return undefined;
+
+  const updated: StoredThread = {
+    ...entry,
+    title: patch.title ?? entry.title,
+    archived: patch.archived ?? entry.archived,
+  };
+  getThreadRepository().save(updated);
+  return toThreadSummary(updated);
+};
+
+export const deleteThread = (threadId: string) => getThreadRepository().remove(threadId);
+
+export const resetSessions = () => getThreadRepository().clear();
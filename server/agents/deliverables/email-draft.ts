@@ -0,0 +1,26 @@
+import { emailDraftAgentInputSchema, emailDraftDeliverableSchema, type EmailDraftDeliverable } from "@/models/email";
+import { formatEmailDraftReview, reviewEmailDraft } from "@/server/agents/deliverables/email-review";
+import { computeDeliverableKey, defineDeliverableKind } from "@/server/agents/deliverables/kind";
+
+export const emailDraftKind = defineDeliverableKind<EmailDraftDeliverable>({
+  type: "email-draft",
+  label: "email draft",
+  schema: emailDraftDeliverableSchema,
+  normalize: (deliverable) => ({
+    ...deliverable,
+    draft: {
+      ...deliverable.draft,
+      variants: deliverable.draft.variants ?? [],
+    },
+  }),
+  cacheKey: (deliverable, { runId }) => computeDeliverableKey({ runId, metadata: deliverable.metadata }),
+  validate: (deliverable, { request, fromTemplate }) => {
+    const parsed = emailDraftAgentInputSchema.safeParse(request);
+    return formatEmailDraftReview(
+      reviewEmailDraft(deliverable, parsed.success ? parsed.data : undefined, { lengthLimits: !fromTemplate }),
+    );
+  },
+  title: ({ draft }) => draft.subject,
+  describe: ({ draft, metadata }) =>
+    `Prepared subject “${draft.subject}”, rephrased ${draft.variants.length + 1} variants, and reflected ${metadata.keyPoints.length} key points.`,
+});
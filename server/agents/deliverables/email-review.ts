@@ -0,0 +1,107 @@
+import type { EmailDraftAgentInput, EmailDraftDeliverable } from "@/models/email";
+
+export const EMAIL_BODY_MAX_WORDS = 350;
+export const EMAIL_SUBJECT_MAX_LENGTH = 120;
+
+export type EmailDraftReview = {
+  /** Share of `metadata.keyPoints` the subject and body cover, from 0 to 1. */
+  coverage: number;
+  issues: string[];
+};
+
+const STOP_WORDS = new Set([
+  "about", "after", "also", "been", "before", "from", "have", "into", "just", "more", "over", "please",
+  "that", "their", "them", "then", "there", "these", "they", "this", "those", "through", "very", "were",
+  "what", "when", "which", "will", "with", "would", "your",
+]);
+
+// Words are compared on their first five letters so "confirm" matches "confirmed" and "confirming".
+const significantTerms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => (word.length >= 4 || /\d/.test(word)) && !STOP_WORDS.has(word))
+    .map((word) => word.slice(0, 5));
+
+const COMMITMENT_PATTERN =
+  /\b(?:guarantee[sd]?|promise[sd]?|refund(?:ed|s)?|discount(?:ed|s)?|waive[sd]?|compensat\w*|free of charge)\b/gi;
+const AMOUNT_PATTERN = /[$€£]\s?\d[\d,]*(?:\.\d+)?|\b\d+(?:\.\d+)?\s?%/g;
+const CASUAL_PATTERN = /\b(?:hey|hiya|lol|gonna|wanna|yeah|yep)\b|!{2,}/gi;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const isCovered = (keyPoint: string, draftTerms: Set<string>) => {
+  const terms = significantTerms(keyPoint);
+  if (terms.length === 0) return true;
+  return terms.filter((term) => draftTerms.has(term)).length / terms.length >= 0.5;
+};
+
+/**
+ * Semantic checks on a generated draft: key point coverage, the requested number of variants,
+ * length limits, tone markers and commitments or amounts the operator never asked for.
+ * `request` is the structured input the specialist was started with, when it is known. Template
+ * drafts turn `lengthLimits` off: they list every key point verbatim, however many there are.
+ */
+export const reviewEmailDraft = (
+  { draft, metadata }: EmailDraftDeliverable,
+  request?: EmailDraftAgentInput,
+  { lengthLimits = true }: { lengthLimits?: boolean } = {},
+): EmailDraftReview => {
+  const issues: string[] = [];
+  const texts = [draft.body, ...draft.variants.map((variant) => variant.body)];
+
+  const draftTerms = new Set(significantTerms(`${draft.subject} ${draft.body}`));
+  const missing = metadata.keyPoints.filter((point) => !isCovered(point, draftTerms));
+  const coverage = (metadata.keyPoints.length - missing.length) / metadata.keyPoints.length;
+  missing.forEach((point) => issues.push(`Key point not covered: "${point}"`));
+
+  if (request && draft.variants.length !== request.variants) {
+    const plural = request.variants === 1 ? "variant" : "variants";
+    issues.push(`Expected exactly ${request.variants} ${plural}, received ${draft.variants.length}`);
+  }
+
+  if (lengthLimits && draft.subject.length > EMAIL_SUBJECT_MAX_LENGTH) {
+    issues.push(`Subject is ${draft.subject.length} characters; keep it under ${EMAIL_SUBJECT_MAX_LENGTH}`);
+  }
+  texts.forEach((text, index) => {
+    const words = wordCount(text);
+    if (lengthLimits && words > EMAIL_BODY_MAX_WORDS) {
+      const label = index === 0 ? "Body" : `Variant "${draft.variants[index - 1].label}"`;
+      issues.push(`${label} is ${words} words; keep it under ${EMAIL_BODY_MAX_WORDS}`);
+    }
+  });
+
+  const tone = request?.tone ?? metadata.tone ?? "";
+  if (/\bformal\b/i.test(tone)) {
+    const casual = Array.from(new Set(texts.flatMap((text) => text.match(CASUAL_PATTERN) ?? [])));
+    if (casual.length > 0) {
+      issues.push(`Casual wording does not fit the formal tone: ${casual.join(", ")}`);
+    }
+  }
+
+  const source = [
+    ...metadata.keyPoints,
+    metadata.additionalContext ?? "",
+    request?.additionalContext ?? "",
+  ]
+    .join(" ")
+    .toLowerCase();
+  const unsupported = new Set<string>();
+  texts.forEach((text) => {
+    for (const match of text.matchAll(COMMITMENT_PATTERN)) {
+      if (!source.includes(match[0].toLowerCase().slice(0, 5))) unsupported.add(match[0]);
+    }
+    for (const match of text.matchAll(AMOUNT_PATTERN)) {
+      if (!source.replace(/\s/g, "").includes(match[0].replace(/\s/g, ""))) unsupported.add(match[0]);
+    }
+  });
+  if (unsupported.size > 0) {
+    issues.push(`Commitments or figures not in the request: ${Array.from(unsupported).join(", ")}`);
+  }
+
+  return { coverage, issues };
+};
+
+/** The rejection returned to the specialist, so it can revise the draft and report again. */
+export const formatEmailDraftReview = ({ coverage, issues }: EmailDraftReview) =>
+  issues.length === 0
+    ? undefined
+    : `Draft review failed (key point coverage ${Math.round(coverage * 100)}%): ${issues.join("; ")}`;
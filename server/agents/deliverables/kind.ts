@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import type { z } from "zod";
+import type { DeliverablePayload } from "@/models/deliverable";
+
+export type DeliverableContext = {
+  runId: string;
+  /** The structured request the specialist was started with, when there is one. */
+  request?: unknown;
+  /** Set for deterministic template output, which skips checks aimed at model output such as length limits. */
+  fromTemplate?: boolean;
+};
+
+export type DeliverableSource = {
+  id: string;
+  title: string;
+  description?: string;
+  url?: string;
+  badge?: string;
+};
+
+/**
+ * Everything the runtime needs to know about one deliverable type. Specialists record their
+ * output through `report_result`; the store, chat route and UI look the kind up by `type`.
+ */
+export type DeliverableKind<T extends DeliverablePayload = DeliverablePayload> = {
+  type: T["type"];
+  /** Human label used in tool descriptions and reasoning steps, e.g. "email draft". */
+  label: string;
+  schema: z.ZodObject<z.ZodRawShape, z.UnknownKeysParam, z.ZodTypeAny, T>;
+  /** Fills defaults after validation so stored payloads have a stable shape. */
+  normalize: (deliverable: T) => T;
+  /** Identical keys within the store are served from cache instead of being recorded again. */
+  cacheKey: (deliverable: T, context: DeliverableContext) => string;
+  /** Optional semantic checks beyond the schema; returns a reason when the payload must be rejected. */
+  validate?: (deliverable: T, context: DeliverableContext) => string | undefined;
+  /** Short heading for lists such as the approvals inbox; defaults to the label. */
+  title?: (deliverable: T) => string;
+  /** One-line summary for the orchestrator's reasoning trace. */
+  describe: (deliverable: T) => string;
+  /** Citations the chat route should surface alongside the deliverable. */
+  sources?: (deliverable: T) => DeliverableSource[];
+};
+
+export const computeDeliverableKey = (payload: unknown) =>
+  createHash("sha256").update(JSON.stringify(payload ?? {})).digest("hex");
+
+export const defineDeliverableKind = <T extends DeliverablePayload>(kind: DeliverableKind<T>) => kind;
+
+/**
+ * Widens a kind for the registry. Kinds are invariant in their payload type, but the registry only
+ * hands a kind payloads that passed its own schema, so the widening is safe.
+ */
+export const eraseDeliverableKind = <T extends DeliverablePayload>(kind: DeliverableKind<T>) =>
+  kind as unknown as DeliverableKind;
@@ -0,0 +1,50 @@
+import type { DeliverablePayload } from "@/models/deliverable";
+import { emailDraftKind } from "@/server/agents/deliverables/email-draft";
+import { eraseDeliverableKind, type DeliverableContext, type DeliverableKind } from "@/server/agents/deliverables/kind";
+import { researchBriefKind } from "@/server/agents/deliverables/research-brief";
+
+const BUILT_IN_KINDS: DeliverableKind[] = [eraseDeliverableKind(emailDraftKind), eraseDeliverableKind(researchBriefKind)];
+
+const kinds = new Map<string, DeliverableKind>(BUILT_IN_KINDS.map((kind) => [kind.type, kind]));
+
+export const registerDeliverableKind = <T extends DeliverablePayload>(kind: DeliverableKind<T>) => {
+  kinds.set(kind.type, eraseDeliverableKind(kind));
+};
+
+export const getDeliverableKind = (type: string): DeliverableKind | undefined => kinds.get(type);
+
+export const listDeliverableKinds = (): DeliverableKind[] => Array.from(kinds.values());
+
+export const resetDeliverableKinds = () => {
+  kinds.clear();
+  BUILT_IN_KINDS.forEach((kind) => kinds.set(kind.type, kind));
+};
+
+export type DeliverableParseResult =
+  | { ok: true; kind: DeliverableKind; deliverable: DeliverablePayload }
+  | { ok: false; reason: string };
+
+/** Looks up the payload's kind, then validates, normalises and semantically checks it. */
+export const parseDeliverable = (payload: unknown, context: DeliverableContext): DeliverableParseResult => {
+  const type = payload && typeof payload === "object" ? (payload as { type?: unknown }).type : undefined;
+  const kind = typeof type === "string" ? kinds.get(type) : undefined;
+  if (!kind) {
+    return { ok: false, reason: `Unknown deliverable type "${String(type)}"` };
+  }
+
+  const parsed = kind.schema.safeParse(payload);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      reason: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+    };
+  }
+
+  const deliverable = kind.normalize(parsed.data);
+  const rejection = kind.validate?.(deliverable, context);
+  if (rejection) {
+    return { ok: false, reason: rejection };
+  }
+
+  return { ok: true, kind, deliverable };
+};
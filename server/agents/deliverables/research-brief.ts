@@ -0,0 +1,27 @@
+import { researchBriefDeliverableSchema, type ResearchBriefDeliverable } from "@/models/research";
+import { computeDeliverableKey, defineDeliverableKind } from "@/server/agents/deliverables/kind";
+import { getResearchSources } from "@/server/agents/store/research";
+
+export const researchBriefKind = defineDeliverableKind<ResearchBriefDeliverable>({
+  type: "research-brief",
+  label: "research brief",
+  schema: researchBriefDeliverableSchema,
+  normalize: (deliverable) => deliverable,
+  cacheKey: (deliverable, { runId }) =>
+    computeDeliverableKey({ runId, type: deliverable.type, metadata: deliverable.metadata }),
+  // Every cited URL must have come from search_web in the same run.
+  validate: ({ brief }, { runId }) => {
+    const known = new Set(getResearchSources(runId).map((source) => source.url));
+    const cited = [
+      ...brief.citations.map((citation) => citation.url),
+      ...brief.keyFindings.flatMap((finding) => finding.citations),
+    ];
+    const unknown = Array.from(new Set(cited.filter((url) => !known.has(url))));
+    return unknown.length > 0 ? `Citations not returned by search_web: ${unknown.join(", ")}` : undefined;
+  },
+  title: ({ brief }) => brief.title,
+  describe: ({ brief }) =>
+    `Compiled “${brief.title}” with ${brief.keyFindings.length} key findings from ${brief.citations.length} sources.`,
+  sources: ({ brief }) =>
+    brief.citations.map((citation) => ({ id: citation.url, title: citation.label, url: citation.url, badge: "Web source" })),
+});
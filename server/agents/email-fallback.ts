@@ -4,6 +4,7 @@
   type EmailDraftDeliverable,
   type EmailDraftVariant,
 } from "@/models/email";
+import { EMAIL_BODY_MAX_WORDS } from "@/server/agents/deliverables/email-review";
 import { createRuntimeContext, type EmailAgentRuntimeContext } from "@/server/agents/runtime";
 import { reportEmailDraft } from "@/server/agents/tools/report-result";
 
@@ -15,6 +16,13 @@ const normalizeSentence = (text: string) => {
   return `${capitalized}.`;
 };
 
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const truncateWords = (text: string, limit: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length <= limit ? text : `${words.slice(0, Math.max(limit, 0)).join(" ")}…`;
+};
+
 const chooseTone = (tone: string | undefined) => {
   const normalized = tone?.toLowerCase().trim();
   switch (normalized) {
@@ -32,6 +40,12 @@ const chooseTone = (tone: string | undefined) => {
   }
 };
 
+const TEMPLATE_TONES = ["formal", "friendly", "warm", "direct", "enthusiastic", "neutral"];
+
+/** The template tone an instruction such as "make it more formal" asks for, if any. */
+export const matchTemplateTone = (instruction: string) =>
+  TEMPLATE_TONES.find((tone) => new RegExp(`\\b${tone}\\b`, "i").test(instruction));
+
 const buildSubject = ({ recipient, keyPoints }: EmailDraftAgentInput) => {
   const focus = keyPoints[0] ?? "next steps";
   const cleaned = focus.replace(/^[^a-zA-Z0-9]+/, "").replace(/[.!?]+$/, "").trim();
@@ -61,10 +75,10 @@ const buildPrimaryBody = (input: EmailDraftAgentInput) => {
     ? "Let me know if anything needs adjustment so I can update immediately."
     : "Please let me know if anything needs refining or if you'd like to discuss details.";
 
-  return [
+  const compose = (opening: string) => [
     greetingLine,
     "",
-    `${intro} ${purpose}`.trim(),
+    opening.trim(),
     "",
     "Here are the talking points we'll highlight:",
     bullets,
@@ -76,6 +90,10 @@ const buildPrimaryBody = (input: EmailDraftAgentInput) => {
   ]
     .filter(Boolean)
     .join("\n");
+
+  // Long context is cut so it alone never pushes the body past the usual word limit.
+  const budget = EMAIL_BODY_MAX_WORDS - wordCount(compose(intro));
+  return compose(`${intro} ${truncateWords(purpose, budget)}`);
 };
 
 const buildVariantBodies = (input: EmailDraftAgentInput): EmailDraftVariant[] => {
@@ -158,10 +176,17 @@ export type EmailAgentRunResult = {
 export const runEmailDraftFallback = async (
   input: EmailDraftAgentInput,
   runtimeOverrides: Partial<Omit<EmailAgentRuntimeContext, "payload">> = {},
+  { requireApproval = true }: { requireApproval?: boolean } = {},
 ): Promise<EmailAgentRunResult> => {
   const context = createRuntimeContext({ payload: input, ...runtimeOverrides });
   const deliverable = buildDeliverable(input, context);
-  const outcome = reportEmailDraft(deliverable, { runId: context.runId });
+  const outcome = reportEmailDraft(deliverable, {
+    runId: context.runId,
+    parentRunId: context.parentRunId,
+    request: input,
+    fromTemplate: true,
+    requireApproval,
+  });
   return { ...outcome, context };
 };
 
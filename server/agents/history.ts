@@ -0,0 +1,181 @@
+import type { AgentInputItem } from "@openai/agents";
+import type { HistoryCompaction } from "@/models/thread";
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 12_000;
+export const DEFAULT_RECENT_TURNS = 3;
+
+const SUMMARY_PREFIX = "Summary of earlier conversation";
+const SUMMARY_CHAR_LIMIT = 4_000;
+const CHARS_PER_TOKEN = 4;
+
+export type HistoryBudget = {
+  /** Compaction kicks in once the estimated history exceeds this many tokens. */
+  maxTokens: number;
+  /** The most recent turns are always replayed verbatim, even when over budget. */
+  keepRecentTurns: number;
+};
+
+export type CompactionResult = {
+  history: AgentInputItem[];
+  tokens: number;
+  compaction?: HistoryCompaction;
+};
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const resolveHistoryBudget = (): HistoryBudget => ({
+  maxTokens: readPositiveInt(process.env.SIDEKICK_HISTORY_TOKEN_BUDGET, DEFAULT_HISTORY_TOKEN_BUDGET),
+  keepRecentTurns: readPositiveInt(process.env.SIDEKICK_HISTORY_RECENT_TURNS, DEFAULT_RECENT_TURNS),
+});
+
+/** Roughly four characters per token; close enough for budgeting without shipping a tokenizer. */
+export const estimateTokens = (item: AgentInputItem) => Math.ceil(JSON.stringify(item).length / CHARS_PER_TOKEN);
+
+export const estimateHistoryTokens = (items: AgentInputItem[]) =>
+  items.reduce((total, item) => total + estimateTokens(item), 0);
+
+type LooseItem = {
+  type?: string;
+  role?: string;
+  content?: unknown;
+  name?: string;
+  callId?: string;
+  output?: unknown;
+};
+
+const clip = (text: string, limit: number) => {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > limit ? `${singleLine.slice(0, limit - 1)}…` : singleLine;
+};
+
+const contentText = (content: unknown) => {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (part?.type === "input_text" || part?.type === "output_text" ? String(part.text ?? "") : ""))
+    .join("");
+};
+
+const outputText = (output: unknown) => {
+  if (typeof output === "string") return output;
+  const text = (output as { text?: unknown } | undefined)?.text;
+  return typeof text === "string" ? text : JSON.stringify(output ?? "");
+};
+
+const isSummaryItem = (item: AgentInputItem | undefined) => {
+  const candidate = item as LooseItem | undefined;
+  return candidate?.role === "system" && typeof candidate.content === "string" && candidate.content.startsWith(SUMMARY_PREFIX);
+};
+
+const DELIVERABLE_KEY_PATTERNS = [/"cacheKey"\s*:\s*"([^"]+)"/g, /Deliverable (?:recorded|reused from cache) \(([^)]+)\)/g];
+
+const extractDeliverableKeys = (text: string) =>
+  DELIVERABLE_KEY_PATTERNS.flatMap((pattern) => Array.from(text.matchAll(pattern), (match) => match[1]));
+
+/** Groups items into turns, each starting at a user message. */
+const splitTurns = (items: AgentInputItem[]) =>
+  items.reduce<AgentInputItem[][]>((turns, item) => {
+    if ((item as LooseItem).role === "user" || turns.length === 0) {
+      turns.push([item]);
+    } else {
+      turns[turns.length - 1].push(item);
+    }
+    return turns;
+  }, []);
+
+const summarizeItems = (items: AgentInputItem[]) => {
+  const lines: string[] = [];
+  const toolCallIds: string[] = [];
+  const deliverableKeys = new Set<string>();
+
+  items.forEach((raw) => {
+    const item = raw as LooseItem;
+    if (item.role === "user") {
+      const text = contentText(item.content);
+      if (text) lines.push(`- User: ${clip(text, 200)}`);
+    } else if (item.role === "assistant") {
+      const text = contentText(item.content);
+      if (text) lines.push(`- Assistant: ${clip(text, 200)}`);
+    } else if (item.type === "function_call_result") {
+      const text = outputText(item.output);
+      if (item.callId) toolCallIds.push(item.callId);
+      lines.push(`- Tool ${item.name ?? "call"} (${item.callId ?? "unknown"}): ${clip(text, 160)}`);
+      extractDeliverableKeys(text).forEach((key) => deliverableKeys.add(key));
+    }
+  });
+
+  deliverableKeys.forEach((key) => lines.push(`- Deliverable ${key}`));
+  return { lines, toolCallIds, deliverableKeys: Array.from(deliverableKeys) };
+};
+
+/** Keeps the summary bounded by dropping its oldest narrative lines; deliverable references survive. */
+const fitSummary = (lines: string[]) => {
+  const kept = [...lines];
+  const size = () => kept.reduce((total, line) => total + line.length + 1, 0);
+  while (size() > SUMMARY_CHAR_LIMIT) {
+    const index = kept.findIndex((line) => !line.startsWith("- Deliverable "));
+    if (index === -1) break;
+    kept.splice(index, 1);
+  }
+  return kept;
+};
+
+/**
+ * Folds the oldest turns into a single system summary once the history exceeds the budget.
+ * Whole turns are dropped so tool calls stay paired with their results; tool call ids and
+ * deliverable cache keys from the dropped turns are kept in the summary and the returned record.
+ */
+export const compactHistory = (
+  items: AgentInputItem[],
+  { maxTokens, keepRecentTurns }: HistoryBudget = resolveHistoryBudget(),
+): CompactionResult => {
+  const tokensBefore = estimateHistoryTokens(items);
+  if (tokensBefore <= maxTokens) {
+    return { history: items, tokens: tokensBefore };
+  }
+
+  const previousSummary = isSummaryItem(items[0]) ? String((items[0] as LooseItem).content) : undefined;
+  const turns = splitTurns(previousSummary ? items.slice(1) : items);
+  const droppable = turns.length - keepRecentTurns;
+  if (droppable <= 0) {
+    return { history: items, tokens: tokensBefore };
+  }
+
+  const reserved = Math.ceil(SUMMARY_CHAR_LIMIT / CHARS_PER_TOKEN);
+  let dropped = 0;
+  let remainingTokens = estimateHistoryTokens(turns.flat());
+  while (dropped < droppable && (dropped === 0 || remainingTokens + reserved > maxTokens)) {
+    remainingTokens -= estimateHistoryTokens(turns[dropped]);
+    dropped += 1;
+  }
+
+  const droppedItems = turns.slice(0, dropped).flat();
+  const summary = summarizeItems(droppedItems);
+  const previousLines = previousSummary ? previousSummary.split("\n").slice(1) : [];
+  const summaryItem: AgentInputItem = {
+    role: "system",
+    content: [
+      `${SUMMARY_PREFIX} (older turns were compacted; tool results and deliverables are referenced by id):`,
+      ...fitSummary([...previousLines, ...summary.lines]),
+    ].join("\n"),
+  };
+
+  const history = [summaryItem, ...turns.slice(dropped).flat()];
+  const tokensAfter = estimateHistoryTokens(history);
+  return {
+    history,
+    tokens: tokensAfter,
+    compaction: {
+      compactedAt: new Date().toISOString(),
+      turns: dropped,
+      items: droppedItems.length,
+      tokensBefore,
+      tokensAfter,
+      toolCallIds: summary.toolCallIds,
+      deliverableKeys: summary.deliverableKeys,
+    },
+  };
+};
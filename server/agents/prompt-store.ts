@@ -0,0 +1,154 @@
+import {
+  AGENT_PROMPT_VARIABLES,
+  DEFAULT_PROMPT_VERSION,
+  type AgentPromptVersion,
+  type PromptVersionCreate,
+  type ResolvedAgentPrompt,
+} from "@/models/prompts";
+import type { AgentId } from "@/models/settings";
+import { DEFAULT_PROMPT_TEMPLATES, listTemplateVariables, renderPromptTemplate } from "@/server/agents/prompts";
+import { recordRunAgent } from "@/server/runs/store";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+type PromptSnapshot = {
+  versions: AgentPromptVersion[];
+  /** Active version per agent; missing entries run the built-in template. */
+  active: Partial<Record<AgentId, number>>;
+};
+
+export type PromptRepository = {
+  read: () => PromptSnapshot;
+  write: (snapshot: PromptSnapshot) => void;
+  clear: () => void;
+};
+
+const emptySnapshot = (): PromptSnapshot => ({ versions: [], active: {} });
+
+export const createMemoryPromptRepository = (seed: PromptSnapshot = emptySnapshot()): PromptRepository => {
+  let snapshot = seed;
+  return {
+    read: () => snapshot,
+    write: (next) => {
+      snapshot = next;
+    },
+    clear: () => {
+      snapshot = emptySnapshot();
+    },
+  };
+};
+
+export const createFilePromptRepository = (filePath: string): PromptRepository => {
+  let memory: PromptRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryPromptRepository(readJsonFile<PromptSnapshot>(filePath, emptySnapshot()));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    try {
+      writeJsonFile(filePath, load().read());
+    } catch (error) {
+      console.error("Failed to persist prompt repository", error);
+    }
+  };
+
+  return {
+    read: () => load().read(),
+    write: (snapshot) => {
+      load().write(snapshot);
+      persist();
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: PromptRepository | undefined;
+
+export const getPromptRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryPromptRepository()
+      : createFilePromptRepository(resolveDataPath("prompts.json"));
+  }
+  return repository;
+};
+
+export const setPromptRepository = (next: PromptRepository | undefined) => {
+  repository = next;
+};
+
+const toLabel = (agentId: AgentId, version: number) =>
+  version === DEFAULT_PROMPT_VERSION ? `${agentId}@default` : `${agentId}@v${version}`;
+
+export const listPromptVersions = (agentId: AgentId) =>
+  getPromptRepository()
+    .read()
+    .versions.filter((version) => version.agentId === agentId)
+    .sort((a, b) => a.version - b.version);
+
+export const resolveAgentPrompt = (agentId: AgentId): ResolvedAgentPrompt => {
+  const activeVersion = getPromptRepository().read().active[agentId] ?? DEFAULT_PROMPT_VERSION;
+  const override = listPromptVersions(agentId).find((version) => version.version === activeVersion);
+  const version = override?.version ?? DEFAULT_PROMPT_VERSION;
+  return {
+    agentId,
+    version,
+    label: toLabel(agentId, version),
+    template: override?.template ?? DEFAULT_PROMPT_TEMPLATES[agentId],
+  };
+};
+
+export type PromptVersionResult = { ok: true; prompt: ResolvedAgentPrompt } | { ok: false; reason: string };
+
+/** Stores the template as the agent's next version and makes it active. */
+export const createPromptVersion = (agentId: AgentId, { template, note }: PromptVersionCreate): PromptVersionResult => {
+  const allowed = AGENT_PROMPT_VARIABLES[agentId];
+  const unknown = listTemplateVariables(template).filter((name) => !allowed.includes(name));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      reason: `Unknown template variables: ${unknown.join(", ")} (available: ${allowed.join(", ") || "none"})`,
+    };
+  }
+
+  const snapshot = getPromptRepository().read();
+  const version = Math.max(DEFAULT_PROMPT_VERSION, ...listPromptVersions(agentId).map((entry) => entry.version)) + 1;
+  getPromptRepository().write({
+    versions: [...snapshot.versions, { agentId, version, template, note, createdAt: new Date().toISOString() }],
+    active: { ...snapshot.active, [agentId]: version },
+  });
+  return { ok: true, prompt: resolveAgentPrompt(agentId) };
+};
+
+/** Switches the agent to an existing version; version `0` restores the built-in template. */
+export const activatePromptVersion = (agentId: AgentId, version: number): PromptVersionResult => {
+  if (version !== DEFAULT_PROMPT_VERSION && !listPromptVersions(agentId).some((entry) => entry.version === version)) {
+    return { ok: false, reason: `Version ${version} does not exist for ${agentId}` };
+  }
+
+  const snapshot = getPromptRepository().read();
+  getPromptRepository().write({ ...snapshot, active: { ...snapshot.active, [agentId]: version } });
+  return { ok: true, prompt: resolveAgentPrompt(agentId) };
+};
+
+/**
+ * Renders the agent's active template and records on the run which model and prompt version
+ * produced it.
+ */
+export const renderAgentInstructions = (
+  agentId: AgentId,
+  { runId, model }: { runId: string; model: string | object },
+  variables: Record<string, string | number> = {},
+) => {
+  const prompt = resolveAgentPrompt(agentId);
+  recordRunAgent(runId, agentId, { model: typeof model === "string" ? model : "custom", promptVersion: prompt.label });
+  return renderPromptTemplate(prompt.template, variables);
+};
+
+export const resetPrompts = () => getPromptRepository().clear();
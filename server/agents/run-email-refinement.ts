@@ -0,0 +1,214 @@
+import { randomUUID } from "crypto";
+import {
+  emailRefinementRequestSchema,
+  type EmailDraftAgentInput,
+  type EmailDraftDeliverable,
+  type EmailDraftRevision,
+  type EmailRefinementRequest,
+} from "@/models/email";
+import type { RedactedSpan } from "@/models/guardrails";
+import { matchTemplateTone, runEmailDraftFallback } from "@/server/agents/email-fallback";
+import { runEmailDraftSpecialist } from "@/server/agents/run-email-specialist";
+import { createStepTracker } from "@/server/agents/runtime";
+import { getDeliverableRunId } from "@/server/agents/store/deliverables";
+import { findEmailDraft, getRevision, recordRevision } from "@/server/agents/store/revisions";
+import {
+  describeGuardrailFindings,
+  evaluateGuardrails,
+  summarizeGuardrails,
+  toRedactedSpans,
+} from "@/server/guardrails/engine";
+import { getRedactions, saveRedactions } from "@/server/guardrails/redactions";
+import { isModelProviderConfigured } from "@/server/providers/models";
+import { beginRun, finishRun } from "@/server/runs/store";
+import { getRuntimeSettings } from "@/server/settings/store";
+
+const MAX_CONTEXT_LENGTH = 2000;
+
+export type EmailRefinementInput = {
+  /** Cache key of the draft to revise. */
+  cacheKey: string;
+  payload: unknown;
+  threadId?: string;
+  /** Set when refining from a chat tool call, so the revision surfaces in the calling run. */
+  parentRunId?: string;
+};
+
+export type EmailRefinementResponse =
+  | {
+      ok: true;
+      deliverable: EmailDraftDeliverable;
+      cacheKey: string;
+      parentKey: string;
+      revision: EmailDraftRevision;
+      runId: string;
+      providerConfigured: boolean;
+      fallbackUsed?: boolean;
+      redactions: RedactedSpan[];
+    }
+  | {
+      ok: false;
+      reason: string;
+      code: "not_found" | "invalid" | "failed";
+      providerConfigured: boolean;
+    };
+
+/**
+ * The drafting request a revision of `parent` is checked against. `note` is appended to the
+ * additional context so the review accepts commitments the operator or reviewer asked for.
+ */
+export const buildRevisionRequest = ({ draft, metadata }: EmailDraftDeliverable, note: string): EmailDraftAgentInput => {
+  const context = [metadata.additionalContext, note].filter(Boolean).join("\n\n");
+  return {
+    recipient: metadata.recipient,
+    tone: metadata.tone ?? "neutral",
+    keyPoints: metadata.keyPoints,
+    // Keep the note when the combined context would exceed the request limit.
+    additionalContext: context.length > MAX_CONTEXT_LENGTH ? note.slice(0, MAX_CONTEXT_LENGTH) : context,
+    variants: Math.min(Math.max(draft.variants.length, 1), 3),
+  };
+};
+
+const buildRefinementMessage = ({ draft }: EmailDraftDeliverable, { instruction, variant }: EmailRefinementRequest) => {
+  const lines = [
+    "Revise the existing email draft below. Follow the operator's instruction and keep everything else as close to the original as possible.",
+    `Instruction: ${instruction}`,
+  ];
+  if (variant) {
+    lines.push(
+      `Apply it to variant ${variant} ("${draft.variants[variant - 1].label}") only; keep the subject, body and other variants unchanged.`,
+    );
+  }
+
+  lines.push("Current draft:", `Subject: ${draft.subject}`, "Body:", draft.body);
+  draft.variants.forEach((entry, index) => lines.push(`Variant ${index + 1} (${entry.label}):`, entry.body));
+  lines.push("Report the complete revised draft, including every variant, with report_result.");
+  return lines.join("\n");
+};
+
+/**
+ * Produces a new revision of a stored email draft from an instruction such as "make variant 2
+ * shorter". The revision is recorded as a new deliverable and linked to the draft it came from.
+ * Without a model provider the deterministic template can only change the tone.
+ */
+export const refineEmailDraft = async ({
+  cacheKey: parentKey,
+  payload,
+  threadId,
+  parentRunId,
+}: EmailRefinementInput): Promise<EmailRefinementResponse> => {
+  const providerConfigured = isModelProviderConfigured();
+  const parent = findEmailDraft(parentKey);
+  if (!parent) {
+    return { ok: false, reason: "Email draft not found", code: "not_found", providerConfigured };
+  }
+
+  const runId = randomUUID();
+  beginRun({
+    runId,
+    name: "Email refinement",
+    workflowId: "email-draft",
+    threadId,
+    message: `Refining draft ${parentKey.slice(0, 10)}`,
+  });
+  const tracker = createStepTracker(runId);
+  const fail = (reason: string, code: "invalid" | "failed", summary = reason) => {
+    finishRun(runId, "error", summary);
+    return { ok: false as const, reason, code, providerConfigured };
+  };
+
+  const parsed = emailRefinementRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    const reason = parsed.error.errors.map((error) => error.message).join("; ");
+    return fail(reason, "invalid", `Rejected invalid payload: ${reason}`);
+  }
+  const { variant } = parsed.data;
+  if (variant && variant > parent.draft.variants.length) {
+    const count = parent.draft.variants.length;
+    return fail(`Variant ${variant} does not exist; the draft has ${count} variant${count === 1 ? "" : "s"}`, "invalid");
+  }
+
+  // Seeded with the parent's redactions so placeholders already in the draft keep their numbers.
+  const guardSpan = tracker.start("guardrail", "Input guardrails", { message: "Checking the instruction" });
+  const guard = evaluateGuardrails(parsed.data, getRuntimeSettings().guardrails.input.email, getRedactions(parentKey));
+  tracker.end(guardSpan, guard.outcome === "block" ? "error" : "done", summarizeGuardrails(guard));
+  if (guard.outcome === "block") {
+    const flagged = describeGuardrailFindings(guard.findings, "block");
+    return fail(
+      `Instruction was blocked by the input guardrails (${flagged}). Please remove the flagged content before continuing.`,
+      "invalid",
+      "Blocked by input guardrails",
+    );
+  }
+  const refinement = guard.value;
+  const request = buildRevisionRequest(parent, `Revision instruction: ${refinement.instruction}`);
+
+  const complete = (result: { deliverable: EmailDraftDeliverable; cacheKey: string; runId: string }, fallbackUsed?: boolean) => {
+    const revision = recordRevision({
+      cacheKey: result.cacheKey,
+      runId: result.runId,
+      deliverable: result.deliverable,
+      parent: {
+        cacheKey: parentKey,
+        runId: getDeliverableRunId(parentKey) ?? getRevision(parentKey)?.runId ?? runId,
+        deliverable: parent,
+      },
+      instruction: refinement.instruction,
+    });
+    saveRedactions(result.cacheKey, guard.redactions);
+    finishRun(runId, "done", `Revision recorded (${result.cacheKey.slice(0, 10)})`);
+    return {
+      ok: true as const,
+      deliverable: result.deliverable,
+      cacheKey: result.cacheKey,
+      parentKey,
+      revision,
+      runId,
+      providerConfigured,
+      ...(fallbackUsed ? { fallbackUsed } : {}),
+      redactions: toRedactedSpans(guard.redactions),
+    };
+  };
+
+  const completeWithFallback = async (message: string) => {
+    const fallbackSpan = tracker.start("fallback", "Deterministic template", { message });
+    const tone = matchTemplateTone(refinement.instruction);
+    if (!tone) {
+      const reason =
+        "The deterministic template can only change the tone (formal, friendly, warm, direct, enthusiastic or neutral). Configure a model provider for other refinements.";
+      tracker.end(fallbackSpan, "error", reason);
+      return fail(reason, "failed");
+    }
+
+    try {
+      const { additionalContext } = parent.metadata;
+      const fallback = await runEmailDraftFallback(
+        { ...request, tone, additionalContext: additionalContext ?? undefined },
+        { runId, threadId, parentRunId },
+      );
+      tracker.end(fallbackSpan, "done", `Template rebuilt the draft in a ${tone} tone`);
+      return complete({ ...fallback, runId }, true);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      tracker.end(fallbackSpan, "error", reason);
+      return fail(reason, "failed");
+    }
+  };
+
+  if (!providerConfigured) {
+    return completeWithFallback("Model provider not configured; using deterministic template");
+  }
+
+  try {
+    const result = await runEmailDraftSpecialist(request, {
+      threadId,
+      parentRunId: parentRunId ?? runId,
+      message: buildRefinementMessage(parent, refinement),
+    });
+    return complete(result);
+  } catch (error) {
+    console.error("Email refinement failed", error);
+    const message = error instanceof Error ? error.message : String(error);
+    return completeWithFallback(`Refinement failed (${message}); falling back to deterministic template`);
+  }
+};
@@ -1,37 +1,27 @@
-﻿import { Runner, type AgentInputItem, OpenAIProvider } from "@openai/agents";
-import type { EmailDraftAgentInput } from "@/models/email";
-import { emailDraftAgent } from "@/server/agents/agents/email";
+﻿import type { AgentInputItem } from "@openai/agents";
+import type { EmailDraftAgentInput, EmailDraftDeliverable } from "@/models/email";
+import { createAgentRunner } from "@/server/agents/runner";
 import { createRuntimeContext } from "@/server/agents/runtime";
-import { getEmailDeliverable, getRunOutcome } from "@/server/agents/store/deliverables";
+import { getDeliverable, getRunOutcome } from "@/server/agents/store/deliverables";
+import { beginRun, finishRun } from "@/server/runs/store";
 
 export type EmailSpecialistOptions = {
   threadId?: string;
+  parentRunId?: string;
+  /** Replaces the default kickoff message, e.g. with a draft to revise and the operator's instruction. */
+  message?: string;
 };
 
 export const runEmailDraftSpecialist = async (
   input: EmailDraftAgentInput,
   options: EmailSpecialistOptions = {},
 ) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-
-  const context = createRuntimeContext({ payload: input, threadId: options.threadId });
-  const provider = new OpenAIProvider({ apiKey });
-  const runner = new Runner({
-    modelProvider: provider,
-    model: "gpt-5",
-    modelSettings: {
-      reasoning: { effort: "medium" },
-      text: { verbosity: "low" },
-    },
-    traceMetadata: {
-      workflow_id: context.workflowId,
-      run_id: context.runId,
-      intent: context.intent,
-    },
+  const context = createRuntimeContext({
+    payload: input,
+    threadId: options.threadId,
+    parentRunId: options.parentRunId,
   });
+  const { runner, agents } = createAgentRunner(context);
 
   const conversation: AgentInputItem[] = [
     {
@@ -39,24 +29,42 @@ export const runEmailDraftSpecialist = async (
       content: [
         {
           type: "input_text",
-          text: "Please produce the email draft now using the provided workflow context.",
+          text: options.message ?? "Please produce the email draft now using the provided workflow context.",
         },
       ],
     },
   ];
 
-  await runner.run(emailDraftAgent, conversation, { context });
+  beginRun({
+    runId: context.runId,
+    name: "Email draft specialist",
+    workflowId: context.workflowId,
+    threadId: context.threadId,
+    message: `Drafting email for ${input.recipient}`,
+  });
+
+  try {
+    await runner.run(agents.email, conversation, { context });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    finishRun(context.runId, "error", `Specialist run failed: ${message}`);
+    throw error;
+  }
 
   const outcome = getRunOutcome(context.runId);
   if (!outcome) {
+    finishRun(context.runId, "error", "Specialist did not record a deliverable");
     throw new Error("Email specialist did not record a deliverable");
   }
 
-  const deliverable = getEmailDeliverable(outcome.cacheKey);
+  const deliverable = getDeliverable<EmailDraftDeliverable>(outcome.cacheKey, "email-draft");
   if (!deliverable) {
+    finishRun(context.runId, "error", "Deliverable was not stored");
     throw new Error("Deliverable was not stored");
   }
 
+  finishRun(context.runId, "done", `Draft recorded (${outcome.cacheKey.slice(0, 10)})`);
+
   return {
     deliverable,
     identicalToExisting: outcome.identicalToExisting,
@@ -1,11 +1,22 @@
-﻿import { Runner, type AgentInputItem, OpenAIProvider } from "@openai/agents";
+﻿import { randomUUID } from "crypto";
+import type { AgentInputItem } from "@openai/agents";
 import { emailDraftAgentInputSchema, type EmailDraftAgentInput, type EmailDraftDeliverable } from "@/models/email";
-import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
+import type { RedactedSpan } from "@/models/guardrails";
 import { runEmailDraftFallback } from "@/server/agents/email-fallback";
-import { createRuntimeContext } from "@/server/agents/runtime";
-import { getEmailDeliverable, getRunOutcome } from "@/server/agents/store/deliverables";
-
-const SENSITIVE_PATTERNS = [/ssn/i, /password/i, /credit\s*card/i];
+import { createAgentRunner } from "@/server/agents/runner";
+import { createRuntimeContext, createStepTracker } from "@/server/agents/runtime";
+import { listRunDeliverables } from "@/server/agents/store/deliverables";
+import {
+  describeGuardrailFindings,
+  evaluateGuardrails,
+  summarizeGuardrails,
+  toRedactedSpans,
+  type GuardrailEvaluation,
+} from "@/server/guardrails/engine";
+import { saveRedactions } from "@/server/guardrails/redactions";
+import { isModelProviderConfigured } from "@/server/providers/models";
+import { beginRun, finishRun } from "@/server/runs/store";
+import { getRuntimeSettings } from "@/server/settings/store";
 
 export type EmailAgentRunnerInput = {
   payload: unknown;
@@ -21,6 +32,8 @@ export type EmailAgentRunnerResponse =
       runId: string;
       providerConfigured: boolean;
       fallbackUsed?: boolean;
+      /** Spans masked before the request reached the model or template; originals stay on the server. */
+      redactions: RedactedSpan[];
     }
   | {
       ok: false;
@@ -29,23 +42,22 @@ export type EmailAgentRunnerResponse =
     };
 
 type GuardrailResult =
-  | { ok: true }
-  | { ok: false; reason: string };
+  | { ok: true; input: EmailDraftAgentInput; evaluation: GuardrailEvaluation<EmailDraftAgentInput> }
+  | { ok: false; reason: string; evaluation: GuardrailEvaluation<EmailDraftAgentInput> };
 
+/** Applies the email entry point's input policy; redacted spans never reach the model or the template. */
 const runGuardrails = (input: EmailDraftAgentInput): GuardrailResult => {
-  const joined = [input.recipient, input.tone, input.additionalContext, ...input.keyPoints]
-    .filter(Boolean)
-    .join(" \n");
-
-  const flagged = SENSITIVE_PATTERNS.find((pattern) => pattern.test(joined));
-  if (flagged) {
+  const evaluation = evaluateGuardrails(input, getRuntimeSettings().guardrails.input.email);
+  if (evaluation.outcome === "block") {
+    const flagged = describeGuardrailFindings(evaluation.findings, "block");
     return {
       ok: false,
-      reason: "Request appears to contain sensitive information. Please remove it before continuing.",
+      reason: `Request was blocked by the input guardrails (${flagged}). Please remove the flagged content before continuing.`,
+      evaluation,
     };
   }
 
-  return { ok: true };
+  return { ok: true, input: evaluation.value, evaluation };
 };
 
 const buildOrchestratorPrompt = (input: EmailDraftAgentInput) => {
@@ -68,28 +80,11 @@ const buildOrchestratorPrompt = (input: EmailDraftAgentInput) => {
 
 const runViaOrchestrator = async (
   input: EmailDraftAgentInput,
+  runId: string,
   threadId: string | undefined,
 ) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing OPENAI_API_KEY");
-  }
-
-  const context = createRuntimeContext({ payload: input, threadId });
-  const provider = new OpenAIProvider({ apiKey });
-  const runner = new Runner({
-    modelProvider: provider,
-    model: 'gpt-5',
-    modelSettings: {
-      reasoning: { effort: 'low' },
-      text: { verbosity: 'low' },
-    },
-    traceMetadata: {
-      workflow_id: context.workflowId,
-      run_id: context.runId,
-      intent: context.intent,
-    },
-  });
+  const context = createRuntimeContext({ payload: input, runId, threadId });
+  const { runner, agents } = createAgentRunner(context);
 
   const conversation: AgentInputItem[] = [
     {
@@ -103,22 +98,18 @@ const runViaOrchestrator = async (
     },
   ];
 
-  await runner.run(orchestratorAgent, conversation, { context });
+  await runner.run(agents.orchestrator, conversation, { context });
 
-  const outcome = getRunOutcome(context.runId);
-  if (!outcome) {
+  // The orchestrator delegates to the drafting specialist, which records under its own run linked to this one.
+  const record = listRunDeliverables(context.runId).find((candidate) => candidate.deliverable.type === "email-draft");
+  if (!record) {
     throw new Error("Email agent did not record a deliverable");
   }
 
-  const deliverable = getEmailDeliverable(outcome.cacheKey);
-  if (!deliverable) {
-    throw new Error("Deliverable missing from cache");
-  }
-
   return {
-    deliverable,
-    identicalToExisting: outcome.identicalToExisting,
-    cacheKey: outcome.cacheKey,
+    deliverable: record.deliverable as EmailDraftDeliverable,
+    identicalToExisting: record.identicalToExisting,
+    cacheKey: record.cacheKey,
     runId: context.runId,
   };
 };
@@ -126,37 +117,74 @@ const runViaOrchestrator = async (
 export const runEmailAgentFromPayload = async (
   { payload, threadId }: EmailAgentRunnerInput,
 ): Promise<EmailAgentRunnerResponse> => {
-  const parsed = emailDraftAgentInputSchema.safeParse(payload);
-  const providerConfigured = Boolean(process.env.OPENAI_API_KEY);
+  const providerConfigured = isModelProviderConfigured();
+  const runId = randomUUID();
+  beginRun({
+    runId,
+    name: "Email draft",
+    workflowId: "email-draft",
+    threadId,
+    message: "Received email draft request",
+  });
+  const tracker = createStepTracker(runId);
 
+  const parsed = emailDraftAgentInputSchema.safeParse(payload);
   if (!parsed.success) {
+    const reason = parsed.error.errors.map((error) => error.message).join("; ");
+    finishRun(runId, "error", `Rejected invalid payload: ${reason}`);
     return {
       ok: false,
-      reason: parsed.error.errors.map((error) => error.message).join("; "),
+      reason,
       providerConfigured,
     };
   }
 
+  const guardSpan = tracker.start("guardrail", "Input guardrails", { message: "Checking for sensitive content" });
   const guard = runGuardrails(parsed.data);
   if (!guard.ok) {
-    return { ...guard, providerConfigured };
+    tracker.end(guardSpan, "error", summarizeGuardrails(guard.evaluation));
+    finishRun(runId, "error", "Blocked by input guardrails");
+    return { ok: false, reason: guard.reason, providerConfigured };
   }
-
-  if (!providerConfigured) {
-    const fallback = await runEmailDraftFallback(parsed.data, { threadId });
+  tracker.end(guardSpan, "done", summarizeGuardrails(guard.evaluation));
+  const input = guard.input;
+  const redactions = toRedactedSpans(guard.evaluation.redactions);
+
+  const completeWithFallback = async (message: string) => {
+    const fallbackSpan = tracker.start("fallback", "Deterministic template", { message });
+    let fallback: Awaited<ReturnType<typeof runEmailDraftFallback>>;
+    try {
+      fallback = await runEmailDraftFallback(input, { runId, threadId });
+    } catch (error) {
+      // The template can still trip an output guardrail that is stricter than the input policy.
+      const reason = error instanceof Error ? error.message : String(error);
+      tracker.end(fallbackSpan, "error", reason);
+      finishRun(runId, "error", reason);
+      return { ok: false as const, reason, providerConfigured };
+    }
+    tracker.end(fallbackSpan, "done", `Template produced ${fallback.deliverable.draft.variants.length} variants`);
+    saveRedactions(fallback.cacheKey, guard.evaluation.redactions);
+    finishRun(runId, "done", `Draft recorded from template (${fallback.cacheKey.slice(0, 10)})`);
     return {
-      ok: true,
+      ok: true as const,
       deliverable: fallback.deliverable,
       identicalToExisting: fallback.identicalToExisting,
       cacheKey: fallback.cacheKey,
-      runId: fallback.context.runId,
+      runId,
       providerConfigured,
       fallbackUsed: true,
+      redactions,
     };
+  };
+
+  if (!providerConfigured) {
+    return completeWithFallback("Model provider not configured; using deterministic template");
   }
 
   try {
-    const result = await runViaOrchestrator(parsed.data, threadId);
+    const result = await runViaOrchestrator(input, runId, threadId);
+    finishRun(runId, "done", `Draft recorded (${result.cacheKey.slice(0, 10)})`);
+    saveRedactions(result.cacheKey, guard.evaluation.redactions);
     return {
       ok: true,
       deliverable: result.deliverable,
@@ -164,24 +192,11 @@ export const runEmailAgentFromPayload = async (
       cacheKey: result.cacheKey,
       runId: result.runId,
       providerConfigured,
+      redactions,
     };
   } catch (error) {
     console.error("Email agent orchestration failed", error);
-    const fallback = await runEmailDraftFallback(parsed.data, { threadId });
-    return {
-      ok: true,
-      deliverable: fallback.deliverable,
-      identicalToExisting: fallback.identicalToExisting,
-      cacheKey: fallback.cacheKey,
-      runId: fallback.context.runId,
-      providerConfigured,
-      fallbackUsed: true,
-    };
+    const message = error instanceof Error ? error.message : String(error);
+    return completeWithFallback(`Orchestration failed (${message}); falling back to deterministic template`);
   }
-};
-
-
-
-
-
-
+};
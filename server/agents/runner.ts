@@ -0,0 +1,72 @@
+import { Runner, type Agent } from "@openai/agents";
+import { AGENT_IDS, type AgentId, type RuntimeSettings } from "@/models/settings";
+import { emailDraftAgent } from "@/server/agents/agents/email";
+import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
+import { researchAgent } from "@/server/agents/agents/research";
+import { createStepTracker, traceRunner, type EmailAgentRuntimeContext } from "@/server/agents/runtime";
+import { getModelProvider } from "@/server/providers/models";
+import { getRuntimeSettings } from "@/server/settings/store";
+
+// Resolved lazily: the orchestrator's tools import this module, so the agents are not yet
+// initialised while it loads.
+const agentsById = (): Record<AgentId, Agent<EmailAgentRuntimeContext>> => ({
+  orchestrator: orchestratorAgent,
+  email: emailDraftAgent,
+  research: researchAgent,
+});
+
+/**
+ * Copies of the agents with their configured model and settings, for a single run. The shared
+ * definitions are never modified, so concurrent runs with different settings do not interfere;
+ * handoffs are pointed at the configured copies so the settings hold across a handoff.
+ */
+export const configureAgents = (settings: RuntimeSettings): Record<AgentId, Agent<EmailAgentRuntimeContext>> => {
+  const shared = agentsById();
+  const configured = {} as Record<AgentId, Agent<EmailAgentRuntimeContext>>;
+  // Specialists first, so the orchestrator's handoffs can be swapped for their copies.
+  [...AGENT_IDS].reverse().forEach((agentId) => {
+    const agent = shared[agentId];
+    const { model, reasoningEffort, verbosity } = settings.agents[agentId];
+    configured[agentId] = agent.clone({
+      model,
+      modelSettings: {
+        ...agent.modelSettings,
+        reasoning: { effort: reasoningEffort },
+        text: { verbosity },
+      },
+      handoffs: agent.handoffs.map((handoff) => {
+        const target = AGENT_IDS.find((candidate) => shared[candidate] === handoff);
+        return target ? configured[target] : handoff;
+      }),
+    });
+  });
+  return configured;
+};
+
+/**
+ * Builds a Runner on the configured model provider, with the run's trace metadata and step tracking
+ * attached, plus the agents configured with the current runtime settings to run on it. Throws when no
+ * provider is configured; callers that can degrade gracefully check `isModelProviderConfigured` first.
+ */
+export const createAgentRunner = (context: EmailAgentRuntimeContext) => {
+  const resolved = getModelProvider();
+  if (!resolved.ok) {
+    throw new Error(resolved.reason);
+  }
+
+  const settings = getRuntimeSettings();
+
+  const runner = new Runner({
+    modelProvider: resolved.provider,
+    // Only the hosted OpenAI backend has somewhere to export traces to.
+    tracingDisabled: !settings.tracingEnabled || resolved.name !== "openai",
+    traceMetadata: {
+      workflow_id: context.workflowId,
+      run_id: context.runId,
+      intent: context.intent,
+    },
+  });
+
+  traceRunner(runner, createStepTracker(context.runId));
+  return { runner, agents: configureAgents(settings) };
+};
@@ -1,8 +1,13 @@
 ﻿import { randomUUID } from "crypto";
+import type { Runner } from "@openai/agents";
+import type { ActivityStatus, RunSpan, RunSpanKind } from "@/models/activity";
 import type { EmailDraftAgentInput } from "@/models/email";
+import { getRun, recordRunSpan } from "@/server/runs/store";
 
 export type EmailAgentRuntimeContext = {
   runId: string;
+  /** Set on specialist runs started from a tool call, so their deliverables surface in the calling run. */
+  parentRunId?: string;
   threadId?: string;
   workflowId: string;
   intent: string;
@@ -13,6 +18,7 @@ export type EmailAgentRuntimeContext = {
 type RuntimeOptions = {
   payload?: EmailDraftAgentInput;
   runId?: string;
+  parentRunId?: string;
   threadId?: string;
   workflowId?: string;
   intent?: string;
@@ -22,12 +28,14 @@ type RuntimeOptions = {
 export const createRuntimeContext = ({
   payload,
   runId,
+  parentRunId,
   threadId,
   workflowId,
   intent,
   createdAt,
 }: RuntimeOptions): EmailAgentRuntimeContext => ({
   runId: runId ?? randomUUID(),
+  parentRunId,
   threadId,
   workflowId: workflowId ?? "email-draft",
   intent: intent ?? "compose-email",
@@ -41,6 +49,7 @@ export const resolveContext = (value: unknown): EmailAgentRuntimeContext | undef
   if (!ctx.runId) return undefined;
   return {
     runId: ctx.runId,
+    parentRunId: ctx.parentRunId,
     threadId: ctx.threadId,
     workflowId: ctx.workflowId ?? "email-draft",
     intent: ctx.intent ?? "compose-email",
@@ -49,41 +58,149 @@ export const resolveContext = (value: unknown): EmailAgentRuntimeContext | undef
   };
 };
 
-type StepStatus = "queued" | "running" | "done" | "error";
+type SpanOptions = {
+  parentId?: string;
+  message?: string;
+};
+
+type SpanOutcome = Extract<ActivityStatus, "done" | "error">;
 
-type StepRecord = {
-  id: string;
-  status: StepStatus;
-  message: string;
-  progress: number;
-  timestamp: string;
+export type StepTracker = {
+  runId: string;
+  start: (kind: RunSpanKind, name: string, options?: SpanOptions) => string | undefined;
+  progress: (spanId: string | undefined, progress: number, message?: string) => void;
+  end: (spanId: string | undefined, status: SpanOutcome, message?: string) => void;
+  timeline: () => RunSpan[];
 };
 
-const stepLog = new Map<string, StepRecord>();
+const normalizeProgress = (status: ActivityStatus, progress = 0) =>
+  status === "done" || status === "error" ? 100 : Math.max(0, Math.min(99, Math.round(progress)));
 
-export const startStep = (stepId: string, message: string) => {
-  const record: StepRecord = {
-    id: stepId,
-    status: "running",
-    message,
-    progress: 1,
-    timestamp: new Date().toISOString(),
-  };
-  stepLog.set(stepId, record);
-  return record;
+// Telemetry is cosmetic: a failure to record a span must never fail the run itself.
+const guard = <T>(label: string, action: () => T): T | undefined => {
+  try {
+    return action();
+  } catch (error) {
+    console.error(`Step tracking failed (${label})`, error);
+    return undefined;
+  }
 };
 
-export const completeStep = (stepId: string, status: Exclude<StepStatus, "running">, message?: string) => {
-  const current = stepLog.get(stepId);
-  const next: StepRecord = {
-    id: stepId,
-    status,
-    message: message ?? current?.message ?? "",
-    progress: 100,
-    timestamp: new Date().toISOString(),
-  };
-  stepLog.set(stepId, next);
-  return next;
+const findSpan = (runId: string, spanId: string) => getRun(runId)?.spans?.find((span) => span.id === spanId);
+
+export const createStepTracker = (runId: string): StepTracker => ({
+  runId,
+  start: (kind, name, { parentId, message } = {}) =>
+    guard("start", () => {
+      const run = getRun(runId);
+      if (!run) return undefined;
+
+      const span: RunSpan = {
+        id: `${runId}-span-${(run.spans?.length ?? 0) + 1}`,
+        runId,
+        parentId,
+        kind,
+        name,
+        status: "running",
+        message,
+        progress: normalizeProgress("running", 1),
+        startedAt: new Date().toISOString(),
+      };
+      recordRunSpan(span, message ?? `${name} started`);
+      return span.id;
+    }),
+  progress: (spanId, progress, message) => {
+    if (!spanId) return;
+    guard("progress", () => {
+      const span = findSpan(runId, spanId);
+      if (!span || span.status !== "running") return;
+      const next = { ...span, progress: normalizeProgress("running", progress), message: message ?? span.message };
+      recordRunSpan(next, message ?? `${span.name} ${next.progress}%`);
+    });
+  },
+  end: (spanId, status, message) => {
+    if (!spanId) return;
+    guard("end", () => {
+      const span = findSpan(runId, spanId);
+      if (!span || span.status === "done" || span.status === "error") return;
+      const endedAt = new Date().toISOString();
+      const next: RunSpan = {
+        ...span,
+        status,
+        message: message ?? span.message,
+        progress: normalizeProgress(status),
+        endedAt,
+        durationMs: Math.max(new Date(endedAt).getTime() - new Date(span.startedAt).getTime(), 0),
+      };
+      recordRunSpan(next, message ?? `${span.name} ${status === "done" ? "completed" : "failed"}`);
+    });
+  },
+  timeline: () => getRun(runId)?.spans ?? [],
+});
+
+/**
+ * Resolves a tracker from a runtime context carrier; returns undefined (and every caller no-ops)
+ * when the context or run id is missing.
+ */
+export const getStepTracker = (carrier: unknown) => {
+  const ctx = resolveContext(carrier);
+  return ctx ? createStepTracker(ctx.runId) : undefined;
 };
 
-export const getSteps = () => Array.from(stepLog.values());
+export const startStep = (carrier: unknown, kind: RunSpanKind, name: string, options?: SpanOptions) =>
+  getStepTracker(carrier)?.start(kind, name, options);
+
+export const updateStep = (carrier: unknown, spanId: string | undefined, progress: number, message?: string) =>
+  getStepTracker(carrier)?.progress(spanId, progress, message);
+
+export const completeStep = (carrier: unknown, spanId: string | undefined, status: SpanOutcome, message?: string) =>
+  getStepTracker(carrier)?.end(spanId, status, message);
+
+// The SDK's default tool error function turns a thrown error into a result starting with this text.
+// Errors that escape the tool fail the run instead, and `finishRun` closes the open spans.
+const TOOL_ERROR_PREFIX = "An error occurred while running the tool";
+
+/**
+ * Mirrors Agents SDK lifecycle hooks (agent turns, tool calls, handoffs) into the run timeline.
+ */
+export const traceRunner = (runner: Runner, tracker: StepTracker, parentId?: string) => {
+  const agentSpans = new Map<string, string | undefined>();
+  const toolSpans = new Map<string, string | undefined>();
+
+  runner.on("agent_start", (_context, agent) => {
+    const spanId = tracker.start("agent", agent.name, { parentId, message: `${agent.name} turn started` });
+    agentSpans.set(agent.name, spanId);
+  });
+
+  runner.on("agent_end", (_context, agent) => {
+    tracker.end(agentSpans.get(agent.name), "done", `${agent.name} produced a final output`);
+    agentSpans.delete(agent.name);
+  });
+
+  runner.on("agent_handoff", (_context, from, to) => {
+    const fromSpan = agentSpans.get(from.name);
+    const handoffSpan = tracker.start("handoff", `${from.name} → ${to.name}`, { parentId: fromSpan });
+    tracker.end(handoffSpan, "done", `Handed off to ${to.name}`);
+    tracker.end(fromSpan, "done", `${from.name} handed off to ${to.name}`);
+    agentSpans.delete(from.name);
+  });
+
+  runner.on("agent_tool_start", (_context, agent, tool, details) => {
+    const key = details.toolCall.type === "function_call" ? details.toolCall.callId : tool.name;
+    const spanId = tracker.start("tool", tool.name, {
+      parentId: agentSpans.get(agent.name),
+      message: `Calling ${tool.name}`,
+    });
+    toolSpans.set(key, spanId);
+  });
+
+  runner.on("agent_tool_end", (_context, _agent, tool, result, details) => {
+    const key = details.toolCall.type === "function_call" ? details.toolCall.callId : tool.name;
+    if (result.startsWith(TOOL_ERROR_PREFIX)) {
+      tracker.end(toolSpans.get(key), "error", `${tool.name} failed: ${result.replace(/^.*?Error: /, "")}`);
+    } else {
+      tracker.end(toolSpans.get(key), "done", `${tool.name} returned`);
+    }
+    toolSpans.delete(key);
+  });
+};
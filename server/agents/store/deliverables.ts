@@ -1,40 +1,185 @@
-﻿import { createHash } from "crypto";
-import type { EmailDraftDeliverable } from "@/models/email";
+﻿import type { DeliverablePayload, DeliverableRecord } from "@/models/deliverable";
+import type { RedactionEntry } from "@/models/guardrails";
+import { parseDeliverable } from "@/server/agents/deliverables/registry";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
 
 type RunOutcome = {
   cacheKey: string;
   identicalToExisting: boolean;
 };
 
-const deliverablesByKey = new Map<string, EmailDraftDeliverable>();
+export type StoredDeliverable = {
+  cacheKey: string;
+  /** The run that first recorded the deliverable. */
+  runId: string;
+  deliverable: DeliverablePayload;
+  createdAt: string;
+  /** Originals behind the guardrail placeholders in the draft. Server-only, never part of a `DeliverableRecord`. */
+  redactions?: RedactionEntry[];
+};
+
+export type DeliverableRepository = {
+  list: () => StoredDeliverable[];
+  get: (cacheKey: string) => StoredDeliverable | undefined;
+  save: (record: StoredDeliverable) => void;
+  clear: () => void;
+};
+
+export const createMemoryDeliverableRepository = (seed: StoredDeliverable[] = []): DeliverableRepository => {
+  const records = new Map(seed.map((record) => [record.cacheKey, record] as const));
+
+  return {
+    list: () => Array.from(records.values()),
+    get: (cacheKey) => records.get(cacheKey),
+    save: (record) => {
+      records.set(record.cacheKey, record);
+    },
+    clear: () => records.clear(),
+  };
+};
+
+export const createFileDeliverableRepository = (filePath: string): DeliverableRepository => {
+  let memory: DeliverableRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryDeliverableRepository(readJsonFile<StoredDeliverable[]>(filePath, []));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    try {
+      writeJsonFile(filePath, load().list());
+    } catch (error) {
+      console.error("Failed to persist deliverable repository", error);
+    }
+  };
+
+  return {
+    list: () => load().list(),
+    get: (cacheKey) => load().get(cacheKey),
+    save: (record) => {
+      load().save(record);
+      persist();
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: DeliverableRepository | undefined;
+
+export const getDeliverableRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryDeliverableRepository()
+      : createFileDeliverableRepository(resolveDataPath("deliverables.json"));
+  }
+  return repository;
+};
+
+export const setDeliverableRepository = (next: DeliverableRepository | undefined) => {
+  repository = next;
+};
+
+// Outcomes only describe runs in progress (what a run just recorded), so they stay in memory and are
+// released when the run finishes.
 const runOutcomeById = new Map<string, RunOutcome>();
+const outcomesByRun = new Map<string, RunOutcome[]>();
+
+export type RecordDeliverableContext = {
+  runId: string;
+  /** Deliverables are also listed under the parent run, e.g. the chat run that delegated to a specialist. */
+  parentRunId?: string;
+  /** Passed to the kind's semantic checks, e.g. the requested number of email variants. */
+  request?: unknown;
+  fromTemplate?: boolean;
+};
 
-export const computeDeliverableKey = (payload: unknown) =>
-  createHash("sha256").update(JSON.stringify(payload ?? {})).digest("hex");
+export type RecordDeliverableResult<T extends DeliverablePayload = DeliverablePayload> =
+  | ({ ok: true } & DeliverableRecord<T>)
+  | { ok: false; reason: string };
 
-export const getEmailDeliverable = (key: string) => deliverablesByKey.get(key);
+const linkOutcome = (runId: string, outcome: RunOutcome) => {
+  const outcomes = outcomesByRun.get(runId) ?? [];
+  if (!outcomes.some((existing) => existing.cacheKey === outcome.cacheKey)) {
+    outcomesByRun.set(runId, [...outcomes, outcome]);
+  }
+};
 
-export const recordEmailDeliverable = (
-  runId: string,
-  deliverable: EmailDraftDeliverable,
-): { deliverable: EmailDraftDeliverable; identicalToExisting: boolean; cacheKey: string } => {
-  const cacheKey = computeDeliverableKey({ runId, metadata: deliverable.metadata });
-  const existing = deliverablesByKey.get(cacheKey);
+/**
+ * Validates the payload against its registered kind and stores it under the kind's cache key.
+ * A payload whose key is already stored is reported as identical and the original is kept.
+ */
+export const recordDeliverable = <T extends DeliverablePayload = DeliverablePayload>(
+  { runId, parentRunId, request, fromTemplate }: RecordDeliverableContext,
+  payload: unknown,
+): RecordDeliverableResult<T> => {
+  const parsed = parseDeliverable(payload, { runId, request, fromTemplate });
+  if (!parsed.ok) {
+    return parsed;
+  }
 
-  if (existing) {
-    runOutcomeById.set(runId, { cacheKey, identicalToExisting: true });
-    return { deliverable: existing, identicalToExisting: true, cacheKey };
+  const cacheKey = parsed.kind.cacheKey(parsed.deliverable, { runId });
+  const existing = getDeliverableRepository().get(cacheKey);
+  if (!existing) {
+    getDeliverableRepository().save({
+      cacheKey,
+      runId,
+      deliverable: parsed.deliverable,
+      createdAt: new Date().toISOString(),
+    });
   }
 
-  deliverablesByKey.set(cacheKey, deliverable);
-  runOutcomeById.set(runId, { cacheKey, identicalToExisting: false });
+  const outcome = { cacheKey, identicalToExisting: Boolean(existing) };
+  runOutcomeById.set(runId, outcome);
+  linkOutcome(runId, outcome);
+  if (parentRunId) linkOutcome(parentRunId, outcome);
 
-  return { deliverable, identicalToExisting: false, cacheKey };
+  return {
+    ok: true,
+    cacheKey,
+    runId,
+    identicalToExisting: outcome.identicalToExisting,
+    deliverable: (existing?.deliverable ?? parsed.deliverable) as T,
+  };
 };
 
+/** Narrows a payload to the kind registered under `type`; stored payloads passed that kind's schema. */
+export const isDeliverableOfType = <T extends DeliverablePayload>(
+  deliverable: DeliverablePayload | undefined,
+  type: T["type"],
+): deliverable is T => deliverable?.type === type;
+
+export const getDeliverable = <T extends DeliverablePayload>(cacheKey: string, type: T["type"]) => {
+  const stored = getDeliverableRepository().get(cacheKey)?.deliverable;
+  return isDeliverableOfType<T>(stored, type) ? stored : undefined;
+};
+
+/** The run that first recorded the deliverable. */
+export const getDeliverableRunId = (cacheKey: string) => getDeliverableRepository().get(cacheKey)?.runId;
+
+/** The most recent outcome recorded by the run itself. */
 export const getRunOutcome = (runId: string) => runOutcomeById.get(runId);
 
+/** Deliverables recorded by the run or by specialist runs it delegated to, in recording order. */
+export const listRunDeliverables = (runId: string): DeliverableRecord[] =>
+  (outcomesByRun.get(runId) ?? []).flatMap(({ cacheKey, identicalToExisting }) => {
+    const stored = getDeliverableRepository().get(cacheKey);
+    return stored ? [{ cacheKey, runId: stored.runId, identicalToExisting, deliverable: stored.deliverable }] : [];
+  });
+
+/** Forgets what a run recorded once it has finished; the deliverables themselves stay stored. */
+export const releaseRunOutcomes = (runId: string) => {
+  runOutcomeById.delete(runId);
+  outcomesByRun.delete(runId);
+};
+
 export const resetDeliverables = () => {
-  deliverablesByKey.clear();
+  getDeliverableRepository().clear();
   runOutcomeById.clear();
-};
+  outcomesByRun.clear();
+};
@@ -0,0 +1,28 @@
+import type { ResearchSource } from "@/models/research";
+
+// Ledgers are only needed while a run is live; like the run store, only the most recent runs are kept.
+const MAX_TRACKED_RUNS = 200;
+
+const sourcesByRun = new Map<string, Map<string, ResearchSource>>();
+
+/** Remembers sources surfaced by search_web so citations and fetches can be checked against them. */
+export const recordResearchSources = (runId: string, sources: ResearchSource[]) => {
+  const ledger = sourcesByRun.get(runId) ?? new Map<string, ResearchSource>();
+  const added = sources.filter((source) => !ledger.has(source.url));
+  added.forEach((source) => ledger.set(source.url, source));
+  // Re-inserting keeps the Map ordered from least to most recently used.
+  sourcesByRun.delete(runId);
+  sourcesByRun.set(runId, ledger);
+  while (sourcesByRun.size > MAX_TRACKED_RUNS) {
+    sourcesByRun.delete(sourcesByRun.keys().next().value!);
+  }
+  return added;
+};
+
+export const getResearchSources = (runId: string) => Array.from(sourcesByRun.get(runId)?.values() ?? []);
+
+export const hasResearchSource = (runId: string, url: string) => Boolean(sourcesByRun.get(runId)?.has(url));
+
+export const resetResearch = () => {
+  sourcesByRun.clear();
+};
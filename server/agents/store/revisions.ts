@@ -0,0 +1,160 @@
+import type { EmailDraftDeliverable, EmailDraftHistory, EmailDraftRevision } from "@/models/email";
+import { getDeliverable, isDeliverableOfType } from "@/server/agents/store/deliverables";
+import { getApproval } from "@/server/approvals/store";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+export type RevisionRepository = {
+  list: () => EmailDraftHistory[];
+  get: (rootKey: string) => EmailDraftHistory | undefined;
+  save: (history: EmailDraftHistory) => void;
+  clear: () => void;
+};
+
+export const createMemoryRevisionRepository = (seed: EmailDraftHistory[] = []): RevisionRepository => {
+  const histories = new Map(seed.map((history) => [history.rootKey, history] as const));
+
+  return {
+    list: () => Array.from(histories.values()),
+    get: (rootKey) => histories.get(rootKey),
+    save: (history) => {
+      histories.set(history.rootKey, history);
+    },
+    clear: () => histories.clear(),
+  };
+};
+
+export const createFileRevisionRepository = (filePath: string): RevisionRepository => {
+  let memory: RevisionRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryRevisionRepository(readJsonFile<EmailDraftHistory[]>(filePath, []));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    try {
+      writeJsonFile(filePath, load().list());
+    } catch (error) {
+      console.error("Failed to persist revision repository", error);
+    }
+  };
+
+  return {
+    list: () => load().list(),
+    get: (rootKey) => load().get(rootKey),
+    save: (history) => {
+      load().save(history);
+      persist();
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: RevisionRepository | undefined;
+
+export const getRevisionRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryRevisionRepository()
+      : createFileRevisionRepository(resolveDataPath("revisions.json"));
+  }
+  return repository;
+};
+
+export const setRevisionRepository = (next: RevisionRepository | undefined) => {
+  repository = next;
+};
+
+/** The history a draft belongs to, whether it is the original or one of its revisions. */
+export const getDraftHistory = (cacheKey: string) =>
+  getRevisionRepository()
+    .list()
+    .find((history) => history.revisions.some((revision) => revision.cacheKey === cacheKey));
+
+export const getRevision = (cacheKey: string) =>
+  getDraftHistory(cacheKey)?.revisions.find((revision) => revision.cacheKey === cacheKey);
+
+const getApprovedCopy = (cacheKey: string) => {
+  const copy = getApproval(cacheKey)?.deliverable;
+  return isDeliverableOfType<EmailDraftDeliverable>(copy, "email-draft") ? copy : undefined;
+};
+
+/**
+ * A stored draft, or failing that its revision snapshot or the copy held by its approval. Every
+ * draft route and the send path resolve drafts through here.
+ */
+export const findEmailDraft = (cacheKey: string) =>
+  getDeliverable<EmailDraftDeliverable>(cacheKey, "email-draft") ??
+  getRevision(cacheKey)?.deliverable ??
+  getApprovedCopy(cacheKey);
+
+type DraftReference = { cacheKey: string; runId: string; deliverable: EmailDraftDeliverable };
+
+type RecordRevisionOptions = DraftReference & {
+  parent: DraftReference;
+  instruction?: string;
+};
+
+/**
+ * Links a new draft to the draft it was produced from and makes it the current revision. The parent
+ * becomes the root of a new history the first time a revision is made from it. Re-recording a known
+ * revision keeps the original link.
+ */
+export const recordRevision = ({ cacheKey, runId, deliverable, parent, instruction }: RecordRevisionOptions) => {
+  const existing = getRevision(cacheKey);
+  if (existing) return existing;
+
+  const createdAt = new Date().toISOString();
+  const history: EmailDraftHistory = getDraftHistory(parent.cacheKey) ?? {
+    rootKey: parent.cacheKey,
+    currentKey: parent.cacheKey,
+    revisions: [{ ...parent, rootKey: parent.cacheKey, createdAt }],
+  };
+  const revision: EmailDraftRevision = {
+    cacheKey,
+    parentKey: parent.cacheKey,
+    rootKey: history.rootKey,
+    instruction,
+    runId,
+    createdAt,
+    deliverable,
+  };
+  getRevisionRepository().save({ ...history, currentKey: cacheKey, revisions: [...history.revisions, revision] });
+  return revision;
+};
+
+/** The revision's ancestry, root first and ending with the revision itself. */
+export const listRevisionChain = (cacheKey: string) => {
+  const revisions = getDraftHistory(cacheKey)?.revisions ?? [];
+  const chain: EmailDraftRevision[] = [];
+  for (let current = revisions.find((revision) => revision.cacheKey === cacheKey); current; ) {
+    chain.unshift(current);
+    const { parentKey } = current;
+    current = parentKey ? revisions.find((revision) => revision.cacheKey === parentKey) : undefined;
+  }
+  return chain;
+};
+
+/** Every revision that shares the draft's root, including branches, oldest first. */
+export const listRevisions = (cacheKey: string) => getDraftHistory(cacheKey)?.revisions ?? [];
+
+export type RestoreRevisionResult = { ok: true; history: EmailDraftHistory } | { ok: false; reason: string };
+
+/** Makes an earlier revision the current one again. The later revisions stay in the history. */
+export const restoreRevision = (cacheKey: string): RestoreRevisionResult => {
+  const history = getDraftHistory(cacheKey);
+  if (!history) {
+    return { ok: false, reason: `No revision history found for ${cacheKey}` };
+  }
+
+  const next = { ...history, currentKey: cacheKey };
+  getRevisionRepository().save(next);
+  return { ok: true, history: next };
+};
+
+export const resetRevisions = () => getRevisionRepository().clear();
@@ -0,0 +1,38 @@
+import { tool } from "@openai/agents";
+import { z } from "zod";
+import { resolveContext } from "@/server/agents/runtime";
+import { getResearchSources, hasResearchSource } from "@/server/agents/store/research";
+import { getSearchProvider } from "@/server/providers/search";
+
+export const MAX_FETCHED_CHARS = 8_000;
+
+const fetchContentParameters = z.object({
+  url: z.string().url(),
+});
+
+export const fetchContent = async (url: string, runId?: string) => {
+  // Only URLs surfaced by search_web in this run may be fetched, which keeps the agent
+  // from being steered at arbitrary (or internal) addresses.
+  if (!runId || !hasResearchSource(runId, url)) {
+    const known = runId ? getResearchSources(runId).length : 0;
+    return `Fetch refused: ${url} was not returned by search_web in this run (${known} known sources).`;
+  }
+
+  try {
+    const { title, text } = await getSearchProvider().fetchContent(url);
+    const body = text.length > MAX_FETCHED_CHARS ? `${text.slice(0, MAX_FETCHED_CHARS)}\n[truncated]` : text;
+    return `${title}\nURL: ${url}\n\n${body}`;
+  } catch (error) {
+    return `Fetch failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+export const fetchContentTool = tool({
+  name: "fetch_content",
+  description: "Fetch the text of a source previously returned by search_web when the snippet is not enough.",
+  parameters: fetchContentParameters,
+  strict: true,
+  async execute({ url }, runContext) {
+    return fetchContent(url, resolveContext(runContext?.context)?.runId);
+  },
+});
@@ -0,0 +1,41 @@
+import { tool } from "@openai/agents";
+import { z } from "zod";
+import { refineEmailDraft } from "@/server/agents/run-email-refinement";
+import type { EmailAgentRuntimeContext } from "@/server/agents/runtime";
+
+const refineEmailParameters = z.object({
+  cacheKey: z.string().min(1, "Pass the cacheKey returned for the draft to revise."),
+  instruction: z.string().min(3, "Describe how the draft should change.").max(2000),
+  variant: z.number().int().min(1).max(4).nullable().default(null),
+});
+
+export const refineEmailTool = tool({
+  name: "refine_email",
+  description:
+    "Revise an existing email draft by its cacheKey, e.g. make it more formal or shorten variant 2, without starting over.",
+  parameters: refineEmailParameters,
+  strict: true,
+  async execute(input, runContext) {
+    const ctx = (runContext?.context ?? {}) as Partial<EmailAgentRuntimeContext>;
+    const result = await refineEmailDraft({
+      cacheKey: input.cacheKey,
+      payload: { instruction: input.instruction, variant: input.variant ?? undefined },
+      threadId: ctx.threadId,
+      parentRunId: ctx.runId,
+    });
+
+    if (!result.ok) {
+      return `Unable to refine the draft: ${result.reason}`;
+    }
+
+    return JSON.stringify({
+      subject: result.deliverable.draft.subject,
+      body: result.deliverable.draft.body,
+      variants: result.deliverable.draft.variants,
+      metadata: result.deliverable.metadata,
+      cacheKey: result.cacheKey,
+      parentKey: result.parentKey,
+      runId: result.runId,
+    });
+  },
+});
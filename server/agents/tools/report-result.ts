@@ -1,11 +1,15 @@
 ﻿import { tool } from "@openai/agents";
-import {
-  emailDraftDeliverableSchema,
-  type EmailDraftDeliverable,
-} from "@/models/email";
-import { recordEmailDeliverable } from "@/server/agents/store/deliverables";
-import type { EmailAgentRuntimeContext } from "@/server/agents/runtime";
-import { resolveContext } from "@/server/agents/runtime";
+import type { z } from "zod";
+import type { DeliverablePayload } from "@/models/deliverable";
+import type { EmailDraftDeliverable } from "@/models/email";
+import type { GuardrailFinding } from "@/models/guardrails";
+import type { DeliverableKind } from "@/server/agents/deliverables/kind";
+import { emailDraftKind } from "@/server/agents/deliverables/email-draft";
+import { recordDeliverable, type RecordDeliverableContext } from "@/server/agents/store/deliverables";
+import { completeStep, createStepTracker, resolveContext, startStep } from "@/server/agents/runtime";
+import { submitForApproval } from "@/server/approvals/store";
+import { describeGuardrailFindings, evaluateGuardrails, summarizeGuardrails } from "@/server/guardrails/engine";
+import { getRuntimeSettings } from "@/server/settings/store";
 
 export type ReportResultOutcome = {
   deliverable: EmailDraftDeliverable;
@@ -13,46 +17,94 @@ export type ReportResultOutcome = {
   cacheKey: string;
 };
 
-export const normalizeEmailDeliverable = (payload: unknown): EmailDraftDeliverable => {
-  const parsed = emailDraftDeliverableSchema.parse(payload);
-  return {
-    ...parsed,
-    draft: {
-      ...parsed.draft,
-      variants: parsed.draft.variants ?? [],
-    },
-  };
+/**
+ * Applies the output policy before a deliverable is stored, so blocked content is never recorded and
+ * redacted spans are replaced in the stored copy. A span is only added to the run when something matched.
+ */
+const guardDeliverable = (payload: unknown, runId: string) => {
+  const evaluation = evaluateGuardrails(payload, getRuntimeSettings().guardrails.output);
+  if (evaluation.outcome !== "pass") {
+    const tracker = createStepTracker(runId);
+    const span = tracker.start("guardrail", "Output guardrails");
+    tracker.end(span, evaluation.outcome === "block" ? "error" : "done", summarizeGuardrails(evaluation));
+  }
+  return evaluation;
 };
 
-export const reportEmailDraft = (
-  payload: unknown,
-  context: Pick<EmailAgentRuntimeContext, "runId">,
-): ReportResultOutcome => {
+const blockedReason = (findings: GuardrailFinding[]) =>
+  `the output guardrails blocked it (${describeGuardrailFindings(findings, "block")})`;
+
+export type ReportEmailDraftContext = Partial<RecordDeliverableContext> & {
+  /** Queue the draft for a reviewer; off for drafts nobody asked for, such as evaluation runs. Defaults to true. */
+  requireApproval?: boolean;
+};
+
+export const reportEmailDraft = (payload: unknown, context: ReportEmailDraftContext): ReportResultOutcome => {
   if (!context.runId) {
     throw new Error("Missing run identifier while recording deliverable");
   }
 
-  const deliverable = normalizeEmailDeliverable(payload);
-  return recordEmailDeliverable(context.runId, deliverable);
+  const guarded = guardDeliverable(payload, context.runId);
+  if (guarded.outcome === "block") {
+    throw new Error(`Email draft rejected: ${blockedReason(guarded.findings)}`);
+  }
+
+  const outcome = recordDeliverable<EmailDraftDeliverable>(
+    {
+      runId: context.runId,
+      parentRunId: context.parentRunId,
+      request: context.request,
+      fromTemplate: context.fromTemplate,
+    },
+    guarded.value,
+  );
+  if (!outcome.ok) {
+    throw new Error(`Invalid email draft deliverable: ${outcome.reason}`);
+  }
+  if (context.requireApproval !== false) {
+    submitForApproval(outcome);
+  }
+  return { deliverable: outcome.deliverable, identicalToExisting: outcome.identicalToExisting, cacheKey: outcome.cacheKey };
 };
 
-export const reportEmailDraftTool = tool({
-  name: "report_result",
-  description:
-    "Finalise the email draft deliverable. Call this exactly once per run. Do not emit normal assistant text in the same turn.",
-  parameters: emailDraftDeliverableSchema,
-  strict: true,
-  async execute(input, runContext) {
-    const resolved = resolveContext(runContext?.context);
-    if (!resolved?.runId) {
-      throw new Error("runId missing from runtime context");
-    }
-
-    const outcome = reportEmailDraft(input, { runId: resolved.runId });
-    return outcome.identicalToExisting
-      ? `Deliverable reused from cache (${outcome.cacheKey}).`
-      : `Deliverable recorded (${outcome.cacheKey}).`;
-  },
-});
-
-
+/**
+ * Builds the `report_result` tool for a specialist. The tool's parameters are the kind's schema,
+ * and rejected payloads are returned to the agent so it can correct them and call again.
+ */
+export const createReportResultTool = <T extends DeliverablePayload>(kind: DeliverableKind<T>) =>
+  tool<z.AnyZodObject>({
+    name: "report_result",
+    description: `Finalise the ${kind.label} deliverable. Call this exactly once per run. Do not emit normal assistant text in the same turn.`,
+    parameters: kind.schema,
+    strict: true,
+    async execute(input, runContext) {
+      const resolved = resolveContext(runContext?.context);
+      if (!resolved?.runId) {
+        throw new Error("runId missing from runtime context");
+      }
+
+      const spanId = startStep(resolved, "step", "Record deliverable", { message: `Recording ${kind.label}` });
+      const guarded = guardDeliverable(input, resolved.runId);
+      if (guarded.outcome === "block") {
+        completeStep(resolved, spanId, "error", "Deliverable blocked by output guardrails");
+        return `Unable to record the ${kind.label}: ${blockedReason(guarded.findings)}. Remove that content and call report_result again.`;
+      }
+
+      const outcome = recordDeliverable(
+        { runId: resolved.runId, parentRunId: resolved.parentRunId, request: resolved.payload },
+        guarded.value,
+      );
+      if (!outcome.ok) {
+        completeStep(resolved, spanId, "error", "Deliverable failed validation");
+        return `Unable to record the ${kind.label}: ${outcome.reason}. Fix the payload and call report_result again.`;
+      }
+      submitForApproval(outcome);
+      const message = outcome.identicalToExisting
+        ? `Deliverable reused from cache (${outcome.cacheKey}).`
+        : `Deliverable recorded (${outcome.cacheKey}).`;
+      completeStep(resolved, spanId, "done", message);
+      return message;
+    },
+  });
+
+export const reportEmailDraftTool = createReportResultTool(emailDraftKind);
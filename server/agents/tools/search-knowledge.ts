@@ -0,0 +1,54 @@
+import { tool } from "@openai/agents";
+import { z } from "zod";
+import type { KnowledgePassage } from "@/models/knowledge";
+import { searchKnowledge } from "@/server/knowledge/store";
+
+const MAX_PASSAGE_CHARS = 800;
+
+const searchKnowledgeParameters = z.object({
+  query: z.string().min(2, "Describe what to look up."),
+  limit: z.number().int().min(1).max(8).default(4),
+});
+
+export type SearchKnowledgeResult = {
+  query: string;
+  passages: KnowledgePassage[];
+};
+
+export const searchKnowledgeBase = async (
+  input: z.input<typeof searchKnowledgeParameters>,
+): Promise<SearchKnowledgeResult> => {
+  const { query, limit } = searchKnowledgeParameters.parse(input);
+  const passages = await searchKnowledge(query, { limit });
+  return {
+    query,
+    passages: passages.map((passage) => ({
+      ...passage,
+      text: passage.text.length > MAX_PASSAGE_CHARS ? `${passage.text.slice(0, MAX_PASSAGE_CHARS)}…` : passage.text,
+    })),
+  };
+};
+
+/** Shapes passages into the `data-sources` items rendered by the chat panel. */
+export const toKnowledgeSources = (passages: KnowledgePassage[]) =>
+  passages.map((passage) => ({
+    id: passage.chunkId,
+    title: passage.documentName,
+    description: passage.text.length > 220 ? `${passage.text.slice(0, 217)}…` : passage.text,
+    url: `/api/uploads/${passage.documentId}#chars=${passage.start},${passage.end}`,
+    badge: "Knowledge base",
+    documentId: passage.documentId,
+    offsets: { start: passage.start, end: passage.end },
+    score: passage.score,
+  }));
+
+export const searchKnowledgeTool = tool({
+  name: "search_knowledge",
+  description:
+    "Search documents uploaded to the SideKick knowledge base. Returns ranked passages with document ids and character offsets.",
+  parameters: searchKnowledgeParameters,
+  strict: true,
+  async execute(input) {
+    return JSON.stringify(await searchKnowledgeBase(input));
+  },
+});
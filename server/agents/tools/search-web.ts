@@ -0,0 +1,35 @@
+import { tool } from "@openai/agents";
+import { z } from "zod";
+import { resolveContext } from "@/server/agents/runtime";
+import { recordResearchSources } from "@/server/agents/store/research";
+import { getSearchProvider } from "@/server/providers/search";
+
+const searchWebParameters = z.object({
+  query: z.string().min(3, "Search queries must be at least 3 characters."),
+});
+
+export const searchWeb = async (query: string, runId?: string) => {
+  try {
+    const results = await getSearchProvider().search(query);
+    if (runId) recordResearchSources(runId, results);
+    if (results.length === 0) {
+      return `No results for "${query}".`;
+    }
+    return results
+      .map((result, index) => `${index + 1}. ${result.title}\nURL: ${result.url}\nSnippet: ${result.snippet ?? "—"}`)
+      .join("\n\n");
+  } catch (error) {
+    // Returned rather than thrown so the agent can rephrase or report the gap.
+    return `Search failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+export const searchWebTool = tool({
+  name: "search_web",
+  description: "Find reputable sources for a research question; returns title, url and snippet for each result.",
+  parameters: searchWebParameters,
+  strict: true,
+  async execute({ query }, runContext) {
+    return searchWeb(query, resolveContext(runContext?.context)?.runId);
+  },
+});
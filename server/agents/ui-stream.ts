@@ -0,0 +1,244 @@
+import type { RunStreamEvent } from "@openai/agents";
+import type { UIMessage, UIMessageStreamWriter } from "ai";
+import type { DeliverableRecord } from "@/models/deliverable";
+import { GUARDRAIL_DETECTOR_LABELS, type GuardrailActions, type RedactionEntry } from "@/models/guardrails";
+import { createStepTracker } from "@/server/agents/runtime";
+import { listRunDeliverables } from "@/server/agents/store/deliverables";
+import { evaluateGuardrails, summarizeGuardrails, type GuardrailEvaluation } from "@/server/guardrails/engine";
+
+export type ToolPartData = {
+  name: string;
+  status: "started" | "completed" | "error";
+  arguments?: unknown;
+  result?: unknown;
+};
+
+export type HandoffPartData = {
+  from: string;
+  to: string;
+};
+
+export type ReasoningPartData = {
+  headline: string;
+  steps: Array<{ title: string; detail: string }>;
+};
+
+/**
+ * Sent when the chat guardrails warned about, redacted or blocked the operator's message (`input`)
+ * or the orchestrator's reply (`output`). Parts saved before `stage` existed are input checks.
+ */
+export type GuardrailPartData = {
+  stage?: "input" | "output";
+  outcome: "warn" | "redact" | "block";
+  detectors: string[];
+};
+
+export type SourcePartData = {
+  id: string;
+  title: string;
+  description?: string;
+  url?: string;
+  badge?: string;
+  documentId?: string;
+  offsets?: { start: number; end: number };
+  score?: number;
+};
+
+export type OrchestratorUIMessage = UIMessage<
+  unknown,
+  {
+    thread: { threadId: string };
+    reasoning: ReasoningPartData;
+    tool: ToolPartData;
+    handoff: HandoffPartData;
+    guardrail: GuardrailPartData;
+    sources: SourcePartData[];
+    deliverable: DeliverableRecord;
+  }
+>;
+
+export const safeParseJSON = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+type ForwarderOptions = {
+  messageId: string;
+  runId: string;
+  /** Output policy applied to the assistant's text before it reaches the browser. */
+  outputGuardrails?: GuardrailActions;
+};
+
+const OUTPUT_OUTCOMES: GuardrailPartData["outcome"][] = ["warn", "redact", "block"];
+// Text is checked a line or sentence at a time, so a flagged value is never split across two checks.
+const MAX_PENDING_CHARS = 600;
+const WITHHELD_NOTICE = "[The rest of this response was withheld by the output guardrails.]";
+
+const findSegmentEnd = (text: string) => {
+  const end = Math.max(
+    text.lastIndexOf("\n") + 1,
+    ...[". ", "! ", "? "].map((mark) => {
+      const index = text.lastIndexOf(mark);
+      return index === -1 ? 0 : index + mark.length;
+    }),
+  );
+  if (end > 0 || text.length <= MAX_PENDING_CHARS) return end;
+  return text.lastIndexOf(" ") + 1 || text.length;
+};
+
+/**
+ * Translates Agents SDK stream events into UI message chunks as they arrive: text deltas, tool
+ * calls (a `data-tool` part updated in place from started to completed), handoffs, and any
+ * deliverable recorded by the run or its specialists since the last event. With an output policy,
+ * text is forwarded a sentence at a time once it has passed the guardrails; call `flushText` when
+ * the run ends.
+ */
+export const createRunStreamForwarder = (
+  writer: UIMessageStreamWriter<OrchestratorUIMessage>,
+  { messageId, runId, outputGuardrails }: ForwarderOptions,
+) => {
+  const sentDeliverables = new Set<string>();
+  let streamedText = false;
+  let wroteText = false;
+  let separatorPending = false;
+  let pending = "";
+  let withheld = false;
+  let redactions: RedactionEntry[] = [];
+  let flagged: GuardrailPartData | undefined;
+
+  const emitText = (text: string) => {
+    if (!text) return;
+    if (separatorPending && wroteText) {
+      writer.write({ type: "text-delta", id: messageId, delta: "\n\n" });
+    }
+    separatorPending = false;
+    wroteText = true;
+    writer.write({ type: "text-delta", id: messageId, delta: text });
+  };
+
+  const reportOutputGuardrail = (evaluation: GuardrailEvaluation<string>) => {
+    const tracker = createStepTracker(runId);
+    const span = tracker.start("guardrail", "Output guardrails");
+    tracker.end(span, evaluation.outcome === "block" ? "error" : "done", summarizeGuardrails(evaluation));
+
+    const outcome = evaluation.outcome as GuardrailPartData["outcome"];
+    const detectors = evaluation.findings.map((finding) => GUARDRAIL_DETECTOR_LABELS[finding.detector]);
+    flagged = {
+      stage: "output",
+      outcome:
+        flagged && OUTPUT_OUTCOMES.indexOf(flagged.outcome) > OUTPUT_OUTCOMES.indexOf(outcome) ? flagged.outcome : outcome,
+      detectors: Array.from(new Set([...(flagged?.detectors ?? []), ...detectors])),
+    };
+    // Rewriting the part under the same id updates it in place.
+    writer.write({ type: "data-guardrail", id: `${messageId}-output-guardrail`, data: flagged });
+  };
+
+  const emitSegment = (segment: string) => {
+    if (!outputGuardrails) return emitText(segment);
+    if (withheld || !segment) return;
+
+    const evaluation = evaluateGuardrails(segment, outputGuardrails, redactions);
+    redactions = evaluation.redactions;
+    if (evaluation.outcome !== "pass") reportOutputGuardrail(evaluation);
+    if (evaluation.outcome === "block") {
+      withheld = true;
+      emitText(WITHHELD_NOTICE);
+      return;
+    }
+    emitText(evaluation.value);
+  };
+
+  /** Forwards every complete line or sentence; the rest waits for more text or `flushText`. */
+  const writeText = (delta: string) => {
+    if (!delta) return;
+    streamedText = true;
+    if (!outputGuardrails) return emitText(delta);
+
+    pending += delta;
+    const end = findSegmentEnd(pending);
+    if (end > 0) {
+      const segment = pending.slice(0, end);
+      pending = pending.slice(end);
+      emitSegment(segment);
+    }
+  };
+
+  const flushText = () => {
+    const segment = pending;
+    pending = "";
+    emitSegment(segment);
+  };
+
+  const flushDeliverables = () => {
+    listRunDeliverables(runId).forEach((record) => {
+      if (sentDeliverables.has(record.cacheKey)) return;
+      writer.write({
+        type: "data-deliverable",
+        id: `${messageId}-deliverable-${sentDeliverables.size}`,
+        data: record,
+      });
+      sentDeliverables.add(record.cacheKey);
+    });
+  };
+
+  const handle = (event: RunStreamEvent) => {
+    if (event.type === "raw_model_stream_event") {
+      if (event.data.type === "output_text_delta") writeText(event.data.delta);
+      return;
+    }
+    if (event.type !== "run_item_stream_event") return;
+
+    const { item } = event;
+    switch (event.name) {
+      case "message_output_created":
+        // Later assistant messages (after a tool call or handoff) start a new paragraph.
+        flushText();
+        separatorPending = true;
+        break;
+      case "tool_called":
+        flushText();
+        if (item.type === "tool_call_item" && item.rawItem.type === "function_call") {
+          writer.write({
+            type: "data-tool",
+            id: `${messageId}-tool-${item.rawItem.callId}`,
+            data: { name: item.rawItem.name, status: "started", arguments: safeParseJSON(item.rawItem.arguments) },
+          });
+        }
+        break;
+      case "tool_output":
+        if (item.type === "tool_call_output_item" && item.rawItem.type === "function_call_result") {
+          writer.write({
+            type: "data-tool",
+            id: `${messageId}-tool-${item.rawItem.callId}`,
+            data: { name: item.rawItem.name, status: "completed", result: safeParseJSON(item.output) },
+          });
+        }
+        flushDeliverables();
+        break;
+      case "handoff_occurred":
+        flushText();
+        if (item.type === "handoff_output_item") {
+          writer.write({
+            type: "data-handoff",
+            id: `${messageId}-handoff-${item.rawItem.callId}`,
+            data: { from: item.sourceAgent.name, to: item.targetAgent.name },
+          });
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  return {
+    handle,
+    flushDeliverables,
+    writeText,
+    flushText,
+    hasStreamedText: () => streamedText,
+  };
+};
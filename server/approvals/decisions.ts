@@ -0,0 +1,62 @@
+import type { ApprovalDecision, ApprovalRecord } from "@/models/approval";
+import type { EmailDraftDeliverable } from "@/models/email";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { buildRevisionRequest } from "@/server/agents/run-email-refinement";
+import { recordRevision } from "@/server/agents/store/revisions";
+import {
+  applyApprovalDecision,
+  claimApproval,
+  findPendingApproval,
+  linkApprovalRevision,
+  releaseApproval,
+  type ApprovalTransitionResult,
+} from "@/server/approvals/store";
+
+export type ApprovalDecisionResult =
+  | (ApprovalTransitionResult & { ok: true; revision?: ApprovalRecord })
+  | Extract<ApprovalTransitionResult, { ok: false }>
+  | { ok: false; reason: string; code: "revision_failed" };
+
+/**
+ * Applies a reviewer's decision. Requesting changes on an email draft re-runs the email agent with
+ * the feedback appended; the new draft is queued as a pending revision of the original. The approval
+ * is claimed for the length of the rerun, so a second decision made meanwhile conflicts.
+ */
+export const decideApproval = async (cacheKey: string, decision: ApprovalDecision): Promise<ApprovalDecisionResult> => {
+  if (decision.decision !== "request_changes") {
+    return applyApprovalDecision(cacheKey, decision);
+  }
+
+  const pending = findPendingApproval(cacheKey);
+  if (!pending.ok) return pending;
+  if (pending.approval.deliverable.type !== "email-draft") {
+    return { ok: false, reason: "Changes can only be requested on email drafts", code: "unsupported" };
+  }
+
+  const claimed = claimApproval(cacheKey);
+  if (!claimed.ok) return claimed;
+
+  const { runId } = pending.approval;
+  const deliverable = pending.approval.deliverable as EmailDraftDeliverable;
+  const feedback = `Reviewer feedback on the previous draft "${deliverable.draft.subject}": ${decision.comment}`;
+  let rerun: Awaited<ReturnType<typeof runEmailAgentFromPayload>>;
+  try {
+    rerun = await runEmailAgentFromPayload({ payload: buildRevisionRequest(deliverable, feedback) });
+  } finally {
+    releaseApproval(cacheKey);
+  }
+  if (!rerun.ok) {
+    return { ok: false, reason: `Unable to revise the draft: ${rerun.reason}`, code: "revision_failed" };
+  }
+
+  recordRevision({
+    cacheKey: rerun.cacheKey,
+    runId: rerun.runId,
+    deliverable: rerun.deliverable,
+    parent: { cacheKey, runId, deliverable },
+    instruction: decision.comment,
+  });
+  const decided = applyApprovalDecision(cacheKey, decision, { revisedBy: rerun.cacheKey });
+  if (!decided.ok) return decided;
+  return { ...decided, revision: linkApprovalRevision(rerun.cacheKey, cacheKey) };
+};
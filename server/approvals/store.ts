@@ -0,0 +1,199 @@
+import { APPROVAL_STATUS_LABELS, type ApprovalDecision, type ApprovalRecord, type ApprovalStatus } from "@/models/approval";
+import type { DeliverableRecord } from "@/models/deliverable";
+import { getDeliverableKind } from "@/server/agents/deliverables/registry";
+import { createStepTracker } from "@/server/agents/runtime";
+import { logRunStep } from "@/server/runs/store";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+export type ApprovalRepository = {
+  list: () => ApprovalRecord[];
+  get: (cacheKey: string) => ApprovalRecord | undefined;
+  save: (approval: ApprovalRecord) => void;
+  clear: () => void;
+};
+
+const sortByCreated = (approvals: ApprovalRecord[]) =>
+  [...approvals].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+export const createMemoryApprovalRepository = (seed: ApprovalRecord[] = []): ApprovalRepository => {
+  const approvals = new Map(seed.map((approval) => [approval.cacheKey, approval] as const));
+
+  return {
+    list: () => Array.from(approvals.values()),
+    get: (cacheKey) => approvals.get(cacheKey),
+    save: (approval) => {
+      approvals.set(approval.cacheKey, approval);
+    },
+    clear: () => approvals.clear(),
+  };
+};
+
+export const createFileApprovalRepository = (filePath: string): ApprovalRepository => {
+  let memory: ApprovalRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryApprovalRepository(readJsonFile<ApprovalRecord[]>(filePath, []));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    try {
+      writeJsonFile(filePath, sortByCreated(load().list()));
+    } catch (error) {
+      console.error("Failed to persist approval repository", error);
+    }
+  };
+
+  return {
+    list: () => load().list(),
+    get: (cacheKey) => load().get(cacheKey),
+    save: (approval) => {
+      load().save(approval);
+      persist();
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: ApprovalRepository | undefined;
+
+export const getApprovalRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryApprovalRepository()
+      : createFileApprovalRepository(resolveDataPath("approvals.json"));
+  }
+  return repository;
+};
+
+export const setApprovalRepository = (next: ApprovalRepository | undefined) => {
+  repository = next;
+};
+
+/** Records a decision as a completed approval span on the run that reported the deliverable. */
+const recordDecision = (runId: string, name: string, message: string) => {
+  const tracker = createStepTracker(runId);
+  tracker.end(tracker.start("approval", name, { message }), "done", message);
+};
+
+/**
+ * Files a newly recorded deliverable for review. Deliverables served from cache keep their
+ * existing approval, so the same draft is never queued twice.
+ */
+export const submitForApproval = ({ cacheKey, runId, deliverable }: Omit<DeliverableRecord, "identicalToExisting">) => {
+  const existing = getApprovalRepository().get(cacheKey);
+  if (existing) return existing;
+
+  const kind = getDeliverableKind(deliverable.type);
+  const createdAt = new Date().toISOString();
+  const approval: ApprovalRecord = {
+    cacheKey,
+    runId,
+    status: "pending",
+    deliverable,
+    title: kind?.title?.(deliverable) ?? kind?.label ?? deliverable.type,
+    createdAt,
+    updatedAt: createdAt,
+    history: [{ status: "pending", at: createdAt }],
+  };
+  getApprovalRepository().save(approval);
+  logRunStep(runId, "queued", `${approval.title} is awaiting approval`);
+  return approval;
+};
+
+export const getApproval = (cacheKey: string) => getApprovalRepository().get(cacheKey);
+
+export const listApprovals = (status?: ApprovalStatus) =>
+  sortByCreated(getApprovalRepository().list()).filter((approval) => !status || approval.status === status);
+
+export type ApprovalTransitionResult =
+  | { ok: true; approval: ApprovalRecord }
+  | { ok: false; reason: string; code: "not_found" | "conflict" | "unsupported" };
+
+const DECISION_STATUS: Record<ApprovalDecision["decision"], ApprovalStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  request_changes: "changes_requested",
+};
+
+// Approvals whose requested changes are still being drafted. Held in memory only: a restart drops
+// the in-flight rerun along with its claim, so the approval is simply pending again.
+const claimedApprovals = new Set<string>();
+
+/** Checks that a pending approval exists, and is not claimed, before a decision is applied. */
+export const findPendingApproval = (cacheKey: string): ApprovalTransitionResult => {
+  const approval = getApprovalRepository().get(cacheKey);
+  if (!approval) {
+    return { ok: false, reason: `No approval found for ${cacheKey}`, code: "not_found" };
+  }
+  if (approval.status !== "pending") {
+    return {
+      ok: false,
+      reason: `Approval is already closed (${APPROVAL_STATUS_LABELS[approval.status].toLowerCase()})`,
+      code: "conflict",
+    };
+  }
+  if (claimedApprovals.has(cacheKey)) {
+    return { ok: false, reason: "Changes are already being drafted for this approval", code: "conflict" };
+  }
+  return { ok: true, approval };
+};
+
+/**
+ * Holds a pending approval while a decision is prepared asynchronously, so any other decision on it
+ * conflicts instead of racing. Release the claim before applying the decision.
+ */
+export const claimApproval = (cacheKey: string) => {
+  const pending = findPendingApproval(cacheKey);
+  if (pending.ok) claimedApprovals.add(cacheKey);
+  return pending;
+};
+
+export const releaseApproval = (cacheKey: string) => {
+  claimedApprovals.delete(cacheKey);
+};
+
+/** Moves a pending approval to its decided status and records the transition on the run. */
+export const applyApprovalDecision = (
+  cacheKey: string,
+  { decision, comment, reviewer }: ApprovalDecision,
+  links: Pick<ApprovalRecord, "revisedBy"> = {},
+): ApprovalTransitionResult => {
+  const pending = findPendingApproval(cacheKey);
+  if (!pending.ok) return pending;
+
+  const status = DECISION_STATUS[decision];
+  const at = new Date().toISOString();
+  const approval: ApprovalRecord = {
+    ...pending.approval,
+    ...links,
+    status,
+    updatedAt: at,
+    history: [...pending.approval.history, { status, at, reviewer, comment }],
+  };
+  getApprovalRepository().save(approval);
+
+  const label = APPROVAL_STATUS_LABELS[status];
+  const summary = `${label}${reviewer ? ` by ${reviewer}` : ""}`;
+  recordDecision(approval.runId, label, comment ? `${summary}: ${comment}` : summary);
+  return { ok: true, approval };
+};
+
+/** Links a revision produced by requested changes back to the approval it replaces. */
+export const linkApprovalRevision = (cacheKey: string, revisionOf: string) => {
+  const approval = getApprovalRepository().get(cacheKey);
+  if (!approval) return undefined;
+  const next = { ...approval, revisionOf };
+  getApprovalRepository().save(next);
+  return next;
+};
+
+export const resetApprovals = () => {
+  claimedApprovals.clear();
+  getApprovalRepository().clear();
+};
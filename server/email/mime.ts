@@ -0,0 +1,197 @@
+import { randomUUID } from "crypto";
+import type { EmailDraftDeliverable } from "@/models/email";
+
+const CRLF = "\r\n";
+const MAX_LINE_LENGTH = 76;
+const MESSAGE_ID_DOMAIN = "sidekick.local";
+
+export const DEFAULT_EMAIL_FROM = "SideKick OS <no-reply@sidekick.local>";
+
+/** The From address for exported and sent mail; `SIDEKICK_EMAIL_FROM` overrides the default. */
+export const resolveEmailSender = () => process.env.SIDEKICK_EMAIL_FROM?.trim() || DEFAULT_EMAIL_FROM;
+
+export type EmailMessageContent = {
+  subject: string;
+  /** Plain text; the HTML alternative is derived from it. */
+  body: string;
+};
+
+export type RenderEmailOptions = EmailMessageContent & {
+  from?: string;
+  to?: string[];
+  cc?: string[];
+  date?: Date;
+  messageId?: string;
+  /** Marks the message as a draft, so mail clients open it for editing instead of as received mail. */
+  draft?: boolean;
+};
+
+export type SelectedEmailContent = { ok: true; content: EmailMessageContent } | { ok: false; reason: string };
+
+/** The subject with the primary body, or with the body of the 1-based `variant`. */
+export const selectEmailContent = ({ draft }: EmailDraftDeliverable, variant?: number): SelectedEmailContent => {
+  if (!variant) {
+    return { ok: true, content: { subject: draft.subject, body: draft.body } };
+  }
+
+  const selected = draft.variants[variant - 1];
+  if (!selected) {
+    const count = draft.variants.length;
+    return { ok: false, reason: `Variant ${variant} does not exist; the draft has ${count} variant${count === 1 ? "" : "s"}` };
+  }
+  return { ok: true, content: { subject: draft.subject, body: selected.body } };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Blank lines separate paragraphs, runs of "- " lines become lists and other line breaks are kept. */
+export const renderEmailHtml = (text: string) => {
+  const blocks = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => {
+      const lines = block.split("\n");
+      if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+        const items = lines.map((line) => `<li>${escapeHtml(line.replace(/^\s*[-*]\s+/, ""))}</li>`);
+        return `<ul>${items.join("")}</ul>`;
+      }
+      return `<p>${lines.map(escapeHtml).join("<br>")}</p>`;
+    });
+
+  return [
+    "<!DOCTYPE html>",
+    '<html><head><meta charset="utf-8"></head>',
+    `<body style="font-family: Arial, sans-serif; line-height: 1.5;">${blocks.join("")}</body></html>`,
+  ].join("\n");
+};
+
+/** RFC 2045 quoted-printable with CRLF line breaks and soft breaks keeping lines within 76 characters. */
+export const encodeQuotedPrintable = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const bytes = Buffer.from(line, "utf8");
+      const tokens = Array.from(bytes, (byte, index) => {
+        const trailingWhitespace = (byte === 0x20 || byte === 0x09) && index === bytes.length - 1;
+        const printable = (byte >= 33 && byte <= 126 && byte !== 61) || byte === 0x20 || byte === 0x09;
+        return printable && !trailingWhitespace
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+      });
+
+      const wrapped: string[] = [];
+      let current = "";
+      tokens.forEach((token) => {
+        // Leave room for the "=" that marks a soft line break.
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          wrapped.push(`${current}=`);
+          current = "";
+        }
+        current += token;
+      });
+      wrapped.push(current);
+      return wrapped.join(CRLF);
+    })
+    .join(CRLF);
+
+/** RFC 2047 encoded words for non-ASCII header text, each within the 75-character limit. */
+const encodeHeaderText = (text: string) => {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`).join(" ");
+};
+
+/** Folds a header at spaces so no line exceeds 78 characters where the value allows it. */
+const foldHeader = (name: string, value: string) => {
+  const lines: string[] = [];
+  let current = `${name}:`;
+  value.split(" ").forEach((word) => {
+    if (current.length + word.length + 1 > 78 && current.trim().length > name.length + 1) {
+      lines.push(current);
+      current = "";
+    }
+    current += ` ${word}`;
+  });
+  lines.push(current);
+  return lines.join(CRLF);
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** RFC 5322 date-time in UTC, e.g. "Mon, 19 Oct 2026 18:05:00 +0000". */
+export const formatEmailDate = (date: Date) =>
+  `${DAYS[date.getUTCDay()]}, ${pad(date.getUTCDate())} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ` +
+  `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+
+export const createMessageId = () => `<${randomUUID()}@${MESSAGE_ID_DOMAIN}>`;
+
+/**
+ * Renders an RFC 5322 message with a multipart/alternative body: the plain text first and the
+ * HTML rendering second, both quoted-printable. Lines end in CRLF.
+ */
+export const renderEmailMessage = ({
+  subject,
+  body,
+  from = resolveEmailSender(),
+  to = [],
+  cc = [],
+  date = new Date(),
+  messageId = createMessageId(),
+  draft = false,
+}: RenderEmailOptions) => {
+  const boundary = `sidekick-${randomUUID()}`;
+  const headers = [
+    foldHeader("From", from),
+    ...(to.length > 0 ? [foldHeader("To", to.join(", "))] : []),
+    ...(cc.length > 0 ? [foldHeader("Cc", cc.join(", "))] : []),
+    foldHeader("Subject", encodeHeaderText(subject)),
+    `Date: ${formatEmailDate(date)}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    ...(draft ? ["X-Unsent: 1"] : []),
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const part = (contentType: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      encodeQuotedPrintable(content),
+    ].join(CRLF);
+
+  return [
+    ...headers,
+    "",
+    part("text/plain", body),
+    part("text/html", renderEmailHtml(body)),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+};
+
+/** An RFC 6068 mailto: link; line breaks in the body are sent as CRLF. */
+export const buildMailtoLink = ({ subject, body, to = [], cc = [] }: EmailMessageContent & { to?: string[]; cc?: string[] }) => {
+  // "@" may stay literal in addresses, and some clients do not decode it.
+  const address = (value: string) => encodeURIComponent(value).replace(/%40/g, "@");
+  const params = [`subject=${encodeURIComponent(subject)}`, `body=${encodeURIComponent(body.replace(/\r?\n/g, "\r\n"))}`];
+  if (cc.length > 0) params.unshift(`cc=${cc.map(address).join(",")}`);
+  return `mailto:${to.map(address).join(",")}?${params.join("&")}`;
+};
@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import { APPROVAL_STATUS_LABELS } from "@/models/approval";
+import { emailSendRequestSchema, type EmailDelivery } from "@/models/email";
+import { REDACTION_PLACEHOLDER_PATTERN } from "@/models/guardrails";
+import { createStepTracker } from "@/server/agents/runtime";
+import { findEmailDraft } from "@/server/agents/store/revisions";
+import { getApproval } from "@/server/approvals/store";
+import { createMessageId, renderEmailMessage, resolveEmailSender, selectEmailContent } from "@/server/email/mime";
+import { getMailTransport } from "@/server/email/transport";
+import {
+  describeGuardrailFindings,
+  evaluateGuardrails,
+  restoreRedactions,
+  summarizeGuardrails,
+} from "@/server/guardrails/engine";
+import { getRedactions } from "@/server/guardrails/redactions";
+import { recordRunDelivery } from "@/server/runs/store";
+import { getRuntimeSettings } from "@/server/settings/store";
+
+export type SendEmailDraftResult =
+  | { ok: true; delivery: EmailDelivery }
+  | {
+      ok: false;
+      reason: string;
+      code: "invalid" | "not_found" | "not_approved" | "guardrails" | "unconfigured" | "failed";
+      /** Set when the transport was reached, so the failed attempt is on record. */
+      delivery?: EmailDelivery;
+    };
+
+/**
+ * Sends an approved email draft (or one of its variants) to explicit recipients. The outgoing text,
+ * with redacted values restored, must pass the output guardrails; every attempt is recorded as a
+ * delivery span and a delivery record on the run that produced the draft.
+ */
+export const sendEmailDraft = async (cacheKey: string, payload: unknown): Promise<SendEmailDraftResult> => {
+  const parsed = emailSendRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    const reason = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+    return { ok: false, reason, code: "invalid" };
+  }
+  const { to, cc, bcc, variant } = parsed.data;
+
+  const approval = getApproval(cacheKey);
+  const deliverable = findEmailDraft(cacheKey);
+  if (!deliverable) {
+    return { ok: false, reason: "Email draft not found", code: "not_found" };
+  }
+  if (approval?.status !== "approved") {
+    const state = approval ? APPROVAL_STATUS_LABELS[approval.status].toLowerCase() : "not submitted for approval";
+    return { ok: false, reason: `Only approved drafts can be sent; this draft is ${state}`, code: "not_approved" };
+  }
+
+  const selected = selectEmailContent(deliverable, variant);
+  if (!selected.ok) {
+    return { ok: false, reason: selected.reason, code: "invalid" };
+  }
+
+  const redactions = getRedactions(cacheKey);
+  const content = {
+    subject: restoreRedactions(selected.content.subject, redactions),
+    body: restoreRedactions(selected.content.body, redactions),
+  };
+  // Originals are only held in memory; after a restart the placeholders cannot be filled in.
+  const unresolved = new Set(
+    Array.from(`${content.subject}\n${content.body}`.matchAll(REDACTION_PLACEHOLDER_PATTERN), (match) => match[0]),
+  );
+  if (unresolved.size > 0) {
+    const placeholders = Array.from(unresolved).join(", ");
+    return {
+      ok: false,
+      reason: `The draft still contains redaction placeholders without their original values (${placeholders})`,
+      code: "guardrails",
+    };
+  }
+
+  const tracker = createStepTracker(approval.runId);
+  const guard = evaluateGuardrails(content, getRuntimeSettings().guardrails.output);
+  if (guard.outcome === "block" || guard.outcome === "redact") {
+    const span = tracker.start("guardrail", "Outbound guardrails");
+    tracker.end(span, "error", summarizeGuardrails(guard));
+    return {
+      ok: false,
+      reason: `The outbound guardrails stopped the email (${describeGuardrailFindings(guard.findings)}). Revise the draft before sending.`,
+      code: "guardrails",
+    };
+  }
+
+  const resolution = getMailTransport();
+  if (!resolution.ok) {
+    return { ok: false, reason: resolution.reason, code: "unconfigured" };
+  }
+
+  const from = resolveEmailSender();
+  const messageId = createMessageId();
+  const recipients = [...to, ...cc, ...bcc];
+  const span = tracker.start("delivery", "Send email", {
+    message: `Sending to ${recipients.length} recipient${recipients.length === 1 ? "" : "s"} via ${resolution.name}`,
+  });
+  const base = {
+    id: randomUUID(),
+    cacheKey,
+    ...(variant ? { variant } : {}),
+    transport: resolution.name,
+    messageId,
+    to,
+    cc,
+    bcc,
+  };
+
+  try {
+    const info = await resolution.transport.sendMail({
+      from,
+      to,
+      cc,
+      bcc,
+      messageId,
+      raw: renderEmailMessage({ ...content, from, to, cc, messageId }),
+    });
+    const delivery: EmailDelivery = {
+      ...base,
+      messageId: info.messageId,
+      status: info.rejected.length > 0 ? "partial" : "sent",
+      accepted: info.accepted,
+      rejected: info.rejected,
+      response: info.response,
+      sentAt: new Date().toISOString(),
+    };
+    const refused = info.rejected.length > 0 ? `; refused ${info.rejected.join(", ")}` : "";
+    tracker.end(span, "done", `Sent ${info.messageId} to ${info.accepted.join(", ")}${refused}`);
+    recordRunDelivery(approval.runId, delivery);
+    return { ok: true, delivery };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const delivery: EmailDelivery = {
+      ...base,
+      status: "failed",
+      accepted: [],
+      rejected: recipients,
+      error: reason,
+      sentAt: new Date().toISOString(),
+    };
+    tracker.end(span, "error", `Delivery failed: ${reason}`);
+    recordRunDelivery(approval.runId, delivery);
+    return { ok: false, reason: `Delivery failed: ${reason}`, code: "failed", delivery };
+  }
+};
@@ -0,0 +1,182 @@
+import net from "net";
+import tls from "tls";
+import type { MailTransport, OutboundMail, SentMailInfo } from "@/server/email/transport";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export type SmtpTransportOptions = {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /**
+   * Refuse to continue unless the connection is encrypted, either from the start or after STARTTLS.
+   * Defaults to on when credentials are set, so a password is never sent in cleartext.
+   */
+  requireTLS?: boolean;
+  /** Extra TLS settings, e.g. a private CA for an internal relay. */
+  tls?: Pick<tls.ConnectionOptions, "ca" | "rejectUnauthorized">;
+  /** Hostname announced in EHLO. */
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+export const parseSmtpUrl = (value: string): SmtpTransportOptions | undefined => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+  if ((url.protocol !== "smtp:" && url.protocol !== "smtps:") || !url.hostname) return undefined;
+
+  const secure = url.protocol === "smtps:";
+  return {
+    host: url.hostname,
+    port: url.port ? Number(url.port) : secure ? 465 : 587,
+    secure,
+    user: url.username ? decodeURIComponent(url.username) : undefined,
+    pass: url.password ? decodeURIComponent(url.password) : undefined,
+  };
+};
+
+type SmtpReply = { code: number; text: string };
+
+/** Reads complete (possibly multi-line) replies from the server in order. */
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | undefined;
+
+  const flush = () => {
+    while (replies.length > 0 && waiting.length > 0) waiting.shift()!.resolve(replies.shift()!);
+    if (failure) waiting.splice(0).forEach(({ reject }) => reject(failure!));
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line);
+      // "250-..." continues a reply; "250 ..." ends it.
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.map((entry) => entry.slice(4)).join("\n") });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onFailure = (error?: Error) => {
+    failure ??= error ?? new Error("SMTP connection closed");
+    flush();
+  };
+
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    read: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        waiting.push({ resolve, reject });
+        flush();
+      }),
+    /** Stops reading, e.g. before the socket is handed to TLS for STARTTLS. */
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+};
+
+const extractAddress = (value: string) => /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+
+// Lines that start with "." are escaped so they do not end the DATA section early.
+const dotStuff = (raw: string) => raw.replace(/(^|\r\n)\./g, "$1..");
+
+/**
+ * A minimal SMTP client in the spirit of nodemailer's SMTP transport: EHLO, STARTTLS when offered,
+ * AUTH PLAIN when credentials are set (only once the connection is encrypted, unless `requireTLS` is
+ * turned off), then one envelope per message. Each send uses its own connection.
+ */
+export const createSmtpTransport = (options: SmtpTransportOptions): MailTransport => ({
+  sendMail: async (mail: OutboundMail): Promise<SentMailInfo> => {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const requireTLS = options.requireTLS ?? Boolean(options.user);
+    // SNI only carries hostnames; Node rejects IP addresses there.
+    const servername = net.isIP(options.host) ? undefined : options.host;
+    const connect = () =>
+      options.secure
+        ? tls.connect({ ...options.tls, host: options.host, port: options.port, servername })
+        : net.connect({ host: options.host, port: options.port });
+
+    let socket: net.Socket = connect();
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server did not respond within ${timeoutMs}ms`)));
+    let reader = createReplyReader(socket);
+
+    // `label` names the command in errors, so credentials and message bodies never end up in them.
+    const command = async (line: string | undefined, expected: number[], label = line ?? "greeting") => {
+      if (line !== undefined) socket.write(`${line}\r\n`);
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(undefined, [220]);
+      const clientName = options.clientName ?? "sidekick.local";
+      let ehlo = await command(`EHLO ${clientName}`, [250]);
+
+      let encrypted = options.secure;
+      if (!options.secure && /^STARTTLS\b/im.test(ehlo.text)) {
+        await command("STARTTLS", [220]);
+        reader.detach();
+        socket = tls.connect({ ...options.tls, socket, host: options.host, servername });
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server did not respond within ${timeoutMs}ms`)));
+        reader = createReplyReader(socket);
+        ehlo = await command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+      if (requireTLS && !encrypted) {
+        throw new Error("SMTP server does not offer STARTTLS; refusing to continue over an unencrypted connection");
+      }
+
+      if (options.user) {
+        const token = Buffer.from(`\u0000${options.user}\u0000${options.pass ?? ""}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${token}`, [235], "AUTH PLAIN");
+      }
+
+      await command(`MAIL FROM:<${extractAddress(mail.from)}>`, [250]);
+      const accepted: string[] = [];
+      const rejected: string[] = [];
+      for (const recipient of [...mail.to, ...mail.cc, ...mail.bcc]) {
+        socket.write(`RCPT TO:<${recipient}>\r\n`);
+        const reply = await reader.read();
+        (reply.code === 250 || reply.code === 251 ? accepted : rejected).push(recipient);
+      }
+      if (accepted.length === 0) {
+        throw new Error(`SMTP server rejected every recipient (${rejected.join(", ")})`);
+      }
+
+      await command("DATA", [354]);
+      const raw = mail.raw.endsWith("\r\n") ? mail.raw : `${mail.raw}\r\n`;
+      const response = await command(`${dotStuff(raw)}.`, [250], "message data");
+      await command("QUIT", [221]).catch(() => undefined);
+
+      return { messageId: mail.messageId, accepted, rejected, response: `${response.code} ${response.text}` };
+    } finally {
+      socket.destroy();
+    }
+  },
+});
@@ -0,0 +1,66 @@
+import type { GuardrailDetectorId } from "@/models/guardrails";
+
+export type DetectedSpan = { start: number; end: number };
+
+export type GuardrailDetector = {
+  id: GuardrailDetectorId;
+  detect: (text: string) => DetectedSpan[];
+};
+
+const matchSpans = (text: string, pattern: RegExp, accept: (match: string) => boolean = () => true) =>
+  Array.from(text.matchAll(pattern))
+    .filter((match) => accept(match[0]))
+    .map((match) => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+
+/** Luhn checksum, so order numbers and timestamps that happen to be 16 digits long do not trip the detector. */
+export const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const SSN_PATTERN = /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const SECRET_PATTERNS = [
+  /\bsk-[\w-]{20,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bxox[abprs]-[\w-]{10,}/g,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /\b(?:api[_-]?key|secret|token|password)\s*[:=]\s*["']?[^\s"']{8,}/gi,
+];
+const SENSITIVE_TERMS_PATTERN = /\b(?:passwords?|passcodes?|ssn|social security numbers?|credit\s*cards?)\b/gi;
+const PROFANITY_PATTERN = /\b(?:fuck\w*|shit\w*|bullshit|bitch\w*|asshole\w*|bastard\w*|dickhead\w*|crap)\b/gi;
+const PROMPT_INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules|messages)/gi,
+  /\b(?:reveal|print|show|repeat)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|instructions)\b/gi,
+  /\byou\s+are\s+now\s+(?:in\s+)?(?:developer|dan|jailbreak|unrestricted)\b/gi,
+  /^\s*(?:system|assistant)\s*:/gim,
+];
+
+/** Detectors in priority order: when spans overlap, the earlier detector claims the text. */
+export const GUARDRAIL_DETECTORS: GuardrailDetector[] = [
+  { id: "secret", detect: (text) => SECRET_PATTERNS.flatMap((pattern) => matchSpans(text, pattern)) },
+  {
+    id: "credit_card",
+    detect: (text) => matchSpans(text, CARD_PATTERN, (match) => passesLuhn(match.replace(/\D/g, ""))),
+  },
+  { id: "ssn", detect: (text) => matchSpans(text, SSN_PATTERN) },
+  { id: "email_address", detect: (text) => matchSpans(text, EMAIL_PATTERN) },
+  { id: "phone_number", detect: (text) => matchSpans(text, PHONE_PATTERN) },
+  { id: "sensitive_terms", detect: (text) => matchSpans(text, SENSITIVE_TERMS_PATTERN) },
+  { id: "profanity", detect: (text) => matchSpans(text, PROFANITY_PATTERN) },
+  {
+    id: "prompt_injection",
+    detect: (text) => PROMPT_INJECTION_PATTERNS.flatMap((pattern) => matchSpans(text, pattern)),
+  },
+];
@@ -0,0 +1,158 @@
+import {
+  GUARDRAIL_ACTIONS,
+  GUARDRAIL_DETECTOR_LABELS,
+  GUARDRAIL_PLACEHOLDERS,
+  formatRedactionPlaceholder,
+  type GuardrailAction,
+  type GuardrailActions,
+  type GuardrailDetectorId,
+  type GuardrailFinding,
+  type RedactedSpan,
+  type RedactionEntry,
+} from "@/models/guardrails";
+import { GUARDRAIL_DETECTORS } from "@/server/guardrails/detectors";
+
+export type GuardrailOutcome = "pass" | Exclude<GuardrailAction, "off">;
+
+export type GuardrailEvaluation<T> = {
+  outcome: GuardrailOutcome;
+  findings: GuardrailFinding[];
+  /** The checked value with every `redact` finding replaced by a numbered placeholder. */
+  value: T;
+  /** Placeholder → original value for every redacted span; keep it server-side. */
+  redactions: RedactionEntry[];
+};
+
+const severity = (action: GuardrailOutcome) => (action === "pass" ? 0 : GUARDRAIL_ACTIONS.indexOf(action));
+
+/**
+ * Hands out placeholders so a value that repeats across fields keeps one number. Seeded entries,
+ * e.g. an earlier draft's redactions, keep their placeholders and numbering continues after them.
+ */
+const createPlaceholderRegistry = (seed: RedactionEntry[]) => {
+  const entries = new Map<string, RedactionEntry>();
+  const counters = new Map<string, number>();
+  seed.forEach((entry) => {
+    entries.set(`${entry.detector}:${entry.original}`, { ...entry, fields: [...entry.fields] });
+    const base = GUARDRAIL_PLACEHOLDERS[entry.detector];
+    const index = Number(/_(\d+)\]$/.exec(entry.placeholder)?.[1] ?? 0);
+    counters.set(base, Math.max(counters.get(base) ?? 0, index));
+  });
+
+  return {
+    assign: (detector: GuardrailDetectorId, original: string, field: string) => {
+      const key = `${detector}:${original}`;
+      const existing = entries.get(key);
+      if (existing) {
+        if (!existing.fields.includes(field)) existing.fields.push(field);
+        return existing.placeholder;
+      }
+      const base = GUARDRAIL_PLACEHOLDERS[detector];
+      const index = (counters.get(base) ?? 0) + 1;
+      counters.set(base, index);
+      const placeholder = formatRedactionPlaceholder(detector, index);
+      entries.set(key, { placeholder, detector, fields: [field], original });
+      return placeholder;
+    },
+    entries: () => Array.from(entries.values()),
+  };
+};
+
+type PlaceholderRegistry = ReturnType<typeof createPlaceholderRegistry>;
+
+const scanText = (text: string, field: string, actions: GuardrailActions, registry: PlaceholderRegistry) => {
+  const claimed: GuardrailFinding[] = [];
+  for (const detector of GUARDRAIL_DETECTORS) {
+    const action = actions[detector.id];
+    if (action === "off") continue;
+    for (const span of detector.detect(text)) {
+      if (claimed.some((existing) => span.start < existing.end && existing.start < span.end)) continue;
+      claimed.push({ detector: detector.id, action, field, start: span.start, end: span.end });
+    }
+  }
+
+  const findings = claimed
+    .sort((a, b) => a.start - b.start)
+    .map((finding) =>
+      finding.action === "redact"
+        ? { ...finding, placeholder: registry.assign(finding.detector, text.slice(finding.start, finding.end), field) }
+        : finding,
+    );
+
+  const redacted = findings
+    .filter((finding) => finding.placeholder)
+    .reverse()
+    .reduce((current, finding) => current.slice(0, finding.start) + finding.placeholder + current.slice(finding.end), text);
+
+  return { findings, redacted };
+};
+
+/**
+ * Runs every enabled detector over each string in `value` (nested objects and arrays included) and
+ * reports the most severe action among the findings. Field paths use dots, e.g. `keyPoints.1`.
+ * `seed` carries earlier redactions forward so their placeholders are reused, not renumbered.
+ */
+export const evaluateGuardrails = <T>(
+  value: T,
+  actions: GuardrailActions,
+  seed: RedactionEntry[] = [],
+): GuardrailEvaluation<T> => {
+  const findings: GuardrailFinding[] = [];
+  const registry = createPlaceholderRegistry(seed);
+
+  const visit = (node: unknown, field: string): unknown => {
+    if (typeof node === "string") {
+      const scanned = scanText(node, field, actions, registry);
+      findings.push(...scanned.findings);
+      return scanned.redacted;
+    }
+    if (Array.isArray(node)) {
+      return node.map((entry, index) => visit(entry, field ? `${field}.${index}` : String(index)));
+    }
+    if (node && typeof node === "object") {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, entry]) => [key, visit(entry, field ? `${field}.${key}` : key)]),
+      );
+    }
+    return node;
+  };
+
+  const redacted = visit(value, "") as T;
+  const outcome = findings.reduce<GuardrailOutcome>(
+    (current, finding) => (severity(finding.action) > severity(current) ? finding.action : current),
+    "pass",
+  );
+  return { outcome, findings, value: redacted, redactions: registry.entries() };
+};
+
+/** Strips the original values so the list can be returned to the browser. */
+export const toRedactedSpans = (redactions: RedactionEntry[]): RedactedSpan[] =>
+  redactions.map(({ placeholder, detector, fields }) => ({ placeholder, detector, fields }));
+
+/** Puts the original values back in place of their placeholders. */
+export const restoreRedactions = (text: string, redactions: RedactionEntry[]) =>
+  redactions.reduce((current, entry) => current.split(entry.placeholder).join(entry.original), text);
+
+/** Distinct detector labels for the findings, for span messages and operator-facing errors. */
+export const describeGuardrailFindings = (findings: GuardrailFinding[], action?: GuardrailFinding["action"]) =>
+  Array.from(
+    new Set(
+      findings
+        .filter((finding) => !action || finding.action === action)
+        .map((finding) => GUARDRAIL_DETECTOR_LABELS[finding.detector].toLowerCase()),
+    ),
+  ).join(", ");
+
+/** One-line summary recorded on the guardrail span of a run. */
+export const summarizeGuardrails = ({ outcome, findings }: GuardrailEvaluation<unknown>) => {
+  switch (outcome) {
+    case "pass":
+      return "No sensitive content detected";
+    case "warn":
+      return `Allowed with warnings: ${describeGuardrailFindings(findings, "warn")}`;
+    case "redact":
+      return `Redacted ${describeGuardrailFindings(findings, "redact")}`;
+    case "block":
+      return `Blocked: ${describeGuardrailFindings(findings, "block")}`;
+  }
+};
@@ -0,0 +1,21 @@
+import type { RedactionEntry } from "@/models/guardrails";
+import { getDeliverableRepository } from "@/server/agents/store/deliverables";
+
+// Stored on the deliverable they belong to, in the server-only deliverable store, so placeholders can
+// still be restored after a restart and the originals are dropped together with their draft.
+export const saveRedactions = (cacheKey: string, redactions: RedactionEntry[]) => {
+  if (redactions.length === 0) return;
+  const stored = getDeliverableRepository().get(cacheKey);
+  if (!stored) return;
+  getDeliverableRepository().save({ ...stored, redactions });
+};
+
+export const getRedactions = (cacheKey: string) => getDeliverableRepository().get(cacheKey)?.redactions ?? [];
+
+/** Forgets every mapping while keeping the drafts, e.g. to exercise placeholders without originals. */
+export const resetRedactions = () => {
+  getDeliverableRepository()
+    .list()
+    .filter((stored) => stored.redactions)
+    .forEach((stored) => getDeliverableRepository().save({ ...stored, redactions: undefined }));
+};
@@ -0,0 +1,58 @@
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it", "its",
+  "of", "on", "or", "that", "the", "to", "was", "were", "will", "with",
+]);
+
+export const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+export type Bm25Document = { id: string; text: string };
+
+export type Bm25Hit = { id: string; score: number };
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** In-memory Okapi BM25 index; rebuild it whenever the underlying documents change. */
+export const createBm25Index = (documents: Bm25Document[]) => {
+  const termFrequencies = documents.map((document) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(document.text);
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return { id: document.id, counts, length: tokens.length };
+  });
+  const documentFrequency = new Map<string, number>();
+  termFrequencies.forEach(({ counts }) =>
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)),
+  );
+  const averageLength =
+    termFrequencies.reduce((total, entry) => total + entry.length, 0) / Math.max(termFrequencies.length, 1);
+
+  const idf = (term: string) => {
+    const frequency = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (termFrequencies.length - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  const search = (query: string, limit = 5): Bm25Hit[] => {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    return termFrequencies
+      .map(({ id, counts, length }) => {
+        const score = terms.reduce((total, term) => {
+          const frequency = counts.get(term) ?? 0;
+          if (frequency === 0) return total;
+          const normaliser = frequency + K1 * (1 - B + (B * length) / (averageLength || 1));
+          return total + idf(term) * ((frequency * (K1 + 1)) / normaliser);
+        }, 0);
+        return { id, score };
+      })
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { size: termFrequencies.length, search };
+};
+
+export type Bm25Index = ReturnType<typeof createBm25Index>;
@@ -0,0 +1,62 @@
+export type TextSpan = { start: number; end: number };
+
+export type ChunkOptions = {
+  maxChars?: number;
+};
+
+const DEFAULT_MAX_CHARS = 1200;
+
+const trimSpan = (text: string, start: number, end: number): TextSpan => {
+  while (start < end && /\s/.test(text[start])) start += 1;
+  while (end > start && /\s/.test(text[end - 1])) end -= 1;
+  return { start, end };
+};
+
+const paragraphSpans = (text: string) => {
+  const spans: TextSpan[] = [];
+  const separator = /\n\s*\n/g;
+  let cursor = 0;
+  for (const match of text.matchAll(separator)) {
+    spans.push(trimSpan(text, cursor, match.index ?? cursor));
+    cursor = (match.index ?? cursor) + match[0].length;
+  }
+  spans.push(trimSpan(text, cursor, text.length));
+  return spans.filter((span) => span.end > span.start);
+};
+
+// Paragraphs longer than the budget are cut at the last sentence end or whitespace that fits.
+const splitLongSpan = (text: string, span: TextSpan, maxChars: number) => {
+  const pieces: TextSpan[] = [];
+  let start = span.start;
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const sentenceBreak = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+    const wordBreak = window.lastIndexOf(" ");
+    const cut = sentenceBreak > maxChars / 2 ? sentenceBreak + 1 : wordBreak > 0 ? wordBreak : maxChars;
+    pieces.push(trimSpan(text, start, start + cut));
+    start = trimSpan(text, start + cut, span.end).start;
+  }
+  pieces.push(trimSpan(text, start, span.end));
+  return pieces.filter((piece) => piece.end > piece.start);
+};
+
+/**
+ * Splits text into chunks of at most `maxChars`, packing whole paragraphs where possible.
+ * Returned spans index into the original text so passages can be cited by offset.
+ */
+export const chunkText = (text: string, { maxChars = DEFAULT_MAX_CHARS }: ChunkOptions = {}): TextSpan[] => {
+  const pieces = paragraphSpans(text).flatMap((span) =>
+    span.end - span.start > maxChars ? splitLongSpan(text, span, maxChars) : [span],
+  );
+
+  const chunks: TextSpan[] = [];
+  pieces.forEach((piece) => {
+    const current = chunks.at(-1);
+    if (current && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+    } else {
+      chunks.push({ ...piece });
+    }
+  });
+  return chunks;
+};
@@ -0,0 +1,342 @@
+import zlib from "zlib";
+import { findKnowledgeFileFormat, getFileExtension } from "@/models/knowledge";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+/** Total decompressed size allowed across a PDF's content streams, so a deflate bomb cannot exhaust memory. */
+export const MAX_PDF_INFLATED_BYTES = 50 * 1024 * 1024;
+
+export type ExtractionInput = {
+  fileName: string;
+  mimeType?: string;
+  data: Buffer;
+};
+
+export type ExtractionResult = { ok: true; text: string; mimeType: string } | { ok: false; reason: string };
+
+const collapseWhitespace = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Page chrome rarely carries knowledge worth indexing.
+const BOILERPLATE_TAGS = ["script", "style", "noscript", "template", "svg", "iframe", "nav", "header", "footer", "aside", "form"];
+const BLOCK_TAGS = /<\/?(p|div|section|article|main|li|ul|ol|tr|table|h[1-6]|pre|blockquote|dd|dt)\b[^>]*>|<br\s*\/?>/gi;
+
+export const extractHtml = (html: string) => {
+  let source = html.replace(/<!--[\s\S]*?-->/g, "");
+  BOILERPLATE_TAGS.forEach((tag) => {
+    source = source.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, "gi"), " ");
+  });
+  const main = source.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  const title = source.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const body = main?.[2] ?? source.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? source;
+
+  const text = body
+    .replace(BLOCK_TAGS, "\n\n")
+    .replace(/<[^>]+>/g, " ");
+  const heading = title && !main ? `${decodeEntities(title).trim()}\n\n` : "";
+  return collapseWhitespace(heading + decodeEntities(text));
+};
+
+export const extractMarkdown = (markdown: string) =>
+  collapseWhitespace(
+    markdown
+      .replace(/^---\n[\s\S]*?\n---\n/, "")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/<[^>]+>/g, " "),
+  );
+
+const parseCsvRows = (csv: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < csv.length; index += 1) {
+    const char = csv[index];
+    if (quoted) {
+      if (char === '"' && csv[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((candidate) => candidate.some((value) => value.trim()));
+};
+
+/** Renders each row as `Header: value` pairs so rows stay meaningful once chunked. */
+export const extractCsv = (csv: string) => {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) return "";
+  const labels = header.map((label, index) => label.trim() || `Column ${index + 1}`);
+  return rows
+    .map((row) =>
+      row
+        .map((value, index) => (value.trim() ? `${labels[index] ?? `Column ${index + 1}`}: ${value.trim()}` : ""))
+        .filter(Boolean)
+        .join("; "),
+    )
+    .join("\n");
+};
+
+/** Flattens JSON into `path: value` lines; throws on invalid JSON. */
+export const extractJson = (json: string) => {
+  const lines: string[] = [];
+  const visit = (value: unknown, keyPath: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${keyPath}[${index}]`));
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([key, child]) => visit(child, keyPath ? `${keyPath}.${key}` : key));
+    } else if (value !== null && value !== undefined && value !== "") {
+      lines.push(keyPath ? `${keyPath}: ${String(value)}` : String(value));
+    }
+  };
+  visit(JSON.parse(json), "");
+  return lines.join("\n");
+};
+
+const readPdfLiteral = (content: string, start: number) => {
+  let depth = 1;
+  let index = start + 1;
+  let value = "";
+  while (index < content.length && depth > 0) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+      if (next in escapes) {
+        value += escapes[next];
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        index += 1 + octal.length;
+      } else {
+        index += next === "\r" && content[index + 2] === "\n" ? 3 : 2;
+      }
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (depth > 0) value += char;
+    index += 1;
+  }
+  return { value, end: index };
+};
+
+const decodePdfHex = (hex: string) => {
+  const clean = hex.replace(/\s+/g, "");
+  const bytes = Buffer.from(clean.length % 2 ? `${clean}0` : clean, "hex");
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return bytes.subarray(2).swap16().toString("utf16le");
+  }
+  return bytes.toString("latin1");
+};
+
+const PDF_TOKEN = /[^\s()<>[\]/%]+|\S/y;
+
+const extractPdfContentText = (content: string) => {
+  let output = "";
+  let operands: Array<string | string[]> = [];
+  let array: string[] | undefined;
+  let index = 0;
+
+  const pushText = (text: string) => {
+    output += text;
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "(") {
+      const literal = readPdfLiteral(content, index);
+      (array ?? operands).push(literal.value);
+      index = literal.end;
+    } else if (char === "<" && content[index + 1] !== "<") {
+      const end = content.indexOf(">", index);
+      const value = decodePdfHex(content.slice(index + 1, end === -1 ? content.length : end));
+      (array ?? operands).push(value);
+      index = end === -1 ? content.length : end + 1;
+    } else if (char === "[") {
+      array = [];
+      index += 1;
+    } else if (char === "]") {
+      if (array) operands.push(array);
+      array = undefined;
+      index += 1;
+    } else if (/\s/.test(char)) {
+      index += 1;
+    } else {
+      PDF_TOKEN.lastIndex = index;
+      const token = PDF_TOKEN.exec(content)![0];
+      index += token.length;
+      if (array) {
+        // Large negative kerning inside TJ arrays usually stands for a word gap.
+        if (Number(token) < -200) array.push(" ");
+        continue;
+      }
+      switch (token) {
+        case "Tj":
+        case "'":
+        case '"': {
+          if (token !== "Tj") pushText("\n");
+          const text = operands.at(-1);
+          if (typeof text === "string") pushText(text);
+          break;
+        }
+        case "TJ": {
+          const parts = operands.at(-1);
+          if (Array.isArray(parts)) pushText(parts.join(""));
+          break;
+        }
+        case "Td":
+        case "TD":
+        case "T*":
+        case "Tm":
+        case "ET":
+          pushText("\n");
+          break;
+        default:
+          break;
+      }
+      if (!/^[-+.\d]/.test(token) && !token.startsWith("/")) operands = [];
+      else operands.push(token);
+    }
+  }
+  return output;
+};
+
+/**
+ * Pulls text out of text-based PDFs by decoding content streams (raw or FlateDecode) and
+ * reading their text-showing operators. Scanned or CID-font PDFs yield little or nothing.
+ */
+export const extractPdf = (data: Buffer) => {
+  const raw = data.toString("latin1");
+  if (!raw.startsWith("%PDF")) {
+    throw new Error("File is not a PDF");
+  }
+  if (/\/Encrypt\b/.test(raw)) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  const texts: string[] = [];
+  let inflateBudget = MAX_PDF_INFLATED_BYTES;
+  const streamPattern = /<<((?:[^<>]|<<[^>]*>>|<[^<][^>]*>)*)>>\s*stream\r?\n/g;
+  for (const match of raw.matchAll(streamPattern)) {
+    const dictionary = match[1];
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XObject|XRef|ObjStm)/.test(dictionary)) continue;
+
+    const start = (match.index ?? 0) + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) continue;
+    let bytes = data.subarray(start, end);
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        bytes = zlib.inflateSync(bytes, { maxOutputLength: Math.max(inflateBudget, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`PDF content expands beyond ${MAX_PDF_INFLATED_BYTES / (1024 * 1024)} MB`);
+        }
+        continue;
+      }
+      inflateBudget -= bytes.length;
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const content = bytes.toString("latin1");
+    if (/\bBT\b/.test(content)) {
+      texts.push(extractPdfContentText(content));
+    }
+  }
+  return collapseWhitespace(texts.join("\n\n"));
+};
+
+const decodeUtf8 = (data: Buffer) => data.toString("utf8").replace(/^\uFEFF/, "");
+
+const EXTRACTORS: Record<string, (data: Buffer) => string> = {
+  "text/markdown": (data) => extractMarkdown(decodeUtf8(data)),
+  "text/html": (data) => extractHtml(decodeUtf8(data)),
+  "application/pdf": extractPdf,
+  "text/csv": (data) => extractCsv(decodeUtf8(data)),
+  "application/json": (data) => extractJson(decodeUtf8(data)),
+  "text/plain": (data) => collapseWhitespace(decodeUtf8(data)),
+};
+
+export const extractDocumentText = ({ fileName, mimeType, data }: ExtractionInput): ExtractionResult => {
+  if (data.length === 0) {
+    return { ok: false, reason: "File is empty" };
+  }
+  if (data.length > MAX_UPLOAD_BYTES) {
+    return { ok: false, reason: `File exceeds ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` };
+  }
+
+  const format = findKnowledgeFileFormat(fileName, mimeType);
+  const extract = format && EXTRACTORS[format.mimeType];
+  if (!format || !extract) {
+    return { ok: false, reason: `Unsupported file type (${getFileExtension(fileName) || mimeType || "unknown"})` };
+  }
+
+  try {
+    const text = extract(data);
+    if (!text.trim()) {
+      return {
+        ok: false,
+        reason: format.mimeType === "application/pdf" ? "No extractable text (scanned PDF?)" : "No text found",
+      };
+    }
+    return { ok: true, text, mimeType: format.mimeType };
+  } catch (error) {
+    return { ok: false, reason: error instanceof Error ? error.message : "Extraction failed" };
+  }
+};
@@ -0,0 +1,302 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  knowledgeUploadSchema,
+  type KnowledgeChunk,
+  type KnowledgeDocument,
+  type KnowledgeDocumentSummary,
+  type KnowledgePassage,
+  type KnowledgeUpload,
+} from "@/models/knowledge";
+import { createBm25Index, type Bm25Index } from "@/server/knowledge/bm25";
+import { chunkText } from "@/server/knowledge/chunker";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+export type KnowledgeRepository = {
+  listDocuments: () => KnowledgeDocument[];
+  getDocument: (documentId: string) => KnowledgeDocument | undefined;
+  listChunks: () => KnowledgeChunk[];
+  save: (document: KnowledgeDocument, chunks: KnowledgeChunk[]) => void;
+  remove: (documentId: string) => boolean;
+  clear: () => void;
+};
+
+type KnowledgeSnapshot = { documents: KnowledgeDocument[]; chunks: KnowledgeChunk[] };
+
+export const createMemoryKnowledgeRepository = (seed: KnowledgeSnapshot = { documents: [], chunks: [] }) => {
+  const documents = new Map(seed.documents.map((document) => [document.id, document] as const));
+  let chunks = [...seed.chunks];
+
+  const repository: KnowledgeRepository = {
+    listDocuments: () => Array.from(documents.values()),
+    getDocument: (documentId) => documents.get(documentId),
+    listChunks: () => chunks,
+    save: (document, documentChunks) => {
+      documents.set(document.id, document);
+      chunks = [...chunks.filter((chunk) => chunk.documentId !== document.id), ...documentChunks];
+    },
+    remove: (documentId) => {
+      chunks = chunks.filter((chunk) => chunk.documentId !== documentId);
+      return documents.delete(documentId);
+    },
+    clear: () => {
+      documents.clear();
+      chunks = [];
+    },
+  };
+  return repository;
+};
+
+export const createFileKnowledgeRepository = (filePath: string): KnowledgeRepository => {
+  let memory: KnowledgeRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemoryKnowledgeRepository(readJsonFile<KnowledgeSnapshot>(filePath, { documents: [], chunks: [] }));
+    }
+    return memory;
+  };
+
+  const persist = () => {
+    const snapshot: KnowledgeSnapshot = { documents: load().listDocuments(), chunks: load().listChunks() };
+    try {
+      writeJsonFile(filePath, snapshot);
+    } catch (error) {
+      console.error("Failed to persist knowledge repository", error);
+    }
+  };
+
+  return {
+    listDocuments: () => load().listDocuments(),
+    getDocument: (documentId) => load().getDocument(documentId),
+    listChunks: () => load().listChunks(),
+    save: (document, chunks) => {
+      load().save(document, chunks);
+      persist();
+    },
+    remove: (documentId) => {
+      const removed = load().remove(documentId);
+      if (removed) persist();
+      return removed;
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+/**
+ * Optional semantic hook. When registered, chunks are embedded at ingestion time and search
+ * blends cosine similarity with the lexical BM25 score.
+ */
+export type EmbeddingProvider = {
+  name: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+let repository: KnowledgeRepository | undefined;
+let embeddingProvider: EmbeddingProvider | undefined;
+let lexicalIndex: Bm25Index | undefined;
+
+export const getKnowledgeRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryKnowledgeRepository()
+      : createFileKnowledgeRepository(resolveDataPath("knowledge.json"));
+  }
+  return repository;
+};
+
+export const setKnowledgeRepository = (next: KnowledgeRepository | undefined) => {
+  repository = next;
+  lexicalIndex = undefined;
+};
+
+export const setEmbeddingProvider = (provider: EmbeddingProvider | undefined) => {
+  embeddingProvider = provider;
+};
+
+const getLexicalIndex = () => {
+  if (!lexicalIndex) {
+    lexicalIndex = createBm25Index(getKnowledgeRepository().listChunks().map((chunk) => ({ id: chunk.id, text: chunk.text })));
+  }
+  return lexicalIndex;
+};
+
+export const toDocumentSummary = ({ content, ...document }: KnowledgeDocument): KnowledgeDocumentSummary => ({
+  ...document,
+  characters: content.length,
+});
+
+const normaliseContent = (content: string) => content.replace(/\r\n?/g, "\n").trim();
+
+const embedChunks = async (chunks: KnowledgeChunk[]) => {
+  if (!embeddingProvider || chunks.length === 0) return false;
+  try {
+    const vectors = await embeddingProvider.embed(chunks.map((chunk) => chunk.text));
+    if (vectors.length !== chunks.length) {
+      throw new Error(`expected ${chunks.length} vectors, received ${vectors.length}`);
+    }
+    chunks.forEach((chunk, index) => {
+      chunk.embedding = vectors[index];
+    });
+    return true;
+  } catch (error) {
+    // Lexical search still works without vectors, so a failing provider must not fail the upload.
+    console.error(`Embedding provider ${embeddingProvider.name} failed`, error);
+    return false;
+  }
+};
+
+export type IngestResult =
+  | { ok: true; document: KnowledgeDocumentSummary; duplicate: boolean }
+  | { ok: false; reason: string };
+
+export const ingestDocument = async (upload: KnowledgeUpload): Promise<IngestResult> => {
+  const parsed = knowledgeUploadSchema.safeParse(upload);
+  if (!parsed.success) {
+    return { ok: false, reason: parsed.error.issues.map((issue) => issue.message).join("; ") };
+  }
+
+  const content = normaliseContent(parsed.data.content);
+  const checksum = createHash("sha256").update(content).digest("hex");
+  const existing = getKnowledgeRepository()
+    .listDocuments()
+    .find((document) => document.checksum === checksum);
+  if (existing) {
+    return { ok: true, document: toDocumentSummary(existing), duplicate: true };
+  }
+
+  const documentId = randomUUID();
+  const chunks: KnowledgeChunk[] = chunkText(content).map((span, index) => ({
+    id: `${documentId}-chunk-${index + 1}`,
+    documentId,
+    index,
+    start: span.start,
+    end: span.end,
+    text: content.slice(span.start, span.end),
+  }));
+  const embedded = await embedChunks(chunks);
+
+  const document: KnowledgeDocument = {
+    id: documentId,
+    name: parsed.data.name,
+    mimeType: parsed.data.mimeType,
+    source: parsed.data.source,
+    checksum,
+    content,
+    chunkCount: chunks.length,
+    embedded,
+    createdAt: new Date().toISOString(),
+  };
+  getKnowledgeRepository().save(document, chunks);
+  lexicalIndex = undefined;
+
+  return { ok: true, document: toDocumentSummary(document), duplicate: false };
+};
+
+export const listKnowledgeDocuments = () =>
+  getKnowledgeRepository()
+    .listDocuments()
+    .map(toDocumentSummary)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+export const getKnowledgeDocument = (documentId: string) => {
+  const document = getKnowledgeRepository().getDocument(documentId);
+  if (!document) return undefined;
+  const chunks = getKnowledgeRepository()
+    .listChunks()
+    .filter((chunk) => chunk.documentId === documentId)
+    .sort((a, b) => a.index - b.index)
+    .map(({ embedding: _embedding, ...chunk }) => chunk);
+  return { document, chunks };
+};
+
+export const deleteKnowledgeDocument = (documentId: string) => {
+  const removed = getKnowledgeRepository().remove(documentId);
+  if (removed) lexicalIndex = undefined;
+  return removed;
+};
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export type KnowledgeSearchOptions = {
+  limit?: number;
+  documentIds?: string[];
+};
+
+/**
+ * Ranks chunks against the query. Scores are raw BM25 when no embedding provider is
+ * registered; otherwise they are an even blend of max-normalised BM25 and cosine similarity.
+ */
+export const searchKnowledge = async (
+  query: string,
+  { limit = 5, documentIds }: KnowledgeSearchOptions = {},
+): Promise<KnowledgePassage[]> => {
+  const chunks = new Map(getKnowledgeRepository().listChunks().map((chunk) => [chunk.id, chunk] as const));
+  const allowed = documentIds ? new Set(documentIds) : undefined;
+  const inScope = (chunkId: string) => {
+    const chunk = chunks.get(chunkId);
+    return Boolean(chunk && (!allowed || allowed.has(chunk.documentId)));
+  };
+
+  const lexical = getLexicalIndex()
+    .search(query, chunks.size)
+    .filter((hit) => inScope(hit.id));
+  const scores = new Map(lexical.map((hit) => [hit.id, hit.score] as const));
+
+  if (embeddingProvider && Array.from(chunks.values()).some((chunk) => chunk.embedding)) {
+    try {
+      const [queryVector] = await embeddingProvider.embed([query]);
+      const topLexical = lexical[0]?.score || 1;
+      const blended = new Map<string, number>();
+      chunks.forEach((chunk) => {
+        if (!inScope(chunk.id)) return;
+        const lexicalScore = (scores.get(chunk.id) ?? 0) / topLexical;
+        const semanticScore = chunk.embedding ? Math.max(cosineSimilarity(queryVector, chunk.embedding), 0) : 0;
+        const score = 0.5 * lexicalScore + 0.5 * semanticScore;
+        if (score > 0) blended.set(chunk.id, score);
+      });
+      scores.clear();
+      blended.forEach((score, chunkId) => scores.set(chunkId, score));
+    } catch (error) {
+      console.error(`Embedding provider ${embeddingProvider.name} failed; using lexical ranking`, error);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .flatMap(([chunkId, score]) => {
+      const chunk = chunks.get(chunkId)!;
+      const document = getKnowledgeRepository().getDocument(chunk.documentId);
+      if (!document) return [];
+      return [
+        {
+          documentId: document.id,
+          documentName: document.name,
+          chunkId,
+          start: chunk.start,
+          end: chunk.end,
+          text: chunk.text,
+          score: Number(score.toFixed(4)),
+        },
+      ];
+    });
+};
+
+export const resetKnowledge = () => {
+  getKnowledgeRepository().clear();
+  lexicalIndex = undefined;
+  embeddingProvider = undefined;
+};
@@ -0,0 +1,219 @@
+import fs from "fs";
+import {
+  OpenAIProvider,
+  Usage,
+  type AssistantMessageItem,
+  type FunctionCallItem,
+  type Model,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type StreamEvent,
+} from "@openai/agents";
+
+export type ModelProviderKind = "openai" | "openai-compatible" | "mock";
+
+export type ScriptedToolCall = {
+  name: string;
+  arguments?: unknown;
+  callId?: string;
+};
+
+/** One model response: either assistant text or one or more tool (or handoff) calls. */
+export type ScriptedTurn = { text: string } | { toolCalls: ScriptedToolCall[] };
+
+export type ModelProviderSettings =
+  | { kind: "openai"; apiKey: string; model?: string }
+  | { kind: "openai-compatible"; baseURL: string; apiKey?: string; model?: string }
+  | { kind: "mock"; turns: ScriptedTurn[] };
+
+export type ModelProviderResolution =
+  | { ok: true; name: string; provider: ModelProvider }
+  | { ok: false; reason: string };
+
+const STREAM_CHUNK_SIZE = 24;
+
+const lastUserText = (input: ModelRequest["input"]) => {
+  if (typeof input === "string") return input;
+  for (const item of [...input].reverse()) {
+    const candidate = item as { role?: unknown; content?: unknown };
+    if (candidate.role !== "user") continue;
+    if (typeof candidate.content === "string") return candidate.content;
+    if (Array.isArray(candidate.content)) {
+      return candidate.content
+        .map((part: { type?: string; text?: string }) => (part?.type === "input_text" ? (part.text ?? "") : ""))
+        .join("");
+    }
+  }
+  return "";
+};
+
+const availableToolNames = (request: ModelRequest) => [
+  ...request.tools.map((tool) => tool.name),
+  ...request.handoffs.map((handoff) => handoff.toolName),
+];
+
+/**
+ * Offline model that replays a recorded sequence of responses, one per model call, across every
+ * agent in the run (nested specialist runs included). Once the script is exhausted it answers
+ * with a deterministic echo of the last user message.
+ */
+export const createScriptedModelProvider = (turns: ScriptedTurn[] = []): ModelProvider & { remaining: () => number } => {
+  const queue = [...turns];
+  let responseCount = 0;
+
+  const respond = (request: ModelRequest): ModelResponse & { output: Array<AssistantMessageItem | FunctionCallItem> } => {
+    responseCount += 1;
+    const turn = queue.shift() ?? { text: `Mock response to: ${lastUserText(request.input) || "(no input)"}` };
+    let output: Array<AssistantMessageItem | FunctionCallItem>;
+
+    if ("toolCalls" in turn) {
+      const available = availableToolNames(request);
+      output = turn.toolCalls.map((call, index) => {
+        if (!available.includes(call.name)) {
+          throw new Error(`Scripted tool call "${call.name}" is not available (agent offers: ${available.join(", ") || "none"})`);
+        }
+        return {
+          type: "function_call",
+          callId: call.callId ?? `mock-call-${responseCount}-${index + 1}`,
+          name: call.name,
+          arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+          status: "completed",
+        };
+      });
+    } else {
+      output = [
+        {
+          type: "message",
+          id: `mock-message-${responseCount}`,
+          role: "assistant",
+          status: "completed",
+          content: [{ type: "output_text", text: turn.text }],
+        },
+      ];
+    }
+
+    return {
+      usage: new Usage({ requests: 1, inputTokens: 0, outputTokens: 0, totalTokens: 0 }),
+      output,
+      responseId: `mock-response-${responseCount}`,
+    };
+  };
+
+  const model: Model = {
+    getResponse: async (request) => respond(request),
+    async *getStreamedResponse(request): AsyncIterable<StreamEvent> {
+      const response = respond(request);
+      yield { type: "response_started" };
+      for (const item of response.output) {
+        if (item.type !== "message") continue;
+        for (const part of item.content) {
+          if (part.type !== "output_text") continue;
+          for (let index = 0; index < part.text.length; index += STREAM_CHUNK_SIZE) {
+            yield { type: "output_text_delta", delta: part.text.slice(index, index + STREAM_CHUNK_SIZE) };
+          }
+        }
+      }
+      yield {
+        type: "response_done",
+        response: {
+          id: response.responseId ?? `mock-response-${responseCount}`,
+          usage: { requests: 1, inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+          output: response.output,
+        },
+      };
+    },
+  };
+
+  return {
+    getModel: () => model,
+    remaining: () => queue.length,
+  };
+};
+
+/** Forces every agent onto one model name; local servers rarely serve the names agents declare. */
+const withModelOverride = (provider: ModelProvider, model?: string): ModelProvider =>
+  model ? { getModel: () => provider.getModel(model) } : provider;
+
+export const createModelProvider = (settings: ModelProviderSettings): ModelProvider => {
+  switch (settings.kind) {
+    case "openai":
+      return withModelOverride(new OpenAIProvider({ apiKey: settings.apiKey }), settings.model);
+    case "openai-compatible":
+      // Ollama and vLLM speak Chat Completions rather than the Responses API.
+      return withModelOverride(
+        new OpenAIProvider({ apiKey: settings.apiKey ?? "local", baseURL: settings.baseURL, useResponses: false }),
+        settings.model,
+      );
+    default:
+      return createScriptedModelProvider(settings.turns);
+  }
+};
+
+const loadScript = (filePath: string): ScriptedTurn[] => {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain a JSON array of scripted turns`);
+  }
+  return parsed as ScriptedTurn[];
+};
+
+/**
+ * Reads provider settings from the environment: `SIDEKICK_MODEL_PROVIDER` picks the backend
+ * (defaults to `openai`), `SIDEKICK_MODEL` overrides every agent's model, `OPENAI_BASE_URL`
+ * points the compatible backend at a local server and `SIDEKICK_MOCK_SCRIPT` names a JSON file
+ * of scripted turns for the mock.
+ */
+export const resolveModelProviderSettings = (
+  env: Record<string, string | undefined> = process.env,
+): { ok: true; settings: ModelProviderSettings } | { ok: false; reason: string } => {
+  const kind = (env.SIDEKICK_MODEL_PROVIDER?.trim() || "openai") as ModelProviderKind;
+  const model = env.SIDEKICK_MODEL?.trim() || undefined;
+
+  switch (kind) {
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY?.trim();
+      return apiKey
+        ? { ok: true, settings: { kind, apiKey, model } }
+        : { ok: false, reason: "OPENAI_API_KEY is not configured" };
+    }
+    case "openai-compatible": {
+      const baseURL = env.OPENAI_BASE_URL?.trim();
+      if (!baseURL) return { ok: false, reason: "OPENAI_BASE_URL is required for the openai-compatible provider" };
+      return { ok: true, settings: { kind, baseURL, apiKey: env.OPENAI_API_KEY?.trim() || undefined, model } };
+    }
+    case "mock": {
+      const scriptPath = env.SIDEKICK_MOCK_SCRIPT?.trim();
+      try {
+        return { ok: true, settings: { kind, turns: scriptPath ? loadScript(scriptPath) : [] } };
+      } catch (error) {
+        return { ok: false, reason: `Failed to load mock script: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+    default:
+      return { ok: false, reason: `Unknown model provider "${kind}"` };
+  }
+};
+
+let override: { name: string; provider: ModelProvider } | undefined;
+let cached: { key: string; name: string; provider: ModelProvider } | undefined;
+
+/** Replaces the environment-configured provider (tests install a scripted one). */
+export const setModelProvider = (provider: ModelProvider | undefined, name = "custom") => {
+  override = provider ? { name, provider } : undefined;
+};
+
+export const getModelProvider = (): ModelProviderResolution => {
+  if (override) return { ok: true, ...override };
+  const resolved = resolveModelProviderSettings();
+  if (!resolved.ok) return resolved;
+
+  // Reused while the settings are unchanged, so a mock script is consumed across nested runs.
+  const key = JSON.stringify(resolved.settings);
+  if (cached?.key !== key) {
+    cached = { key, name: resolved.settings.kind, provider: createModelProvider(resolved.settings) };
+  }
+  return { ok: true, name: cached.name, provider: cached.provider };
+};
+
+export const isModelProviderConfigured = () => getModelProvider().ok;
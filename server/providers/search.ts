@@ -0,0 +1,140 @@
+import type { ResearchSource } from "@/models/research";
+import { extractHtml } from "@/server/knowledge/extractors";
+import { createBm25Index } from "@/server/knowledge/bm25";
+
+export type SearchResult = ResearchSource;
+
+export type FetchedContent = {
+  url: string;
+  title: string;
+  text: string;
+};
+
+/** Backend for the research tools. Swap it out with `setSearchProvider` (tests use fixtures). */
+export type SearchProvider = {
+  name: string;
+  search: (query: string, options?: { limit?: number }) => Promise<SearchResult[]>;
+  fetchContent: (url: string) => Promise<FetchedContent>;
+};
+
+const FETCH_TIMEOUT_MS = 10_000;
+/** Only the start of a page is read; the fetch tool keeps far less than this. */
+export const MAX_FETCH_BYTES = 1024 * 1024;
+const DEFAULT_RESULT_LIMIT = 5;
+
+export type SearchFixture = {
+  url: string;
+  title: string;
+  snippet?: string;
+  content: string;
+};
+
+/** Offline backend: ranks fixture documents with BM25 and serves their content by URL. */
+export const createFixtureSearchProvider = (fixtures: SearchFixture[]): SearchProvider => {
+  const index = createBm25Index(
+    fixtures.map((fixture) => ({ id: fixture.url, text: `${fixture.title}\n${fixture.snippet ?? ""}\n${fixture.content}` })),
+  );
+  const byUrl = new Map(fixtures.map((fixture) => [fixture.url, fixture] as const));
+
+  return {
+    name: "fixture",
+    search: async (query, { limit = DEFAULT_RESULT_LIMIT } = {}) =>
+      index.search(query, limit).map(({ id }) => {
+        const fixture = byUrl.get(id)!;
+        return { title: fixture.title, url: fixture.url, snippet: fixture.snippet ?? fixture.content.slice(0, 200) };
+      }),
+    fetchContent: async (url) => {
+      const fixture = byUrl.get(url);
+      if (!fixture) {
+        throw new Error(`No fixture content for ${url}`);
+      }
+      return { url, title: fixture.title, text: fixture.content };
+    },
+  };
+};
+
+const fetchWithTimeout = async (url: string, init: RequestInit = {}) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/** Reads at most `maxBytes` of the body and cancels the rest of the download. */
+const readBodyText = async (response: Response, maxBytes: number) => {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  if (total >= maxBytes) {
+    await reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes).toString("utf8");
+};
+
+const fetchPublicContent = async (url: string): Promise<FetchedContent> => {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error(`Unsupported protocol ${parsed.protocol}`);
+  }
+
+  const response = await fetchWithTimeout(url, { headers: { Accept: "text/html,text/plain;q=0.9" } });
+  if (!response.ok) {
+    throw new Error(`Fetch failed (${response.status})`);
+  }
+
+  const body = await readBodyText(response, MAX_FETCH_BYTES);
+  const isHtml = response.headers.get("content-type")?.includes("html") ?? /<html/i.test(body);
+  const title = isHtml ? body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() : undefined;
+  return { url, title: title || parsed.hostname, text: isHtml ? extractHtml(body) : body };
+};
+
+/** Brave Search API backend, enabled when `BRAVE_SEARCH_API_KEY` is set. */
+export const createBraveSearchProvider = (apiKey: string): SearchProvider => ({
+  name: "brave",
+  search: async (query, { limit = DEFAULT_RESULT_LIMIT } = {}) => {
+    const url = `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${limit}`;
+    const response = await fetchWithTimeout(url, {
+      headers: { Accept: "application/json", "X-Subscription-Token": apiKey },
+    });
+    if (!response.ok) {
+      throw new Error(`Search failed (${response.status})`);
+    }
+    const data = (await response.json()) as { web?: { results?: Array<{ title?: string; url?: string; description?: string }> } };
+    return (data.web?.results ?? [])
+      .filter((result) => result.url && result.title)
+      .map((result) => ({ title: result.title!, url: result.url!, snippet: result.description ?? null }));
+  },
+  fetchContent: fetchPublicContent,
+});
+
+const unconfiguredProvider: SearchProvider = {
+  name: "unconfigured",
+  search: async () => {
+    throw new Error("No web search provider configured (set BRAVE_SEARCH_API_KEY)");
+  },
+  fetchContent: fetchPublicContent,
+};
+
+let provider: SearchProvider | undefined;
+
+export const getSearchProvider = () => {
+  if (!provider) {
+    const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+    provider = apiKey ? createBraveSearchProvider(apiKey) : unconfiguredProvider;
+  }
+  return provider;
+};
+
+export const setSearchProvider = (next: SearchProvider | undefined) => {
+  provider = next;
+};
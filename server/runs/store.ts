@@ -0,0 +1,234 @@
+import type { ActivityRun, ActivityStatus, ActivityStepLog, RunAgentDetails, RunSpan, RunSummary } from "@/models/activity";
+import type { EmailDelivery } from "@/models/email";
+import { publishActivity } from "@/server/activity/bus";
+import { releaseRunOutcomes } from "@/server/agents/store/deliverables";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+const MAX_STORED_RUNS = 200;
+
+export type RunRepository = {
+  list: () => ActivityRun[];
+  get: (runId: string) => ActivityRun | undefined;
+  save: (run: ActivityRun) => void;
+  clear: () => void;
+};
+
+const sortByStarted = (runs: ActivityRun[]) =>
+  [...runs].sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+
+export const createMemoryRunRepository = (seed: ActivityRun[] = []): RunRepository => {
+  const runs = new Map(seed.map((run) => [run.id, run] as const));
+
+  return {
+    list: () => Array.from(runs.values()),
+    get: (runId) => runs.get(runId),
+    save: (run) => {
+      runs.set(run.id, run);
+    },
+    clear: () => runs.clear(),
+  };
+};
+
+export const createFileRunRepository = (filePath: string, maxRuns = MAX_STORED_RUNS): RunRepository => {
+  let cache: Map<string, ActivityRun> | undefined;
+
+  const load = () => {
+    if (!cache) {
+      const stored = readJsonFile<ActivityRun[]>(filePath, []);
+      cache = new Map(stored.map((run) => [run.id, run] as const));
+    }
+    return cache;
+  };
+
+  const persist = () => {
+    const runs = load();
+    const retained = sortByStarted(Array.from(runs.values())).slice(0, maxRuns);
+    if (retained.length < runs.size) {
+      cache = new Map(retained.map((run) => [run.id, run] as const));
+    }
+
+    try {
+      writeJsonFile(filePath, retained);
+    } catch (error) {
+      console.error("Failed to persist run repository", error);
+    }
+  };
+
+  return {
+    list: () => Array.from(load().values()),
+    get: (runId) => load().get(runId),
+    save: (run) => {
+      load().set(run.id, run);
+      persist();
+    },
+    clear: () => {
+      load().clear();
+      persist();
+    },
+  };
+};
+
+let repository: RunRepository | undefined;
+
+export const getRunRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemoryRunRepository()
+      : createFileRunRepository(resolveDataPath("runs.json"));
+  }
+  return repository;
+};
+
+export const setRunRepository = (next: RunRepository | undefined) => {
+  repository = next;
+};
+
+export const toRunSummary = (run: ActivityRun): RunSummary => {
+  const started = new Date(run.startedAt).getTime();
+  const finished = run.completedAt ? new Date(run.completedAt).getTime() : Date.now();
+  return {
+    id: run.id,
+    name: run.name,
+    status: run.status,
+    startedAt: run.startedAt,
+    durationMs: Math.max(finished - started, 0),
+  };
+};
+
+type BeginRunOptions = {
+  runId: string;
+  name: string;
+  workflowId?: string;
+  threadId?: string;
+  message?: string;
+};
+
+type StepDetails = Pick<ActivityStepLog, "spanId" | "parentSpanId" | "kind" | "progress" | "durationMs">;
+
+const buildStep = (
+  run: ActivityRun,
+  status: ActivityStatus,
+  message: string,
+  details: StepDetails = {},
+): ActivityStepLog => ({
+  id: `${run.id}-step-${run.steps.length + 1}`,
+  runId: run.id,
+  status,
+  message,
+  timestamp: new Date().toISOString(),
+  ...details,
+});
+
+export const beginRun = ({ runId, name, workflowId, threadId, message }: BeginRunOptions) => {
+  const existing = getRunRepository().get(runId);
+  if (existing) return existing;
+
+  const run: ActivityRun = {
+    id: runId,
+    name,
+    status: "running",
+    startedAt: new Date().toISOString(),
+    workflowId,
+    threadId,
+    steps: [],
+  };
+  if (message) {
+    run.steps.push(buildStep(run, "running", message));
+  }
+
+  getRunRepository().save(run);
+  publishActivity({ type: "run.updated", run, timestamp: run.startedAt });
+  return run;
+};
+
+export const logRunStep = (runId: string, status: ActivityStatus, message: string) => {
+  const run = getRunRepository().get(runId);
+  if (!run) return undefined;
+
+  const step = buildStep(run, status, message);
+  getRunRepository().save({ ...run, steps: [...run.steps, step] });
+  publishActivity({ type: "step.logged", runId, step, timestamp: step.timestamp });
+  return step;
+};
+
+/**
+ * Upserts a timeline span on the run and mirrors the change into the step log so live
+ * subscribers see span transitions as regular `step.logged` events.
+ */
+export const recordRunSpan = (span: RunSpan, message: string) => {
+  const run = getRunRepository().get(span.runId);
+  if (!run) return undefined;
+
+  const spans = run.spans ?? [];
+  const index = spans.findIndex((item) => item.id === span.id);
+  const nextSpans = index === -1 ? [...spans, span] : spans.map((item, itemIndex) => (itemIndex === index ? span : item));
+  const step = buildStep(run, span.status, message, {
+    spanId: span.id,
+    parentSpanId: span.parentId,
+    kind: span.kind,
+    progress: span.progress,
+    durationMs: span.durationMs,
+  });
+
+  getRunRepository().save({ ...run, spans: nextSpans, steps: [...run.steps, step] });
+  publishActivity({ type: "step.logged", runId: run.id, step, span, timestamp: step.timestamp });
+  return step;
+};
+
+/**
+ * Records which model and prompt version an agent ran with. Instructions are resolved on every
+ * turn, so the run is only rewritten when the agent is new to the run or its details changed.
+ */
+export const recordRunAgent = (runId: string, agentId: string, details: RunAgentDetails) => {
+  const run = getRunRepository().get(runId);
+  const current = run?.agents?.[agentId];
+  if (!run || (current?.model === details.model && current.promptVersion === details.promptVersion)) return run;
+
+  const next: ActivityRun = { ...run, agents: { ...run.agents, [agentId]: details } };
+  getRunRepository().save(next);
+  publishActivity({ type: "run.updated", run: next, timestamp: new Date().toISOString() });
+  return next;
+};
+
+/** Appends an email send attempt, successful or not, to the run that produced the draft. */
+export const recordRunDelivery = (runId: string, delivery: EmailDelivery) => {
+  const run = getRunRepository().get(runId);
+  if (!run) return undefined;
+
+  const next: ActivityRun = { ...run, deliveries: [...(run.deliveries ?? []), delivery] };
+  getRunRepository().save(next);
+  publishActivity({ type: "run.updated", run: next, timestamp: new Date().toISOString() });
+  return next;
+};
+
+export const finishRun = (runId: string, status: Extract<ActivityStatus, "done" | "error">, message?: string) => {
+  releaseRunOutcomes(runId);
+  const run = getRunRepository().get(runId);
+  if (!run) return undefined;
+
+  const steps = message ? [...run.steps, buildStep(run, status, message)] : run.steps;
+  const completedAt = new Date().toISOString();
+  const spans = run.spans?.map((span) =>
+    span.status === "running" || span.status === "queued"
+      ? {
+          ...span,
+          status,
+          progress: 100,
+          endedAt: completedAt,
+          durationMs: Math.max(new Date(completedAt).getTime() - new Date(span.startedAt).getTime(), 0),
+        }
+      : span,
+  );
+  const next: ActivityRun = { ...run, status, completedAt, steps, spans };
+  getRunRepository().save(next);
+  publishActivity({ type: "run.completed", run: next, timestamp: completedAt });
+  return next;
+};
+
+export const getRun = (runId: string) => getRunRepository().get(runId);
+
+export const listRuns = () => sortByStarted(getRunRepository().list());
+
+export const listRunSummaries = () => listRuns().map(toRunSummary);
+
+export const resetRuns = () => getRunRepository().clear();
@@ -0,0 +1,119 @@
+import {
+  AGENT_IDS,
+  DEFAULT_RUNTIME_SETTINGS,
+  runtimeSettingsSchema,
+  type RuntimeSettings,
+  type RuntimeSettingsUpdate,
+} from "@/models/settings";
+import { isMemoryStorage, readJsonFile, resolveDataPath, writeJsonFile } from "@/server/storage/json-file";
+
+export type SettingsRepository = {
+  read: () => unknown;
+  write: (settings: RuntimeSettings) => void;
+  clear: () => void;
+};
+
+export const createMemorySettingsRepository = (seed?: RuntimeSettings): SettingsRepository => {
+  let stored: RuntimeSettings | undefined = seed;
+  return {
+    read: () => stored,
+    write: (settings) => {
+      stored = settings;
+    },
+    clear: () => {
+      stored = undefined;
+    },
+  };
+};
+
+export const createFileSettingsRepository = (filePath: string): SettingsRepository => {
+  let memory: SettingsRepository | undefined;
+
+  const load = () => {
+    if (!memory) {
+      memory = createMemorySettingsRepository(readJsonFile<RuntimeSettings | undefined>(filePath, undefined));
+    }
+    return memory;
+  };
+
+  const persist = (settings: RuntimeSettings | undefined) => {
+    try {
+      writeJsonFile(filePath, settings ?? null);
+    } catch (error) {
+      console.error("Failed to persist runtime settings", error);
+    }
+  };
+
+  return {
+    read: () => load().read(),
+    write: (settings) => {
+      load().write(settings);
+      persist(settings);
+    },
+    clear: () => {
+      load().clear();
+      persist(undefined);
+    },
+  };
+};
+
+let repository: SettingsRepository | undefined;
+
+export const getSettingsRepository = () => {
+  if (!repository) {
+    repository = isMemoryStorage()
+      ? createMemorySettingsRepository()
+      : createFileSettingsRepository(resolveDataPath("settings.json"));
+  }
+  return repository;
+};
+
+export const setSettingsRepository = (next: SettingsRepository | undefined) => {
+  repository = next;
+};
+
+const applyUpdate = (base: RuntimeSettings, patch: RuntimeSettingsUpdate): RuntimeSettings => ({
+  agents: Object.fromEntries(
+    AGENT_IDS.map((agentId) => [agentId, { ...base.agents[agentId], ...patch.agents?.[agentId] }]),
+  ) as RuntimeSettings["agents"],
+  tracingEnabled: patch.tracingEnabled ?? base.tracingEnabled,
+  guardrails: {
+    input: {
+      email: { ...base.guardrails.input.email, ...patch.guardrails?.input?.email },
+      chat: { ...base.guardrails.input.chat, ...patch.guardrails?.input?.chat },
+    },
+    output: { ...base.guardrails.output, ...patch.guardrails?.output },
+  },
+});
+
+// Settings are read on every run and guardrail check, so an invalid file is only reported once
+// until valid settings are read again.
+let invalidSettingsReported = false;
+
+/**
+ * Stored settings layered over the defaults. A file written by an older build (or edited by
+ * hand) that no longer validates falls back to the defaults rather than breaking every run.
+ */
+export const getRuntimeSettings = (): RuntimeSettings => {
+  const stored = getSettingsRepository().read();
+  if (!stored) return DEFAULT_RUNTIME_SETTINGS;
+
+  const parsed = runtimeSettingsSchema.safeParse(applyUpdate(DEFAULT_RUNTIME_SETTINGS, stored as RuntimeSettingsUpdate));
+  if (!parsed.success) {
+    if (!invalidSettingsReported) {
+      console.error("Ignoring invalid runtime settings", parsed.error.issues);
+      invalidSettingsReported = true;
+    }
+    return DEFAULT_RUNTIME_SETTINGS;
+  }
+  invalidSettingsReported = false;
+  return parsed.data;
+};
+
+export const updateRuntimeSettings = (patch: RuntimeSettingsUpdate) => {
+  const next = runtimeSettingsSchema.parse(applyUpdate(getRuntimeSettings(), patch));
+  getSettingsRepository().write(next);
+  return next;
+};
+
+export const resetRuntimeSettings = () => getSettingsRepository().clear();
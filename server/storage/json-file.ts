@@ -0,0 +1,32 @@
+import fs from "fs";
+import path from "path";
+
+const MEMORY_STORAGE = ":memory:";
+
+export const resolveDataDir = () => {
+  const configured = process.env.SIDEKICK_DATA_DIR?.trim();
+  return configured && configured.length > 0 ? configured : path.join(process.cwd(), ".sidekick");
+};
+
+export const isMemoryStorage = () => resolveDataDir() === MEMORY_STORAGE;
+
+export const resolveDataPath = (...segments: string[]) => path.join(resolveDataDir(), ...segments);
+
+export const readJsonFile = <T>(filePath: string, fallback: T): T => {
+  try {
+    const raw = fs.readFileSync(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      console.error(`Failed to read ${filePath}`, error);
+    }
+    return fallback;
+  }
+};
+
+export const writeJsonFile = (filePath: string, value: unknown) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(value, null, 2));
+  fs.renameSync(tempPath, filePath);
+};
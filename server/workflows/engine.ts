@@ -0,0 +1,358 @@
+import { randomUUID } from "crypto";
+import {
+  WORKFLOW_END,
+  type WorkflowCondition,
+  type WorkflowDefinition,
+  type WorkflowInputDef,
+  type WorkflowParallelStepDef,
+  type WorkflowStepDef,
+  type WorkflowTaskStepDef,
+} from "@/models/workflow";
+import { createStepTracker, type StepTracker } from "@/server/agents/runtime";
+import { beginRun, finishRun, getRun } from "@/server/runs/store";
+import { getStepHandler, type WorkflowStepHandler } from "@/server/workflows/handlers";
+
+export type WorkflowRunOptions = {
+  runId?: string;
+  inputs?: Record<string, unknown>;
+  /** Per-run overrides keyed by handler reference; take precedence over the registry. */
+  handlers?: Record<string, WorkflowStepHandler>;
+};
+
+export type WorkflowRunResult = {
+  runId: string;
+  status: "done" | "error";
+  outputs: Record<string, unknown>;
+  error?: string;
+};
+
+type InputResolution = { ok: true; inputs: Record<string, unknown> } | { ok: false; reason: string };
+
+const coerceInput = (definition: WorkflowInputDef, value: unknown): { ok: true; value: unknown } | { ok: false } => {
+  switch (definition.type) {
+    case "number": {
+      const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      return typeof parsed === "number" && Number.isFinite(parsed) ? { ok: true, value: parsed } : { ok: false };
+    }
+    case "boolean":
+      if (typeof value === "boolean") return { ok: true, value };
+      if (value === "true" || value === "false") return { ok: true, value: value === "true" };
+      return { ok: false };
+    case "string[]":
+      if (typeof value === "string") {
+        return { ok: true, value: value.split(",").map((item) => item.trim()).filter(Boolean) };
+      }
+      return Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? { ok: true, value }
+        : { ok: false };
+    default:
+      return typeof value === "string" ? { ok: true, value } : { ok: false };
+  }
+};
+
+/**
+ * Validates caller-supplied inputs against the workflow's declared inputs, applying defaults
+ * and light coercion for values that arrive as strings (query params, form fields).
+ * Undeclared inputs are dropped.
+ */
+export const resolveWorkflowInputs = (
+  workflow: WorkflowDefinition,
+  raw: Record<string, unknown> = {},
+): InputResolution => {
+  const inputs: Record<string, unknown> = {};
+
+  for (const definition of workflow.inputs) {
+    const value = raw[definition.name];
+    if (value === undefined || value === null || value === "") {
+      if (definition.default !== undefined) {
+        inputs[definition.name] = definition.default;
+      } else if (definition.required) {
+        return { ok: false, reason: `Missing required input "${definition.name}"` };
+      }
+      continue;
+    }
+
+    const coerced = coerceInput(definition, value);
+    if (!coerced.ok) {
+      return { ok: false, reason: `Input "${definition.name}" must be a ${definition.type}` };
+    }
+    inputs[definition.name] = coerced.value;
+  }
+
+  return { ok: true, inputs };
+};
+
+const readPath = (source: unknown, segments: string[]) =>
+  segments.reduce<unknown>(
+    (value, segment) => (value && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined),
+    source,
+  );
+
+const resolveRef = (ref: string, inputs: Record<string, unknown>, outputs: Record<string, unknown>) => {
+  const [scope, ...segments] = ref.split(".");
+  if (scope === "inputs") return readPath(inputs, segments);
+  if (scope === "steps") return readPath(outputs, segments);
+  return undefined;
+};
+
+export const evaluateCondition = (
+  condition: WorkflowCondition,
+  inputs: Record<string, unknown>,
+  outputs: Record<string, unknown>,
+) => {
+  const value = resolveRef(condition.ref, inputs, outputs);
+  const matches = [
+    condition.exists === undefined || (value !== undefined && value !== null) === condition.exists,
+    condition.equals === undefined || value === condition.equals,
+    condition.notEquals === undefined || value !== condition.notEquals,
+    condition.in === undefined || condition.in.includes(value),
+    condition.gt === undefined || (typeof value === "number" && value > condition.gt),
+    condition.lt === undefined || (typeof value === "number" && value < condition.lt),
+  ];
+  return matches.every(Boolean);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+type StepRuntime = {
+  runId: string;
+  workflow: WorkflowDefinition;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  tracker: StepTracker;
+  handlers: Record<string, WorkflowStepHandler>;
+};
+
+type StepOutcome = { status: "done"; output?: unknown } | { status: "skipped" } | { status: "error"; error: string };
+
+type AttemptOutcome =
+  | { ok: true; result: Awaited<ReturnType<WorkflowStepHandler>> }
+  | {
+      ok: false;
+      error: string;
+      /** Set when the attempt timed out: settles once the aborted handler has actually returned. */
+      settled?: Promise<unknown>;
+    };
+
+const runHandlerOnce = async (
+  runtime: StepRuntime,
+  step: WorkflowTaskStepDef,
+  handler: WorkflowStepHandler,
+  spanId: string | undefined,
+  attempt: number,
+): Promise<AttemptOutcome> => {
+  const controller = new AbortController();
+  let invocation: ReturnType<WorkflowStepHandler>;
+  try {
+    invocation = handler({
+      runId: runtime.runId,
+      workflow: runtime.workflow,
+      step,
+      params: step.with,
+      inputs: runtime.inputs,
+      outputs: runtime.outputs,
+      attempt,
+      signal: controller.signal,
+      reportProgress: (progress, message) => runtime.tracker.progress(spanId, progress, message),
+    });
+  } catch (caught) {
+    return { ok: false, error: describeError(caught) };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    if (step.timeoutMs) timer = setTimeout(() => resolve("timeout"), step.timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([invocation, timeout]);
+    if (result === "timeout") {
+      controller.abort();
+      return {
+        ok: false,
+        error: `${step.label} timed out after ${step.timeoutMs}ms`,
+        settled: invocation.catch(() => undefined),
+      };
+    }
+    return { ok: true, result };
+  } catch (caught) {
+    return { ok: false, error: describeError(caught) };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const runTaskStep = async (
+  runtime: StepRuntime,
+  step: WorkflowTaskStepDef,
+  parentId?: string,
+): Promise<StepOutcome> => {
+  const spanId = runtime.tracker.start("step", step.label, { parentId, message: step.description });
+
+  if (step.when && !evaluateCondition(step.when, runtime.inputs, runtime.outputs)) {
+    runtime.tracker.end(spanId, "done", `Skipped: ${step.when.ref} did not match`);
+    return { status: "skipped" };
+  }
+
+  const handler = runtime.handlers[step.handler] ?? getStepHandler(step.handler);
+  if (!handler) {
+    const error = `No handler registered for "${step.handler}" (step "${step.id}")`;
+    runtime.tracker.end(spanId, "error", error);
+    return { status: "error", error };
+  }
+
+  const { maxAttempts = 1, backoffMs = 0, backoffMultiplier = 2 } = step.retry ?? {};
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    if (attempt > 1) {
+      runtime.tracker.progress(spanId, 0, `Retrying (attempt ${attempt}/${maxAttempts}) after: ${lastError}`);
+      await sleep(backoffMs * backoffMultiplier ** (attempt - 2));
+    }
+
+    const outcome = await runHandlerOnce(runtime, step, handler, spanId, attempt);
+    if (outcome.ok && outcome.result?.skipped) {
+      runtime.tracker.end(spanId, "done", `Skipped: ${outcome.result.message ?? "nothing to do"}`);
+      return { status: "skipped" };
+    }
+    if (outcome.ok) {
+      runtime.outputs[step.id] = outcome.result?.output;
+      runtime.tracker.end(spanId, "done", outcome.result?.message ?? `${step.label} completed`);
+      return { status: "done", output: outcome.result?.output };
+    }
+
+    lastError = outcome.error;
+    // Abort is cooperative: a handler that ignores its signal keeps running, so the next attempt
+    // waits for it to return instead of overlapping with it.
+    if (outcome.settled && attempt < maxAttempts) {
+      await outcome.settled;
+    }
+  }
+
+  const error = maxAttempts > 1 ? `${lastError} (after ${maxAttempts} attempts)` : lastError;
+  runtime.tracker.end(spanId, "error", error);
+  return { status: "error", error };
+};
+
+const runParallelStep = async (runtime: StepRuntime, step: WorkflowParallelStepDef): Promise<StepOutcome> => {
+  const spanId = runtime.tracker.start("step", step.label, { message: step.description });
+
+  if (step.when && !evaluateCondition(step.when, runtime.inputs, runtime.outputs)) {
+    runtime.tracker.end(spanId, "done", `Skipped: ${step.when.ref} did not match`);
+    return { status: "skipped" };
+  }
+
+  const outcomes = await Promise.all(step.steps.map((child) => runTaskStep(runtime, child, spanId)));
+  if (outcomes.every((outcome) => outcome.status === "skipped")) {
+    runtime.tracker.end(spanId, "done", "Skipped: every branch was skipped");
+    return { status: "skipped" };
+  }
+  const failures = outcomes.flatMap((outcome, index) =>
+    outcome.status === "error" ? [`${step.steps[index].label}: ${outcome.error}`] : [],
+  );
+  const succeeded = outcomes.length - failures.length;
+  const failed = step.join === "all" ? failures.length > 0 : succeeded === 0;
+
+  if (failed) {
+    const error = failures.join("; ");
+    runtime.tracker.end(spanId, "error", error);
+    return { status: "error", error };
+  }
+
+  const joined = Object.fromEntries(step.steps.map((child) => [child.id, runtime.outputs[child.id]]));
+  runtime.outputs[step.id] = joined;
+  runtime.tracker.end(spanId, "done", `${succeeded}/${outcomes.length} branches completed`);
+  return { status: "done", output: joined };
+};
+
+/**
+ * Executes a workflow definition. Steps run in file order unless `next` or a branch step
+ * redirects; jumping to `end` finishes the run. Each step is recorded as a span on the run.
+ */
+export const runWorkflow = async (
+  workflow: WorkflowDefinition,
+  { runId = randomUUID(), inputs: rawInputs = {}, handlers = {} }: WorkflowRunOptions = {},
+): Promise<WorkflowRunResult> => {
+  beginRun({
+    runId,
+    name: workflow.name,
+    workflowId: workflow.id,
+    message: `Queued ${workflow.steps.length} steps`,
+  });
+  const outputs: Record<string, unknown> = {};
+
+  const resolved = resolveWorkflowInputs(workflow, rawInputs);
+  if (!resolved.ok) {
+    finishRun(runId, "error", resolved.reason);
+    return { runId, status: "error", outputs, error: resolved.reason };
+  }
+
+  const runtime: StepRuntime = {
+    runId,
+    workflow,
+    inputs: resolved.inputs,
+    outputs,
+    tracker: createStepTracker(runId),
+    handlers,
+  };
+  const indexById = new Map(workflow.steps.map((step, index) => [step.id, index]));
+  // Backwards `next` jumps are allowed, so cap executions to keep a bad definition from looping forever.
+  const maxExecutions = workflow.steps.length * 10;
+  let executions = 0;
+  let cursor = 0;
+
+  const fail = (step: WorkflowStepDef, error: string): WorkflowRunResult => {
+    finishRun(runId, "error", `${step.label} failed: ${error}`);
+    return { runId, status: "error", outputs, error };
+  };
+
+  while (cursor < workflow.steps.length) {
+    const step = workflow.steps[cursor];
+    executions += 1;
+    if (executions > maxExecutions) {
+      return fail(step, `Exceeded ${maxExecutions} step executions`);
+    }
+
+    let target = step.next;
+
+    if (step.type === "branch") {
+      const spanId = runtime.tracker.start("step", step.label, { message: step.description });
+      if (step.when && !evaluateCondition(step.when, runtime.inputs, outputs)) {
+        // A skipped branch step routes nowhere; the run carries on as if it were a plain step.
+        runtime.tracker.end(spanId, "done", `Skipped: ${step.when.ref} did not match`);
+      } else {
+        const match = step.branches.find((branch) => evaluateCondition(branch.when, runtime.inputs, outputs));
+        target = match?.next ?? step.otherwise ?? step.next;
+        runtime.tracker.end(spanId, "done", target ? `Continuing with ${target}` : "No branch matched");
+      }
+    } else {
+      const outcome = step.type === "parallel" ? await runParallelStep(runtime, step) : await runTaskStep(runtime, step);
+      if (outcome.status === "error") {
+        return fail(step, outcome.error);
+      }
+    }
+
+    if (target === WORKFLOW_END) break;
+    cursor = target ? (indexById.get(target) ?? workflow.steps.length) : cursor + 1;
+  }
+
+  finishRun(runId, "done", `${workflow.name} completed`);
+  return { runId, status: "done", outputs };
+};
+
+/**
+ * Starts a workflow without awaiting it. The run is registered synchronously so callers can
+ * hand the id back to the UI and follow progress through the activity stream.
+ */
+export const queueWorkflowRun = (workflow: WorkflowDefinition, options: WorkflowRunOptions = {}) => {
+  const runId = options.runId ?? randomUUID();
+  const completion = runWorkflow(workflow, { ...options, runId }).catch((error) => {
+    console.error(`Workflow ${workflow.id} crashed`, error);
+    if (getRun(runId)?.status === "running") {
+      finishRun(runId, "error", "Workflow engine crashed");
+    }
+  });
+  return { runId, completion };
+};
@@ -0,0 +1,168 @@
+import type { WorkflowDefinition, WorkflowTaskStepDef } from "@/models/workflow";
+import { runEmailDraftFallback } from "@/server/agents/email-fallback";
+import { releaseRunOutcomes } from "@/server/agents/store/deliverables";
+import { listRuns } from "@/server/runs/store";
+
+export type WorkflowStepContext = {
+  runId: string;
+  workflow: WorkflowDefinition;
+  step: WorkflowTaskStepDef;
+  /** Static configuration from the step's `with` block. */
+  params: Record<string, unknown>;
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  /** 1-based attempt number when the step has a retry policy. */
+  attempt: number;
+  /**
+   * Aborted when the step exceeds its timeout. Handlers should stop promptly: a retry only starts
+   * once the timed-out attempt has returned.
+   */
+  signal: AbortSignal;
+  reportProgress: (progress: number, message?: string) => void;
+};
+
+export type WorkflowStepResult = {
+  output?: unknown;
+  message?: string;
+  /** The handler had nothing to do, e.g. no service is configured; the step is recorded as skipped. */
+  skipped?: boolean;
+};
+
+export type WorkflowStepHandler = (context: WorkflowStepContext) => Promise<WorkflowStepResult | void>;
+
+const DEFAULT_INCIDENT_LOOKBACK = 10;
+
+type IncidentSummary = {
+  runId: string;
+  name: string;
+  errors: string[];
+};
+
+const collectIncidentContext: WorkflowStepHandler = async ({ runId, inputs, reportProgress }) => {
+  const service = typeof inputs.service === "string" ? inputs.service.toLowerCase() : "";
+  const lookback = typeof inputs.lookback === "number" ? inputs.lookback : DEFAULT_INCIDENT_LOOKBACK;
+  const failed = listRuns()
+    .filter((run) => run.id !== runId && run.status === "error")
+    .filter((run) => !service || run.name.toLowerCase().includes(service))
+    .slice(0, lookback);
+  reportProgress(50, `Found ${failed.length} failed runs`);
+
+  const incidents: IncidentSummary[] = failed.map((run) => ({
+    runId: run.id,
+    name: run.name,
+    errors: run.steps.filter((step) => step.status === "error").map((step) => step.message),
+  }));
+  return { output: incidents, message: `Collected ${incidents.length} recent incidents` };
+};
+
+const summarizeIncidentLogs: WorkflowStepHandler = async ({ outputs }) => {
+  const incidents = (outputs["collect-context"] as IncidentSummary[] | undefined) ?? [];
+  const counts = new Map<string, number>();
+  incidents.flatMap((incident) => incident.errors).forEach((error) => {
+    counts.set(error, (counts.get(error) ?? 0) + 1);
+  });
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([error, count]) => ({ error, count }));
+  return {
+    output: { ranked, total: ranked.length },
+    message: ranked.length > 0 ? `Top error: ${ranked[0].error}` : "No error spans to summarize",
+  };
+};
+
+const draftIncidentResponse: WorkflowStepHandler = async ({ outputs }) => {
+  const summary = outputs["summarize-logs"] as { ranked: Array<{ error: string; count: number }> } | undefined;
+  const playbook = (summary?.ranked ?? []).map(
+    ({ error, count }, index) => `${index + 1}. Investigate "${error}" (${count} occurrences).`,
+  );
+  return { output: playbook.join("\n"), message: `Prepared ${playbook.length} playbook actions` };
+};
+
+const recordIncidentAllClear: WorkflowStepHandler = async () => ({
+  output: "No failing runs detected; confirm alert source before escalating.",
+  message: "No failing runs detected",
+});
+
+const EVAL_FIXTURES = [
+  {
+    recipient: "Jordan Lee",
+    tone: "formal",
+    keyPoints: ["Confirm renewal terms", "Share onboarding checklist"],
+    variants: 2,
+  },
+  {
+    recipient: "Support team",
+    tone: "direct",
+    keyPoints: ["Escalate ticket backlog", "Assign weekend on-call"],
+    variants: 1,
+  },
+];
+
+const setupEvaluation: WorkflowStepHandler = async () => ({
+  output: { fixtures: EVAL_FIXTURES.length },
+  message: `Loaded ${EVAL_FIXTURES.length} evaluation fixtures`,
+});
+
+const executeEvaluation: WorkflowStepHandler = async ({ runId, signal, reportProgress }) => {
+  const results = [];
+  for (const [index, fixture] of EVAL_FIXTURES.entries()) {
+    signal.throwIfAborted();
+    // Evaluation drafts are scored here and never reach an operator, so they skip the approval queue.
+    const evalRunId = `${runId}-eval-${index + 1}`;
+    const { deliverable } = await runEmailDraftFallback(fixture, { runId: evalRunId }, { requireApproval: false });
+    // Evaluation cases are not tracked runs, so nothing else finishes them.
+    releaseRunOutcomes(evalRunId);
+    const body = deliverable.draft.body.toLowerCase();
+    const covered = fixture.keyPoints.filter((point) => body.includes(point.toLowerCase())).length;
+    results.push({ recipient: fixture.recipient, coverage: covered / fixture.keyPoints.length });
+    reportProgress(((index + 1) / EVAL_FIXTURES.length) * 100, `Evaluated draft for ${fixture.recipient}`);
+  }
+  return { output: results, message: `Executed ${results.length} evaluation cases` };
+};
+
+const reportEvaluation: WorkflowStepHandler = async ({ inputs, outputs }) => {
+  const results = (outputs.execute as Array<{ coverage: number }> | undefined) ?? [];
+  const average = results.length
+    ? results.reduce((total, result) => total + result.coverage, 0) / results.length
+    : 0;
+  const minCoverage = typeof inputs.minCoverage === "number" ? inputs.minCoverage : 0;
+  const passed = average >= minCoverage;
+  return {
+    output: { averageCoverage: average, passed },
+    message: `Average key point coverage ${Math.round(average * 100)}%${passed ? "" : " (below threshold)"}`,
+  };
+};
+
+// Knowledge steps depend on an external document source and vector store; until one is
+// registered they are skipped so the rest of the catalog stays runnable.
+const unconfiguredService =
+  (service: string): WorkflowStepHandler =>
+  async () => ({ message: `No ${service} configured`, skipped: true });
+
+// Keys are the `handler` references used by workflow definition files.
+const DEFAULT_HANDLERS: Record<string, WorkflowStepHandler> = {
+  "incident.collect-context": collectIncidentContext,
+  "incident.summarize-logs": summarizeIncidentLogs,
+  "incident.draft-response": draftIncidentResponse,
+  "incident.all-clear": recordIncidentAllClear,
+  "knowledge.ingest": unconfiguredService("document source"),
+  "knowledge.dedupe": unconfiguredService("curation service"),
+  "knowledge.tag": unconfiguredService("curation service"),
+  "knowledge.embed": unconfiguredService("embedding provider"),
+  "evals.setup": setupEvaluation,
+  "evals.execute": executeEvaluation,
+  "evals.report": reportEvaluation,
+};
+
+const handlers = new Map<string, WorkflowStepHandler>(Object.entries(DEFAULT_HANDLERS));
+
+export const registerStepHandler = (key: string, handler: WorkflowStepHandler) => {
+  handlers.set(key, handler);
+};
+
+export const getStepHandler = (key: string) => handlers.get(key);
+
+export const resetStepHandlers = () => {
+  handlers.clear();
+  Object.entries(DEFAULT_HANDLERS).forEach(([key, handler]) => handlers.set(key, handler));
+};
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { workflowDefinitionSchema, type WorkflowDefinition } from "@/models/workflow";
+
+const WORKFLOW_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+export type WorkflowParseResult = { ok: true; workflow: WorkflowDefinition } | { ok: false; reason: string };
+
+export const resolveWorkflowsDir = () => {
+  const configured = process.env.SIDEKICK_WORKFLOWS_DIR?.trim();
+  return configured && configured.length > 0 ? configured : path.join(process.cwd(), "workflows");
+};
+
+/** Parses and validates a single definition; `fileName` decides between JSON and YAML. */
+export const parseWorkflowDefinition = (source: string, fileName: string): WorkflowParseResult => {
+  let raw: unknown;
+  try {
+    raw = path.extname(fileName).toLowerCase() === ".json" ? JSON.parse(source) : yaml.load(source);
+  } catch (error) {
+    return { ok: false, reason: `${fileName}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const parsed = workflowDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return { ok: false, reason: `${fileName}: ${issues.join("; ")}` };
+  }
+
+  return { ok: true, workflow: parsed.data };
+};
+
+const readWorkflowDefinitions = (directory: string) => {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      console.error(`Failed to read workflows from ${directory}`, error);
+    }
+    return [];
+  }
+
+  const workflows: WorkflowDefinition[] = [];
+  entries
+    .filter((entry) => WORKFLOW_EXTENSIONS.has(path.extname(entry).toLowerCase()))
+    .sort()
+    .forEach((entry) => {
+      const result = parseWorkflowDefinition(fs.readFileSync(path.join(directory, entry), "utf8"), entry);
+      if (!result.ok) {
+        console.error(`Skipping invalid workflow definition ${result.reason}`);
+        return;
+      }
+      if (workflows.some((workflow) => workflow.id === result.workflow.id)) {
+        console.error(`Skipping ${entry}: duplicate workflow id "${result.workflow.id}"`);
+        return;
+      }
+      workflows.push(result.workflow);
+    });
+  return workflows;
+};
+
+let cache: { directory: string; workflows: WorkflowDefinition[] } | undefined;
+
+// Definitions are re-read on every call outside production so edits show up without a restart.
+export const loadWorkflowDefinitions = () => {
+  const directory = resolveWorkflowsDir();
+  if (!cache || cache.directory !== directory || process.env.NODE_ENV !== "production") {
+    cache = { directory, workflows: readWorkflowDefinitions(directory) };
+  }
+  return cache.workflows;
+};
+
+export const getWorkflowDefinition = (workflowId: string) =>
+  loadWorkflowDefinitions().find((workflow) => workflow.id === workflowId);
+
+/** Drops the cached catalog so edited definition files are picked up on the next read. */
+export const reloadWorkflowDefinitions = () => {
+  cache = undefined;
+  return loadWorkflowDefinitions();
+};
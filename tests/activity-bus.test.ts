@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { ActivityEvent } from "@/models/activity";
+import {
+  currentActivityCursor,
+  getActivitySince,
+  resetActivityBus,
+  subscribeActivity,
+} from "@/server/activity/bus";
+import { beginRun, finishRun, logRunStep, resetRuns } from "@/server/runs/store";
+
+describe("activity bus", () => {
+  beforeEach(() => {
+    resetActivityBus();
+    resetRuns();
+  });
+
+  it("publishes run lifecycle events from the run store", () => {
+    const received: ActivityEvent[] = [];
+    const unsubscribe = subscribeActivity((envelope) => received.push(envelope.event));
+
+    beginRun({ runId: "run-bus", name: "Bus run" });
+    logRunStep("run-bus", "running", "Drafting");
+    logRunStep("run-bus", "done", "Drafted");
+    finishRun("run-bus", "done");
+    unsubscribe();
+
+    expect(received.map((event) => event.type)).toEqual([
+      "run.updated",
+      "step.logged",
+      "step.logged",
+      "run.completed",
+    ]);
+  });
+
+  it("only delivers events for the requested run", () => {
+    const received: string[] = [];
+    subscribeActivity((envelope) => received.push(envelope.id), { runId: "run-b" });
+
+    beginRun({ runId: "run-a", name: "A" });
+    beginRun({ runId: "run-b", name: "B" });
+    logRunStep("run-a", "running", "A step");
+
+    expect(received).toHaveLength(1);
+  });
+
+  it("replays events published after the last seen id", () => {
+    beginRun({ runId: "run-resume", name: "Resume" });
+    const cursor = currentActivityCursor();
+    logRunStep("run-resume", "running", "First");
+    logRunStep("run-resume", "running", "Second");
+
+    const backlog = getActivitySince(cursor, { runId: "run-resume" });
+    expect(backlog.complete).toBe(true);
+    expect(backlog.events.map((envelope) => envelope.event.type)).toEqual(["step.logged", "step.logged"]);
+  });
+
+  it("asks the caller to resynchronise when the id comes from another boot", () => {
+    const backlog = getActivitySince("stale-12");
+    expect(backlog.complete).toBe(false);
+    expect(backlog.events).toEqual([]);
+  });
+});
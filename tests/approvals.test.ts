@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { EmailDraftDeliverable } from "@/models/email";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { listRevisions, resetRevisions } from "@/server/agents/store/revisions";
+import { decideApproval } from "@/server/approvals/decisions";
+import { getApproval, listApprovals, resetApprovals } from "@/server/approvals/store";
+import { getRun, resetRuns } from "@/server/runs/store";
+
+const payload = {
+  recipient: "Alex Rivera",
+  tone: "friendly",
+  keyPoints: ["Confirm deployment timeline", "Highlight compliance summary"],
+  variants: 1,
+};
+
+const draftEmail = async () => {
+  const response = await runEmailAgentFromPayload({ payload });
+  if (!response.ok) throw new Error(response.reason);
+  return response;
+};
+
+describe("approvals", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetDeliverables();
+    resetApprovals();
+    resetRevisions();
+  });
+
+  it("queues every recorded deliverable as pending", async () => {
+    const response = await draftEmail();
+
+    expect(listApprovals("pending").map((approval) => approval.cacheKey)).toEqual([response.cacheKey]);
+    expect(getApproval(response.cacheKey)).toMatchObject({
+      runId: response.runId,
+      status: "pending",
+      title: response.deliverable.draft.subject,
+    });
+  });
+
+  it("records decisions on the run and rejects decisions on closed approvals", async () => {
+    const response = await draftEmail();
+
+    const approved = await decideApproval(response.cacheKey, { decision: "approve", reviewer: "Sam", comment: "Ship it" });
+    expect(approved.ok && approved.approval.status).toBe("approved");
+    const span = getRun(response.runId)?.spans?.find((entry) => entry.kind === "approval");
+    expect(span).toMatchObject({ name: "Approved", status: "done", message: "Approved by Sam: Ship it" });
+
+    const again = await decideApproval(response.cacheKey, { decision: "reject", comment: "Too late" });
+    expect(again).toMatchObject({ ok: false, code: "conflict" });
+    expect(await decideApproval("missing", { decision: "approve" })).toMatchObject({ ok: false, code: "not_found" });
+  });
+
+  it("re-runs the email agent with the feedback when changes are requested", async () => {
+    const response = await draftEmail();
+
+    const result = await decideApproval(response.cacheKey, {
+      decision: "request_changes",
+      comment: "Mention the weekend maintenance window",
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.approval).toMatchObject({ status: "changes_requested", revisedBy: result.revision?.cacheKey });
+    expect(result.revision).toMatchObject({ status: "pending", revisionOf: response.cacheKey });
+    const revised = result.revision?.deliverable as EmailDraftDeliverable;
+    expect(revised.metadata.additionalContext).toContain("Mention the weekend maintenance window");
+  });
+
+  it("lets only one of two concurrent change requests re-run the agent", async () => {
+    const response = await draftEmail();
+
+    const [first, second] = await Promise.all([
+      decideApproval(response.cacheKey, { decision: "request_changes", comment: "Shorten the intro" }),
+      decideApproval(response.cacheKey, { decision: "request_changes", comment: "Add the maintenance window" }),
+    ]);
+
+    expect(first.ok).toBe(true);
+    expect(second).toMatchObject({ ok: false, code: "conflict" });
+    expect(listApprovals("pending")).toHaveLength(1);
+    expect(listRevisions(response.cacheKey).map((revision) => revision.cacheKey)).toEqual([
+      response.cacheKey,
+      first.ok ? first.revision?.cacheKey : undefined,
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { RunStreamEvent } from "@openai/agents";
+import type { UIMessageStreamWriter } from "ai";
+import { z } from "zod";
+import { DEFAULT_GUARDRAIL_POLICY } from "@/models/guardrails";
+import { computeDeliverableKey, defineDeliverableKind } from "@/server/agents/deliverables/kind";
+import { registerDeliverableKind, resetDeliverableKinds } from "@/server/agents/deliverables/registry";
+import { recordDeliverable, resetDeliverables } from "@/server/agents/store/deliverables";
+import { createRunStreamForwarder, type OrchestratorUIMessage } from "@/server/agents/ui-stream";
+
+const noteSchema = z.object({ type: z.literal("note"), title: z.string() });
+
+const createWriter = () => {
+  const chunks: Array<Record<string, unknown>> = [];
+  const writer = {
+    write: (chunk: Record<string, unknown>) => chunks.push(chunk),
+    merge: () => undefined,
+    onError: undefined,
+  } as unknown as UIMessageStreamWriter<OrchestratorUIMessage>;
+  return { chunks, writer };
+};
+
+const textDelta = (delta: string) =>
+  ({ type: "raw_model_stream_event", data: { type: "output_text_delta", delta } }) as unknown as RunStreamEvent;
+
+const runItem = (name: string, item: Record<string, unknown>) =>
+  ({ type: "run_item_stream_event", name, item }) as unknown as RunStreamEvent;
+
+describe("run stream forwarder", () => {
+  beforeEach(() => {
+    resetDeliverables();
+    registerDeliverableKind(
+      defineDeliverableKind({
+        type: "note",
+        label: "note",
+        schema: noteSchema,
+        normalize: (note) => note,
+        cacheKey: (note, { runId }) => computeDeliverableKey({ runId, title: note.title }),
+        describe: (note) => note.title,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    resetDeliverableKinds();
+  });
+
+  it("forwards text deltas as they arrive and separates later assistant messages", () => {
+    const { chunks, writer } = createWriter();
+    const forwarder = createRunStreamForwarder(writer, { messageId: "msg-1", runId: "run-1" });
+
+    forwarder.handle(runItem("message_output_created", { type: "message_output_item" }));
+    forwarder.handle(textDelta("Hello"));
+    forwarder.handle(textDelta(" there"));
+    forwarder.handle(runItem("message_output_created", { type: "message_output_item" }));
+    forwarder.handle(textDelta("Done."));
+
+    expect(chunks.map((chunk) => chunk.delta)).toEqual(["Hello", " there", "\n\n", "Done."]);
+    expect(forwarder.hasStreamedText()).toBe(true);
+  });
+
+  it("updates a single tool part from started to completed and reports handoffs", () => {
+    const { chunks, writer } = createWriter();
+    const forwarder = createRunStreamForwarder(writer, { messageId: "msg-1", runId: "run-1" });
+
+    forwarder.handle(
+      runItem("tool_called", {
+        type: "tool_call_item",
+        rawItem: { type: "function_call", callId: "call-1", name: "search_knowledge", arguments: '{"query":"q3"}' },
+      }),
+    );
+    forwarder.handle(
+      runItem("tool_output", {
+        type: "tool_call_output_item",
+        rawItem: { type: "function_call_result", callId: "call-1", name: "search_knowledge" },
+        output: '{"passages":[]}',
+      }),
+    );
+    forwarder.handle(
+      runItem("handoff_occurred", {
+        type: "handoff_output_item",
+        rawItem: { callId: "call-2" },
+        sourceAgent: { name: "Orchestrator" },
+        targetAgent: { name: "Research Specialist" },
+      }),
+    );
+
+    expect(chunks).toEqual([
+      {
+        type: "data-tool",
+        id: "msg-1-tool-call-1",
+        data: { name: "search_knowledge", status: "started", arguments: { query: "q3" } },
+      },
+      {
+        type: "data-tool",
+        id: "msg-1-tool-call-1",
+        data: { name: "search_knowledge", status: "completed", result: { passages: [] } },
+      },
+      {
+        type: "data-handoff",
+        id: "msg-1-handoff-call-2",
+        data: { from: "Orchestrator", to: "Research Specialist" },
+      },
+    ]);
+  });
+
+  it("flushes deliverables recorded by specialists once, as soon as a tool returns", () => {
+    const { chunks, writer } = createWriter();
+    const forwarder = createRunStreamForwarder(writer, { messageId: "msg-1", runId: "run-1" });
+
+    recordDeliverable({ runId: "specialist-1", parentRunId: "run-1" }, { type: "note", title: "Launch plan" });
+    forwarder.handle(runItem("tool_output", { type: "tool_call_output_item", rawItem: { type: "function_call_result" } }));
+    forwarder.flushDeliverables();
+
+    const deliverables = chunks.filter((chunk) => chunk.type === "data-deliverable");
+    expect(deliverables).toHaveLength(1);
+    expect(deliverables[0]).toMatchObject({ data: { deliverable: { type: "note", title: "Launch plan" } } });
+  });
+
+  it("checks the reply against the output guardrails before forwarding it", () => {
+    const { chunks, writer } = createWriter();
+    const forwarder = createRunStreamForwarder(writer, {
+      messageId: "msg-1",
+      runId: "run-1",
+      outputGuardrails: { ...DEFAULT_GUARDRAIL_POLICY.output, credit_card: "redact", secret: "block" },
+    });
+
+    forwarder.handle(textDelta("The card on file is 4111 1111 "));
+    expect(chunks).toEqual([]);
+    forwarder.handle(textDelta("1111 1111. Your key is sk-"));
+    forwarder.handle(textDelta("abcdefghijklmnopqrstuvwx1234. Anything else?"));
+    forwarder.flushText();
+
+    const text = chunks.filter((chunk) => chunk.type === "text-delta").map((chunk) => chunk.delta).join("");
+    expect(text).toBe(
+      "The card on file is [CARD_NUMBER_1]. [The rest of this response was withheld by the output guardrails.]",
+    );
+    expect(chunks.filter((chunk) => chunk.type === "data-guardrail").at(-1)).toEqual({
+      type: "data-guardrail",
+      id: "msg-1-output-guardrail",
+      data: { stage: "output", outcome: "block", detectors: ["Card number", "API key or secret"] },
+    });
+  });
+});
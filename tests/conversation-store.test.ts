@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AgentInputItem } from "@openai/agents";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createFileThreadRepository,
+  createThread,
+  deleteThread,
+  getOrCreateSession,
+  getThread,
+  getThreadMessages,
+  listThreads,
+  resetSessions,
+  saveThreadMessages,
+  setThreadRepository,
+  updateSessionHistory,
+  updateThread,
+} from "@/server/agents/conversation-store";
+
+const userItem = (text: string): AgentInputItem => ({ role: "user", content: [{ type: "input_text", text }] });
+
+const assistantItem = (text: string): AgentInputItem => ({
+  role: "assistant",
+  status: "completed",
+  content: [{ type: "output_text", text }],
+});
+
+describe("conversation store", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-threads-"));
+    setThreadRepository(undefined);
+    resetSessions();
+  });
+
+  afterEach(() => {
+    setThreadRepository(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("starts a new thread when no id is given and reuses it afterwards", () => {
+    const first = getOrCreateSession();
+    const again = getOrCreateSession(first.id);
+
+    expect(again.id).toBe(first.id);
+    expect(again.session.context.threadId).toBe(first.id);
+    expect(getOrCreateSession().id).not.toBe(first.id);
+  });
+
+  it("titles threads from the first prompt and tracks activity", () => {
+    const { id, session } = getOrCreateSession();
+    updateSessionHistory(id, [userItem("Draft a launch update for the  enterprise customers"), assistantItem("Sure.")]);
+
+    const [summary] = listThreads();
+    expect(summary).toMatchObject({ id, title: "Draft a launch update for the enterprise customers", messageCount: 2 });
+    expect(new Date(summary.updatedAt).getTime()).toBeGreaterThanOrEqual(new Date(session.createdAt).getTime());
+
+    updateSessionHistory(id, [userItem("Something else entirely")]);
+    expect(getThread(id)?.title).toBe("Draft a launch update for the enterprise customers");
+  });
+
+  it("renames, archives and deletes threads", () => {
+    const kept = createThread({ title: "Quarterly planning" });
+    const archived = createThread();
+
+    updateThread(archived.id, { archived: true, title: "Old notes" });
+    expect(listThreads().map((thread) => thread.id)).toEqual([kept.id]);
+    expect(listThreads({ archived: true }).map((thread) => thread.title)).toEqual(["Old notes"]);
+    expect(listThreads({ archived: "all" })).toHaveLength(2);
+
+    expect(deleteThread(kept.id)).toBe(true);
+    expect(deleteThread(kept.id)).toBe(false);
+    expect(updateThread(kept.id, { title: "Gone" })).toBeUndefined();
+  });
+
+  it("keeps rendered UI messages, data parts included, apart from the summary", () => {
+    const { id } = getOrCreateSession();
+    const messages = [
+      { id: "m1", role: "user" as const, parts: [{ type: "text" as const, text: "Draft the update" }] },
+      {
+        id: "m2",
+        role: "assistant" as const,
+        parts: [
+          { type: "text" as const, text: "Here is the draft." },
+          { type: "data-sources" as const, data: [{ id: "doc-1", title: "Runbook" }] },
+        ],
+      },
+    ];
+
+    saveThreadMessages(id, messages);
+
+    expect(getThreadMessages(id)).toEqual(messages);
+    expect(listThreads()[0]).not.toHaveProperty("messages");
+    expect(getThreadMessages("missing")).toEqual([]);
+  });
+
+  it("survives a restart when backed by a file", () => {
+    const filePath = path.join(tempDir, "threads.json");
+    setThreadRepository(createFileThreadRepository(filePath));
+    const { id } = getOrCreateSession();
+    updateSessionHistory(id, [userItem("Remember this conversation"), assistantItem("Noted.")]);
+
+    setThreadRepository(createFileThreadRepository(filePath));
+    const restored = getOrCreateSession(id);
+    expect(restored.session.history).toHaveLength(2);
+    expect(listThreads()[0]).toMatchObject({ id, title: "Remember this conversation" });
+  });
+});
@@ -0,0 +1,128 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { computeDeliverableKey, defineDeliverableKind } from "@/server/agents/deliverables/kind";
+import { getDeliverableKind, registerDeliverableKind, resetDeliverableKinds } from "@/server/agents/deliverables/registry";
+import { runEmailDraftFallback } from "@/server/agents/email-fallback";
+import {
+  createFileDeliverableRepository,
+  getDeliverable,
+  getDeliverableRunId,
+  getRunOutcome,
+  listRunDeliverables,
+  recordDeliverable,
+  resetDeliverables,
+  setDeliverableRepository,
+} from "@/server/agents/store/deliverables";
+import { finishRun } from "@/server/runs/store";
+
+const meetingNotesSchema = z.object({
+  type: z.literal("meeting-notes"),
+  title: z.string().min(3),
+  actionItems: z.array(z.string()).default([]),
+});
+
+type MeetingNotes = z.infer<typeof meetingNotesSchema>;
+
+const meetingNotesKind = defineDeliverableKind<MeetingNotes>({
+  type: "meeting-notes",
+  label: "meeting notes",
+  schema: meetingNotesSchema,
+  normalize: (notes) => ({ ...notes, title: notes.title.trim() }),
+  cacheKey: (notes, { runId }) => computeDeliverableKey({ runId, title: notes.title }),
+  describe: (notes) => `Captured ${notes.actionItems.length} action items.`,
+});
+
+describe("deliverable registry", () => {
+  beforeEach(() => {
+    resetDeliverables();
+  });
+
+  afterEach(() => {
+    resetDeliverableKinds();
+  });
+
+  it("ships the built-in email and research kinds", () => {
+    expect(getDeliverableKind("email-draft")?.label).toBe("email draft");
+    expect(getDeliverableKind("research-brief")?.label).toBe("research brief");
+  });
+
+  it("records newly registered kinds through the generic store", () => {
+    registerDeliverableKind(meetingNotesKind);
+
+    const recorded = recordDeliverable({ runId: "run-1" }, { type: "meeting-notes", title: "  Weekly sync " });
+    expect(recorded).toMatchObject({
+      ok: true,
+      identicalToExisting: false,
+      deliverable: { type: "meeting-notes", title: "Weekly sync", actionItems: [] },
+    });
+    if (!recorded.ok) return;
+    expect(getDeliverable<MeetingNotes>(recorded.cacheKey, "meeting-notes")?.title).toBe("Weekly sync");
+    expect(getDeliverable(recorded.cacheKey, "email-draft")).toBeUndefined();
+  });
+
+  it("rejects unknown types and payloads that fail the kind's schema", () => {
+    expect(recordDeliverable({ runId: "run-1" }, { type: "meeting-notes", title: "Sync" })).toEqual({
+      ok: false,
+      reason: 'Unknown deliverable type "meeting-notes"',
+    });
+
+    registerDeliverableKind(meetingNotesKind);
+    const invalid = recordDeliverable({ runId: "run-1" }, { type: "meeting-notes", title: "x" });
+    expect(invalid.ok).toBe(false);
+    if (invalid.ok) return;
+    expect(invalid.reason).toMatch(/^title:/);
+  });
+
+  it("lists specialist deliverables under the run that delegated to them", async () => {
+    const result = await runEmailDraftFallback(
+      { recipient: "Alex Rivera", tone: "friendly", keyPoints: ["Confirm the launch date"], variants: 1 },
+      { runId: "specialist-run", parentRunId: "chat-run" },
+    );
+
+    expect(listRunDeliverables("chat-run")).toEqual([
+      {
+        cacheKey: result.cacheKey,
+        runId: "specialist-run",
+        identicalToExisting: false,
+        deliverable: result.deliverable,
+      },
+    ]);
+    expect(listRunDeliverables("specialist-run")).toHaveLength(1);
+  });
+
+  it("releases a run's outcomes when the run finishes and keeps the deliverable", async () => {
+    const result = await runEmailDraftFallback(
+      { recipient: "Alex Rivera", tone: "friendly", keyPoints: ["Confirm the launch date"], variants: 1 },
+      { runId: "specialist-run", parentRunId: "chat-run" },
+    );
+
+    finishRun("chat-run", "done");
+    expect(listRunDeliverables("chat-run")).toEqual([]);
+    expect(getRunOutcome("specialist-run")?.cacheKey).toBe(result.cacheKey);
+
+    finishRun("specialist-run", "done");
+    expect(getRunOutcome("specialist-run")).toBeUndefined();
+    expect(getDeliverable(result.cacheKey, "email-draft")).toEqual(result.deliverable);
+  });
+
+  it("persists recorded deliverables so they survive a restart", async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-deliverables-")), "deliverables.json");
+    try {
+      setDeliverableRepository(createFileDeliverableRepository(filePath));
+      const result = await runEmailDraftFallback(
+        { recipient: "Alex Rivera", tone: "friendly", keyPoints: ["Confirm the launch date"], variants: 1 },
+        { runId: "persisted-run" },
+      );
+
+      setDeliverableRepository(createFileDeliverableRepository(filePath));
+      expect(getDeliverable(result.cacheKey, "email-draft")).toEqual(result.deliverable);
+      expect(getDeliverableRunId(result.cacheKey)).toBe("persisted-run");
+    } finally {
+      setDeliverableRepository(undefined);
+      fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { EmailDraftDeliverable } from "@/models/email";
+import {
+  buildMailtoLink,
+  encodeQuotedPrintable,
+  renderEmailHtml,
+  renderEmailMessage,
+  selectEmailContent,
+} from "@/server/email/mime";
+
+const deliverable: EmailDraftDeliverable = {
+  type: "email-draft",
+  draft: {
+    subject: "Contract renewal in March",
+    body: "Hi Jordan,\n\nThe renewal starts in March.\n\n- Support hours change\n- Pricing stays the same\n\nBest regards,\nSam",
+    variants: [{ label: "Short", body: "Renewal starts in March." }],
+  },
+  metadata: { recipient: "Jordan Park", tone: "friendly", keyPoints: ["Contract renewal starts in March"] },
+};
+
+const decodeQuotedPrintable = (text: string) =>
+  Buffer.from(
+    text.replace(/=\r\n/g, "").replace(/=([0-9A-F]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    "latin1",
+  ).toString("utf8");
+
+describe("email export", () => {
+  it("renders an RFC 5322 message with plain-text and HTML alternatives", () => {
+    const message = renderEmailMessage({
+      ...deliverable.draft,
+      to: ["jordan@example.com"],
+      date: new Date("2026-10-19T18:05:00Z"),
+      messageId: "<test@sidekick.local>",
+      draft: true,
+    });
+
+    const [head, ...rest] = message.split("\r\n\r\n");
+    expect(head.split("\r\n")).toEqual([
+      "From: SideKick OS <no-reply@sidekick.local>",
+      "To: jordan@example.com",
+      "Subject: Contract renewal in March",
+      "Date: Mon, 19 Oct 2026 18:05:00 +0000",
+      "Message-ID: <test@sidekick.local>",
+      "MIME-Version: 1.0",
+      "X-Unsent: 1",
+      expect.stringMatching(/^Content-Type: multipart\/alternative; boundary="sidekick-[\w-]+"$/),
+    ]);
+    expect(message.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+
+    const boundary = /boundary="([^"]+)"/.exec(head)?.[1];
+    const parts = rest.join("\r\n\r\n").split(`--${boundary}`);
+    expect(parts).toHaveLength(4);
+    expect(parts[3]).toBe("--\r\n");
+    expect(parts[1]).toContain("Content-Type: text/plain; charset=UTF-8");
+    expect(parts[2]).toContain("Content-Type: text/html; charset=UTF-8");
+    const plain = parts[1].split("\r\n\r\n").slice(1).join("\r\n\r\n").replace(/\r\n$/, "");
+    expect(decodeQuotedPrintable(plain)).toBe(deliverable.draft.body.replace(/\n/g, "\r\n"));
+    expect(renderEmailHtml(deliverable.draft.body)).toContain(
+      "<p>Hi Jordan,</p><p>The renewal starts in March.</p><ul><li>Support hours change</li><li>Pricing stays the same</li></ul><p>Best regards,<br>Sam</p>",
+    );
+  });
+
+  it("encodes non-ASCII subjects and wraps long quoted-printable lines", () => {
+    const message = renderEmailMessage({ subject: "Renewal — März update", body: "Grüße" });
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from("Renewal — März update").toString("base64")}?=`);
+
+    const encoded = encodeQuotedPrintable(`${"word ".repeat(40)}= café `);
+    expect(encoded.split("\r\n").every((line) => line.length <= 76)).toBe(true);
+    expect(encoded).toContain("=3D caf=C3=A9=20");
+    expect(decodeQuotedPrintable(encoded)).toBe(`${"word ".repeat(40)}= café `);
+  });
+
+  it("selects a variant and builds mailto links", () => {
+    const selected = selectEmailContent(deliverable, 1);
+    expect(selected).toEqual({ ok: true, content: { subject: deliverable.draft.subject, body: "Renewal starts in March." } });
+    expect(selectEmailContent(deliverable, 2)).toEqual({
+      ok: false,
+      reason: "Variant 2 does not exist; the draft has 1 variant",
+    });
+
+    expect(buildMailtoLink({ subject: "Q&A", body: "Line one\nLine two", to: ["jordan@example.com", "ops+team@example.com"] })).toBe(
+      "mailto:jordan@example.com,ops%2Bteam@example.com?subject=Q%26A&body=Line%20one%0D%0ALine%20two",
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { refineEmailDraft } from "@/server/agents/run-email-refinement";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { listRevisionChain, listRevisions, resetRevisions } from "@/server/agents/store/revisions";
+import { resetApprovals } from "@/server/approvals/store";
+import { getRedactions, resetRedactions } from "@/server/guardrails/redactions";
+import { createScriptedModelProvider, setModelProvider } from "@/server/providers/models";
+import { resetRuns } from "@/server/runs/store";
+
+const payload = {
+  recipient: "Jordan Park",
+  tone: "friendly",
+  keyPoints: ["Contract renewal starts in March", "Support hours are changing"],
+  variants: 2,
+};
+
+const draftEmail = async (overrides: Partial<typeof payload> = {}) => {
+  const response = await runEmailAgentFromPayload({ payload: { ...payload, ...overrides } });
+  if (!response.ok) throw new Error(response.reason);
+  return response;
+};
+
+describe("email draft refinement", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetDeliverables();
+    resetRevisions();
+    resetRedactions();
+    resetApprovals();
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+  });
+
+  it("applies a tone instruction with the template and links each revision to its parent", async () => {
+    const original = await draftEmail();
+
+    const formal = await refineEmailDraft({ cacheKey: original.cacheKey, payload: { instruction: "Make it more formal" } });
+    expect(formal.ok).toBe(true);
+    if (!formal.ok) return;
+    expect(formal.fallbackUsed).toBe(true);
+    expect(formal.deliverable.metadata.tone).toBe("formal");
+    expect(formal.deliverable.draft.body).toContain("Sincerely");
+    expect(formal.revision).toMatchObject({
+      parentKey: original.cacheKey,
+      rootKey: original.cacheKey,
+      instruction: "Make it more formal",
+    });
+
+    const direct = await refineEmailDraft({ cacheKey: formal.cacheKey, payload: { instruction: "Now be direct" } });
+    if (!direct.ok) throw new Error(direct.reason);
+    expect(listRevisionChain(direct.cacheKey).map((revision) => revision.cacheKey)).toEqual([
+      original.cacheKey,
+      formal.cacheKey,
+      direct.cacheKey,
+    ]);
+    expect(listRevisions(original.cacheKey)).toHaveLength(3);
+  });
+
+  it("rejects unknown drafts, missing variants and instructions the template cannot apply", async () => {
+    const original = await draftEmail();
+
+    expect(await refineEmailDraft({ cacheKey: "missing", payload: { instruction: "Shorter" } })).toMatchObject({
+      ok: false,
+      code: "not_found",
+    });
+    expect(
+      await refineEmailDraft({ cacheKey: original.cacheKey, payload: { instruction: "Shorter", variant: 3 } }),
+    ).toMatchObject({ ok: false, code: "invalid", reason: "Variant 3 does not exist; the draft has 2 variants" });
+    expect(
+      await refineEmailDraft({ cacheKey: original.cacheKey, payload: { instruction: "Make variant 2 shorter" } }),
+    ).toMatchObject({ ok: false, code: "failed" });
+    expect(listRevisions(original.cacheKey)).toEqual([]);
+  });
+
+  it("sends the current draft and instruction to the specialist and keeps existing placeholders", async () => {
+    const original = await draftEmail({ keyPoints: ["Contract renewal starts in March", "Call 415-555-0134 about support"] });
+    const revised = {
+      type: "email-draft",
+      draft: {
+        subject: "Contract renewal in March",
+        body: "Hi Jordan Park, the contract renewal starts in March. Call [PHONE_1] or [PHONE_2] about support.",
+        variants: [
+          { label: "Concise recap", body: "Renewal starts in March; call [PHONE_1] about support." },
+          { label: "Action-focused", body: "Renewal in March. Call [PHONE_1]." },
+        ],
+      },
+      metadata: { recipient: payload.recipient, tone: payload.tone, keyPoints: original.deliverable.metadata.keyPoints },
+    };
+    const provider = createScriptedModelProvider([
+      { toolCalls: [{ name: "report_result", arguments: revised }] },
+      { text: "Recorded." },
+    ]);
+    setModelProvider(provider, "mock");
+
+    const result = await refineEmailDraft({
+      cacheKey: original.cacheKey,
+      payload: { instruction: "Shorten it and add the backup line 415-555-0199", variant: 2 },
+    });
+
+    expect(provider.remaining()).toBe(0);
+    if (!result.ok) throw new Error(result.reason);
+    expect(result.fallbackUsed).toBeUndefined();
+    expect(result.deliverable.draft.variants[1].body).toBe("Renewal in March. Call [PHONE_1].");
+    expect(result.revision.parentKey).toBe(original.cacheKey);
+    expect(getRedactions(result.cacheKey).map(({ placeholder, original }) => [placeholder, original])).toEqual([
+      ["[PHONE_1]", "415-555-0134"],
+      ["[PHONE_2]", "415-555-0199"],
+    ]);
+  });
+});
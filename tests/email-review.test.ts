@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { EmailDraftDeliverable } from "@/models/email";
+import { reviewEmailDraft } from "@/server/agents/deliverables/email-review";
+import { runEmailDraftSpecialist } from "@/server/agents/run-email-specialist";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { createScriptedModelProvider, setModelProvider } from "@/server/providers/models";
+import { resetRuns } from "@/server/runs/store";
+
+const request = {
+  recipient: "Jordan Park",
+  tone: "formal",
+  keyPoints: ["Contract renewal starts in March", "Support hours are changing"],
+  variants: 1,
+};
+
+const deliverable = (body: string, variants = [{ label: "Short", body: "Renewal starts in March." }]) => ({
+  type: "email-draft" as const,
+  draft: { subject: "Contract renewal in March", body, variants },
+  metadata: { recipient: request.recipient, tone: request.tone, keyPoints: request.keyPoints },
+});
+
+describe("email draft review", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetDeliverables();
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+  });
+
+  it("passes a draft that covers every key point with the requested variants", () => {
+    const review = reviewEmailDraft(
+      deliverable("Dear Jordan, your contract renewal starts in March and our support hours will change."),
+      request,
+    );
+
+    expect(review).toEqual({ coverage: 1, issues: [] });
+  });
+
+  it("scores coverage and flags variants, tone, length and unsupported commitments", () => {
+    const body = `Hey Jordan!! Renewal starts in March and we guarantee a 20% discount. ${"More detail. ".repeat(180)}`;
+    const review = reviewEmailDraft(deliverable(body, []) as EmailDraftDeliverable, request);
+
+    expect(review.coverage).toBe(0.5);
+    expect(review.issues).toEqual([
+      'Key point not covered: "Support hours are changing"',
+      "Expected exactly 1 variant, received 0",
+      "Body is 372 words; keep it under 350",
+      "Casual wording does not fit the formal tone: Hey, !!",
+      "Commitments or figures not in the request: guarantee, discount, 20%",
+    ]);
+  });
+
+  it("only applies the formal wording check to formal tones", () => {
+    const body = "Hey Jordan, your contract renewal starts in March and our support hours will change.";
+    const review = reviewEmailDraft(deliverable(body), { ...request, tone: "informal" });
+
+    expect(review.issues).toEqual([]);
+  });
+
+  it("sends failed reviews back to the specialist until the draft passes", async () => {
+    const provider = createScriptedModelProvider([
+      { toolCalls: [{ name: "report_result", arguments: deliverable("Dear Jordan, your contract renewal starts in March.") }] },
+      {
+        toolCalls: [
+          {
+            name: "report_result",
+            arguments: deliverable("Dear Jordan, the contract renewal starts in March and support hours are changing."),
+          },
+        ],
+      },
+      { text: "Recorded." },
+    ]);
+    setModelProvider(provider, "mock");
+
+    const result = await runEmailDraftSpecialist(request);
+
+    expect(provider.remaining()).toBe(0);
+    expect(result.deliverable.draft.body).toContain("support hours are changing");
+  });
+});
@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { refineEmailDraft } from "@/server/agents/run-email-refinement";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import {
+  createFileRevisionRepository,
+  findEmailDraft,
+  getDraftHistory,
+  resetRevisions,
+  restoreRevision,
+  setRevisionRepository,
+} from "@/server/agents/store/revisions";
+import { resetApprovals } from "@/server/approvals/store";
+import { resetRuns } from "@/server/runs/store";
+import { diffWords } from "@/utils/word-diff";
+
+const payload = {
+  recipient: "Jordan Park",
+  tone: "friendly",
+  keyPoints: ["Contract renewal starts in March", "Support hours are changing"],
+  variants: 1,
+};
+
+const refine = async (cacheKey: string, instruction: string) => {
+  const result = await refineEmailDraft({ cacheKey, payload: { instruction } });
+  if (!result.ok) throw new Error(result.reason);
+  return result;
+};
+
+describe("email draft revisions", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-revisions-"));
+    setRevisionRepository(createFileRevisionRepository(path.join(tempDir, "revisions.json")));
+    resetRuns();
+    resetDeliverables();
+    resetApprovals();
+  });
+
+  afterEach(() => {
+    resetRevisions();
+    setRevisionRepository(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("diffs two texts word by word", () => {
+    const segments = diffWords("Hello Jordan, renewal starts soon.", "Hello Jordan, the renewal starts in March.");
+
+    expect(segments).toEqual([
+      { type: "equal", text: "Hello Jordan, " },
+      { type: "added", text: "the " },
+      { type: "equal", text: "renewal starts " },
+      { type: "removed", text: "soon." },
+      { type: "added", text: "in March." },
+    ]);
+    const join = (types: string[]) => segments.filter((segment) => types.includes(segment.type)).map((s) => s.text).join("");
+    expect(join(["equal", "removed"])).toBe("Hello Jordan, renewal starts soon.");
+    expect(join(["equal", "added"])).toBe("Hello Jordan, the renewal starts in March.");
+  });
+
+  it("finds drafts through their revision snapshot or approval copy once the store is cleared", async () => {
+    const original = await runEmailAgentFromPayload({ payload });
+    if (!original.ok) throw new Error(original.reason);
+    const revision = await refine(original.cacheKey, "Make it more formal");
+    const standalone = await runEmailAgentFromPayload({ payload: { ...payload, recipient: "Sam Lee" } });
+    if (!standalone.ok) throw new Error(standalone.reason);
+
+    resetDeliverables();
+
+    expect(findEmailDraft(revision.cacheKey)).toEqual(revision.deliverable);
+    expect(findEmailDraft(standalone.cacheKey)).toEqual(standalone.deliverable);
+    expect(findEmailDraft("missing")).toBeUndefined();
+  });
+
+  it("persists each revision with its parent and restores an older one as current", async () => {
+    const original = await runEmailAgentFromPayload({ payload });
+    if (!original.ok) throw new Error(original.reason);
+    const formal = await refine(original.cacheKey, "Make it formal");
+    const direct = await refine(formal.cacheKey, "Make it direct");
+
+    const history = getDraftHistory(original.cacheKey);
+    expect(history?.currentKey).toBe(direct.cacheKey);
+    expect(history?.revisions.map((revision) => [revision.cacheKey, revision.parentKey])).toEqual([
+      [original.cacheKey, undefined],
+      [formal.cacheKey, original.cacheKey],
+      [direct.cacheKey, formal.cacheKey],
+    ]);
+    expect(history?.revisions[1].deliverable.metadata.tone).toBe("formal");
+
+    expect(restoreRevision(formal.cacheKey)).toMatchObject({ ok: true, history: { currentKey: formal.cacheKey } });
+    expect(restoreRevision("missing")).toMatchObject({ ok: false });
+
+    // Snapshots survive a restart of the in-memory deliverable store, so restored drafts can be refined again.
+    const persisted = JSON.parse(fs.readFileSync(path.join(tempDir, "revisions.json"), "utf8"));
+    expect(persisted[0]).toMatchObject({ rootKey: original.cacheKey, currentKey: formal.cacheKey });
+    resetDeliverables();
+    const branch = await refine(formal.cacheKey, "Make it neutral");
+    expect(getDraftHistory(branch.cacheKey)?.revisions).toHaveLength(4);
+    expect(branch.revision.parentKey).toBe(formal.cacheKey);
+  });
+});
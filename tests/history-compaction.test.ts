@@ -0,0 +1,90 @@
+import type { AgentInputItem } from "@openai/agents";
+import { beforeEach, describe, expect, it } from "vitest";
+import { getOrCreateSession, getThread, listThreads, resetSessions, setThreadRepository, updateSessionHistory } from "@/server/agents/conversation-store";
+import { compactHistory, estimateHistoryTokens } from "@/server/agents/history";
+
+const userItem = (text: string): AgentInputItem => ({ role: "user", content: [{ type: "input_text", text }] });
+
+const assistantItem = (text: string): AgentInputItem => ({
+  role: "assistant",
+  status: "completed",
+  content: [{ type: "output_text", text }],
+});
+
+const toolTurn = (index: number): AgentInputItem[] => [
+  userItem(`Request ${index}: ${"context ".repeat(60)}`),
+  { type: "function_call", callId: `call-${index}`, name: "draft_email", arguments: "{}", status: "completed" },
+  {
+    type: "function_call_result",
+    callId: `call-${index}`,
+    name: "draft_email",
+    status: "completed",
+    output: { type: "text", text: JSON.stringify({ cacheKey: `key-${index}`, body: "x".repeat(400) }) },
+  },
+  assistantItem(`Draft ${index} is ready.`),
+];
+
+const longHistory = (turns: number) => Array.from({ length: turns }, (_, index) => toolTurn(index + 1)).flat();
+
+describe("history compaction", () => {
+  beforeEach(() => {
+    setThreadRepository(undefined);
+    resetSessions();
+  });
+
+  it("leaves histories within budget untouched", () => {
+    const items = longHistory(2);
+    const result = compactHistory(items, { maxTokens: 100_000, keepRecentTurns: 2 });
+
+    expect(result.history).toBe(items);
+    expect(result.tokens).toBe(estimateHistoryTokens(items));
+    expect(result.compaction).toBeUndefined();
+  });
+
+  it("folds older turns into a summary that keeps tool call ids and deliverable keys", () => {
+    const items = longHistory(6);
+    const result = compactHistory(items, { maxTokens: 1_800, keepRecentTurns: 2 });
+
+    expect(result.compaction).toMatchObject({ turns: 4, items: 16, tokensAfter: result.tokens });
+    expect(result.compaction?.toolCallIds).toEqual(["call-1", "call-2", "call-3", "call-4"]);
+    expect(result.compaction?.deliverableKeys).toEqual(["key-1", "key-2", "key-3", "key-4"]);
+    expect(result.tokens).toBeLessThan(result.compaction!.tokensBefore);
+
+    const [summary, ...rest] = result.history as Array<{ role?: string; content?: unknown; callId?: string }>;
+    expect(summary.role).toBe("system");
+    expect(summary.content).toContain("Tool draft_email (call-2)");
+    expect(summary.content).toContain("- Deliverable key-4");
+    expect(rest).toHaveLength(8);
+    expect(rest.filter((item) => item.callId).map((item) => item.callId)).toEqual(["call-5", "call-5", "call-6", "call-6"]);
+  });
+
+  it("merges earlier summaries and never drops the most recent turns", () => {
+    const first = compactHistory(longHistory(4), { maxTokens: 1_000, keepRecentTurns: 2 });
+    const next = compactHistory([...first.history, ...toolTurn(5), ...toolTurn(6)], { maxTokens: 1_000, keepRecentTurns: 2 });
+
+    const summaries = next.history.filter((item) => (item as { role?: string }).role === "system");
+    expect(first.compaction?.toolCallIds).toEqual(["call-1", "call-2"]);
+    expect(summaries).toHaveLength(1);
+    expect((summaries[0] as { content: string }).content).toContain("- Deliverable key-1");
+    expect(next.compaction?.toolCallIds).toEqual(["call-3", "call-4"]);
+
+    const single = toolTurn(1);
+    expect(compactHistory(single, { maxTokens: 10, keepRecentTurns: 1 }).history).toBe(single);
+  });
+
+  it("records compactions and token estimates on the thread", () => {
+    process.env.SIDEKICK_HISTORY_TOKEN_BUDGET = "1500";
+    try {
+      const { id } = getOrCreateSession();
+      updateSessionHistory(id, longHistory(5));
+
+      const thread = getThread(id);
+      expect(thread?.compactions).toHaveLength(1);
+      expect(thread?.history.length).toBeLessThan(20);
+      expect(listThreads()[0].historyTokens).toBe(thread?.historyTokens);
+      expect(listThreads()[0]).not.toHaveProperty("compactions");
+    } finally {
+      delete process.env.SIDEKICK_HISTORY_TOKEN_BUDGET;
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import zlib from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { findKnowledgeFileFormat } from "@/models/knowledge";
+import { MAX_PDF_INFLATED_BYTES, extractDocumentText } from "@/server/knowledge/extractors";
+
+const extract = (fileName: string, content: string | Buffer, mimeType?: string) =>
+  extractDocumentText({ fileName, mimeType, data: Buffer.isBuffer(content) ? content : Buffer.from(content) });
+
+const buildPdf = (contentStream: string, compress: boolean) => {
+  const data = compress ? zlib.deflateSync(Buffer.from(contentStream, "latin1")) : Buffer.from(contentStream, "latin1");
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Type /Page /Resources << /Font << /F1 2 0 R >> >> >>\nendobj\n`),
+    Buffer.from(`3 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n"),
+  ]);
+};
+
+describe("knowledge extractors", () => {
+  it("keeps markdown prose and drops link targets and front matter", () => {
+    const result = extract("notes.md", "---\ntitle: Notes\n---\n# Release\n\nSee [the changelog](https://example.com/log).");
+    expect(result).toEqual({ ok: true, mimeType: "text/markdown", text: "# Release\n\nSee the changelog." });
+  });
+
+  it("strips HTML boilerplate and decodes entities", () => {
+    const html = `<html><head><title>Ignored</title><style>p{}</style></head><body>
+      <nav>Home | About</nav>
+      <main><h1>Refund policy</h1><p>Refunds within 30&nbsp;days &amp; no questions.</p><script>track()</script></main>
+      <footer>© Acme</footer></body></html>`;
+    const result = extract("policy.html", html);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.text).toBe("Refund policy\n\nRefunds within 30 days & no questions.");
+    expect(extract("entities.html", "<p>&#65;&#99999999;&#x110000;</p>")).toMatchObject({
+      ok: true,
+      text: "A&#99999999;&#x110000;",
+    });
+  });
+
+  it("renders CSV rows as labelled fields, honouring quotes", () => {
+    const result = extract("owners.csv", 'service,owner,notes\napi,Dana,"pages, then emails"\nweb,Lee,\n');
+    expect(result).toMatchObject({
+      ok: true,
+      text: "service: api; owner: Dana; notes: pages, then emails\nservice: web; owner: Lee",
+    });
+  });
+
+  it("flattens JSON and reports invalid documents", () => {
+    expect(extract("config.json", '{"team":{"name":"SRE","oncall":["Dana","Lee"]}}')).toMatchObject({
+      ok: true,
+      text: "team.name: SRE\nteam.oncall[0]: Dana\nteam.oncall[1]: Lee",
+    });
+    expect(extract("broken.json", "{ nope").ok).toBe(false);
+  });
+
+  it("extracts text from raw and deflated PDF content streams", () => {
+    const stream = "BT /F1 12 Tf 72 720 Td (Quarterly \\(Q3\\) review) Tj 0 -14 Td [(Revenue) -250 (grew)] TJ ET";
+    for (const compress of [false, true]) {
+      const result = extract("review.pdf", buildPdf(stream, compress));
+      expect(result).toEqual({ ok: true, mimeType: "application/pdf", text: "Quarterly (Q3) review\nRevenue grew" });
+    }
+    expect(extract("scan.pdf", buildPdf("q 100 0 0 100 0 0 cm /Im1 Do Q", false))).toEqual({
+      ok: false,
+      reason: "No extractable text (scanned PDF?)",
+    });
+  });
+
+  it("rejects PDFs whose streams inflate beyond the limit", () => {
+    const bomb = `BT (${"A".repeat(MAX_PDF_INFLATED_BYTES)}) Tj ET`;
+    expect(extract("bomb.pdf", buildPdf(bomb, true))).toEqual({ ok: false, reason: "PDF content expands beyond 50 MB" });
+  });
+
+  it("rejects unsupported and empty files", () => {
+    expect(extract("image.png", "binary")).toEqual({ ok: false, reason: "Unsupported file type (.png)" });
+    expect(extract("empty.txt", "")).toEqual({ ok: false, reason: "File is empty" });
+    expect(extract("upload", "plain words", "text/plain")).toMatchObject({ ok: true, text: "plain words" });
+    expect(findKnowledgeFileFormat("changelog.mdx")?.mimeType).toBe("text/markdown");
+    expect(findKnowledgeFileFormat("README")).toBeUndefined();
+    expect(findKnowledgeFileFormat(".txt")).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createBm25Index } from "@/server/knowledge/bm25";
+import { chunkText } from "@/server/knowledge/chunker";
+import {
+  createFileKnowledgeRepository,
+  deleteKnowledgeDocument,
+  getKnowledgeDocument,
+  ingestDocument,
+  listKnowledgeDocuments,
+  resetKnowledge,
+  searchKnowledge,
+  setEmbeddingProvider,
+  setKnowledgeRepository,
+} from "@/server/knowledge/store";
+
+const RUNBOOK = [
+  "# Database failover",
+  "When the primary Postgres node fails, promote the replica and rotate the connection string.",
+  "Page the on-call DBA before promoting so replication lag is checked.",
+].join("\n\n");
+
+const HANDBOOK = [
+  "# Expense policy",
+  "Submit receipts within thirty days. Travel above the budget needs director approval.",
+].join("\n\n");
+
+describe("knowledge store", () => {
+  beforeEach(() => {
+    setKnowledgeRepository(undefined);
+    resetKnowledge();
+  });
+
+  it("chunks text on paragraph boundaries and keeps source offsets", () => {
+    const text = `${"alpha ".repeat(30).trim()}\n\n${"beta ".repeat(30).trim()}\n\n${"gamma ".repeat(300).trim()}`;
+    const chunks = chunkText(text, { maxChars: 400 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((chunk) => chunk.end - chunk.start <= 400)).toBe(true);
+    expect(text.slice(chunks[0].start, chunks[0].end)).toMatch(/^alpha[\s\S]*beta$/);
+    expect(text.slice(chunks.at(-1)!.start, chunks.at(-1)!.end)).toMatch(/gamma$/);
+  });
+
+  it("ranks matching chunks with BM25", () => {
+    const index = createBm25Index([
+      { id: "db", text: RUNBOOK },
+      { id: "expenses", text: HANDBOOK },
+    ]);
+
+    expect(index.search("promote the postgres replica").map((hit) => hit.id)).toEqual(["db"]);
+    expect(index.search("the of")).toEqual([]);
+  });
+
+  it("ingests, searches, retrieves and deletes documents", async () => {
+    const runbook = await ingestDocument({ name: "Failover runbook", content: RUNBOOK });
+    await ingestDocument({ name: "Expense policy", content: HANDBOOK, mimeType: "text/markdown" });
+    expect(runbook.ok).toBe(true);
+    if (!runbook.ok) return;
+
+    expect(listKnowledgeDocuments().map((document) => document.name).sort()).toEqual([
+      "Expense policy",
+      "Failover runbook",
+    ]);
+
+    const [top] = await searchKnowledge("Who approves travel over budget?");
+    expect(top.documentName).toBe("Expense policy");
+    const stored = getKnowledgeDocument(top.documentId);
+    expect(stored?.document.content.slice(top.start, top.end)).toBe(top.text);
+
+    expect(deleteKnowledgeDocument(runbook.document.id)).toBe(true);
+    expect(await searchKnowledge("postgres replica")).toEqual([]);
+    expect(getKnowledgeDocument(runbook.document.id)).toBeUndefined();
+  });
+
+  it("deduplicates identical uploads and rejects empty content", async () => {
+    const first = await ingestDocument({ name: "Runbook", content: RUNBOOK });
+    const second = await ingestDocument({ name: "Runbook copy", content: `${RUNBOOK}\r\n` });
+
+    expect(second.ok && second.duplicate).toBe(true);
+    expect(first.ok && second.ok && second.document.id === first.document.id).toBe(true);
+    expect(await ingestDocument({ name: "Blank", content: "   " })).toMatchObject({ ok: false });
+  });
+
+  it("blends embedding similarity into ranking when a provider is registered", async () => {
+    // Two-dimensional toy embedding: [mentions money, mentions databases].
+    setEmbeddingProvider({
+      name: "fixture",
+      embed: async (texts) =>
+        texts.map((text) => [/receipt|budget|spend|cost/i.test(text) ? 1 : 0, /postgres|replica|database/i.test(text) ? 1 : 0]),
+    });
+    await ingestDocument({ name: "Failover runbook", content: RUNBOOK });
+    const policy = await ingestDocument({ name: "Expense policy", content: HANDBOOK });
+    expect(policy.ok && policy.document.embedded).toBe(true);
+
+    const [top] = await searchKnowledge("how much can I spend");
+    expect(top.documentName).toBe("Expense policy");
+  });
+
+  it("persists documents and chunks to disk", async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-knowledge-")), "knowledge.json");
+    setKnowledgeRepository(createFileKnowledgeRepository(filePath));
+    await ingestDocument({ name: "Failover runbook", content: RUNBOOK });
+
+    setKnowledgeRepository(createFileKnowledgeRepository(filePath));
+    expect(listKnowledgeDocuments()).toHaveLength(1);
+    expect((await searchKnowledge("replica"))[0]?.documentName).toBe("Failover runbook");
+  });
+});
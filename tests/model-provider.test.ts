@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { createAgentRunner } from "@/server/agents/runner";
+import { createRuntimeContext } from "@/server/agents/runtime";
+import { listRunDeliverables, resetDeliverables } from "@/server/agents/store/deliverables";
+import {
+  createScriptedModelProvider,
+  getModelProvider,
+  resolveModelProviderSettings,
+  setModelProvider,
+  type ScriptedTurn,
+} from "@/server/providers/models";
+import { beginRun, getRun, resetRuns } from "@/server/runs/store";
+
+const payload = {
+  recipient: "Dana Whitfield",
+  tone: "warm",
+  keyPoints: ["Launch moves to May 12", "Beta feedback was positive"],
+  variants: 1,
+};
+
+const recordedSession: ScriptedTurn[] = [
+  {
+    toolCalls: [
+      {
+        name: "draft_email",
+        arguments: { ...payload, additionalContext: null },
+      },
+    ],
+  },
+  {
+    toolCalls: [
+      {
+        name: "report_result",
+        arguments: {
+          type: "email-draft",
+          draft: {
+            subject: "Launch update: moving to May 12",
+            body: "Hi Dana,\n\nThe launch moves to May 12 and beta feedback has been positive.\n\nBest,\nSam",
+            variants: [{ label: "Short", body: "Launch is now May 12; beta feedback is positive." }],
+          },
+          metadata: { recipient: payload.recipient, tone: payload.tone, keyPoints: payload.keyPoints },
+        },
+      },
+    ],
+  },
+  { text: "Draft recorded." },
+  { text: "Here is the launch update for Dana." },
+];
+
+describe("model provider factory", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetDeliverables();
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+  });
+
+  it("runs the orchestrator → draft_email → report_result path offline", async () => {
+    const provider = createScriptedModelProvider(recordedSession);
+    setModelProvider(provider, "mock");
+
+    const response = await runEmailAgentFromPayload({ payload });
+
+    expect(response).toMatchObject({ ok: true, providerConfigured: true });
+    if (!response.ok) return;
+    expect(response.fallbackUsed).toBeUndefined();
+    expect(response.deliverable.draft.subject).toBe("Launch update: moving to May 12");
+    expect(provider.remaining()).toBe(0);
+    expect(getRun(response.runId)?.spans?.some((span) => span.name === "draft_email")).toBe(true);
+  });
+
+  it("streams scripted text as deltas", async () => {
+    setModelProvider(createScriptedModelProvider([{ text: "A fairly long scripted answer that spans several chunks." }]), "mock");
+    const context = createRuntimeContext({ workflowId: "chat" });
+    beginRun({ runId: context.runId, name: "Chat", workflowId: "chat" });
+
+    const { runner, agents } = createAgentRunner(context);
+    const result = await runner.run(agents.orchestrator, "Hello", { context, stream: true });
+    const deltas: string[] = [];
+    for await (const event of result) {
+      if (event.type === "raw_model_stream_event" && event.data.type === "output_text_delta") deltas.push(event.data.delta);
+    }
+    await result.completed;
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe("A fairly long scripted answer that spans several chunks.");
+    expect(listRunDeliverables(context.runId)).toEqual([]);
+  });
+
+  it("rejects scripted calls to tools the agent does not offer", async () => {
+    setModelProvider(createScriptedModelProvider([{ toolCalls: [{ name: "delete_everything" }] }]), "mock");
+    const context = createRuntimeContext({ workflowId: "chat" });
+
+    const { runner, agents } = createAgentRunner(context);
+    await expect(runner.run(agents.orchestrator, "Hi", { context })).rejects.toThrow(
+      /Scripted tool call "delete_everything" is not available/,
+    );
+  });
+
+  it("resolves providers from the environment", () => {
+    expect(resolveModelProviderSettings({})).toEqual({ ok: false, reason: "OPENAI_API_KEY is not configured" });
+    expect(resolveModelProviderSettings({ OPENAI_API_KEY: "sk-test", SIDEKICK_MODEL: "gpt-5-mini" })).toEqual({
+      ok: true,
+      settings: { kind: "openai", apiKey: "sk-test", model: "gpt-5-mini" },
+    });
+    expect(resolveModelProviderSettings({ SIDEKICK_MODEL_PROVIDER: "openai-compatible" }).ok).toBe(false);
+    expect(
+      resolveModelProviderSettings({
+        SIDEKICK_MODEL_PROVIDER: "openai-compatible",
+        OPENAI_BASE_URL: "http://localhost:11434/v1",
+        SIDEKICK_MODEL: "llama3.1",
+      }),
+    ).toEqual({
+      ok: true,
+      settings: { kind: "openai-compatible", baseURL: "http://localhost:11434/v1", apiKey: undefined, model: "llama3.1" },
+    });
+    expect(resolveModelProviderSettings({ SIDEKICK_MODEL_PROVIDER: "carrier-pigeon" })).toEqual({
+      ok: false,
+      reason: 'Unknown model provider "carrier-pigeon"',
+    });
+
+    process.env.SIDEKICK_MODEL_PROVIDER = "mock";
+    try {
+      const first = getModelProvider();
+      expect(first).toMatchObject({ ok: true, name: "mock" });
+      expect(getModelProvider()).toEqual(first);
+    } finally {
+      delete process.env.SIDEKICK_MODEL_PROVIDER;
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import {
+  activatePromptVersion,
+  createPromptVersion,
+  listPromptVersions,
+  renderAgentInstructions,
+  resetPrompts,
+  resolveAgentPrompt,
+} from "@/server/agents/prompt-store";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { createScriptedModelProvider, setModelProvider } from "@/server/providers/models";
+import {
+  beginRun,
+  createMemoryRunRepository,
+  getRun,
+  listRuns,
+  resetRuns,
+  setRunRepository,
+} from "@/server/runs/store";
+import { resetRuntimeSettings } from "@/server/settings/store";
+
+const payload = {
+  recipient: "Priya Natarajan",
+  tone: "formal",
+  keyPoints: ["Renewal terms are final"],
+  variants: 1,
+};
+
+describe("agent prompt versions", () => {
+  beforeEach(() => {
+    resetPrompts();
+    resetRuns();
+    resetDeliverables();
+    resetRuntimeSettings();
+  });
+
+  afterEach(() => {
+    setModelProvider(undefined);
+    setRunRepository(undefined);
+  });
+
+  it("renders the built-in template until an override is saved", () => {
+    beginRun({ runId: "run-1", name: "Test" });
+    const instructions = renderAgentInstructions(
+      "email",
+      { runId: "run-1", model: "gpt-5-mini" },
+      { recipient: "Priya", tone: "formal", variants: 1, keyPoints: "1. Renewal", additionalContext: "" },
+    );
+
+    expect(instructions).toContain("Recipient: Priya");
+    expect(instructions).not.toContain("{{");
+    expect(getRun("run-1")?.agents).toEqual({ email: { model: "gpt-5-mini", promptVersion: "email@default" } });
+  });
+
+  it("versions overrides, rejects unknown variables and rolls back", () => {
+    expect(createPromptVersion("email", { template: "Write to {{recipient}} about {{budget}}" })).toEqual({
+      ok: false,
+      reason: "Unknown template variables: budget (available: recipient, tone, variants, keyPoints, additionalContext)",
+    });
+
+    createPromptVersion("email", { template: "Write to {{recipient}}.", note: "Shorter" });
+    const second = createPromptVersion("email", { template: "Write a {{tone}} note to {{recipient}}." });
+    expect(second).toMatchObject({ ok: true, prompt: { version: 2, label: "email@v2" } });
+    expect(listPromptVersions("email").map((version) => version.note)).toEqual(["Shorter", undefined]);
+
+    expect(activatePromptVersion("email", 1)).toMatchObject({ ok: true, prompt: { label: "email@v1" } });
+    expect(activatePromptVersion("email", 0)).toMatchObject({ ok: true, prompt: { label: "email@default" } });
+    expect(activatePromptVersion("email", 7)).toEqual({ ok: false, reason: "Version 7 does not exist for email" });
+    expect(resolveAgentPrompt("orchestrator").label).toBe("orchestrator@default");
+  });
+
+  it("records the model and prompt version each agent ran with", async () => {
+    createPromptVersion("email", { template: "Draft for {{recipient}} in a {{tone}} tone.\n{{keyPoints}}" });
+    setModelProvider(
+      createScriptedModelProvider([
+        { toolCalls: [{ name: "draft_email", arguments: { ...payload, additionalContext: null } }] },
+        {
+          toolCalls: [
+            {
+              name: "report_result",
+              arguments: {
+                type: "email-draft",
+                draft: {
+                  subject: "Renewal terms",
+                  body: "Dear Priya, the renewal terms are now final. Regards.",
+                  variants: [{ label: "Brief", body: "Priya, the renewal terms are final." }],
+                },
+                metadata: { recipient: payload.recipient, tone: payload.tone, keyPoints: payload.keyPoints },
+              },
+            },
+          ],
+        },
+        { text: "Recorded." },
+        { text: "Draft ready." },
+      ]),
+      "mock",
+    );
+
+    const response = await runEmailAgentFromPayload({ payload });
+
+    expect(response.ok).toBe(true);
+    if (!response.ok) return;
+    expect(response.fallbackUsed).toBeUndefined();
+    expect(getRun(response.runId)?.agents).toEqual({
+      orchestrator: { model: "gpt-5", promptVersion: "orchestrator@default" },
+    });
+    const specialist = listRuns().find((run) => run.name === "Email draft specialist");
+    expect(specialist?.agents).toEqual({ email: { model: "gpt-5-mini", promptVersion: "email@v1" } });
+  });
+
+  it("writes the run once per agent while the prompt version stays the same", () => {
+    const repository = createMemoryRunRepository();
+    let saves = 0;
+    setRunRepository({
+      ...repository,
+      save: (run) => {
+        saves += 1;
+        repository.save(run);
+      },
+    });
+    beginRun({ runId: "run-turns", name: "Turns" });
+    const before = saves;
+
+    for (let turn = 0; turn < 5; turn += 1) {
+      renderAgentInstructions("orchestrator", { runId: "run-turns", model: "gpt-5" });
+    }
+    expect(saves - before).toBe(1);
+
+    createPromptVersion("orchestrator", { template: "Route requests." });
+    renderAgentInstructions("orchestrator", { runId: "run-turns", model: "gpt-5" });
+    expect(saves - before).toBe(2);
+    expect(getRun("run-turns")?.agents?.orchestrator.promptVersion).toBe("orchestrator@v1");
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
+import { listRunDeliverables, recordDeliverable, resetDeliverables } from "@/server/agents/store/deliverables";
+import { getResearchSources, recordResearchSources, resetResearch } from "@/server/agents/store/research";
+import { fetchContent, MAX_FETCHED_CHARS } from "@/server/agents/tools/fetch-content";
+import { searchWeb } from "@/server/agents/tools/search-web";
+import {
+  createBraveSearchProvider,
+  createFixtureSearchProvider,
+  MAX_FETCH_BYTES,
+  setSearchProvider,
+} from "@/server/providers/search";
+
+const heatPumps = "https://example.org/heat-pumps";
+const insulation = "https://example.org/insulation";
+
+const fixtures = [
+  {
+    url: heatPumps,
+    title: "Heat pump efficiency in cold climates",
+    snippet: "Modern heat pumps keep a coefficient of performance above 2 at -15C.",
+    content: "Heat pump field trials. ".repeat(600),
+  },
+  {
+    url: insulation,
+    title: "Insulation retrofits and heating demand",
+    content: "Loft and wall insulation cut heating demand by a quarter in the surveyed homes.",
+  },
+];
+
+const brief = (citationUrl: string) => ({
+  type: "research-brief",
+  brief: {
+    title: "Heat pumps in cold climates",
+    summary: "Heat pumps remain efficient in cold weather, and insulation multiplies the savings they deliver.",
+    keyFindings: [
+      { finding: "Performance stays above a COP of 2 at -15C.", citations: [heatPumps] },
+      { finding: "Insulation reduces heating demand by roughly a quarter.", citations: [citationUrl] },
+    ],
+    citations: [
+      { label: "Heat pump trials", url: heatPumps },
+      { label: "Insulation survey", url: citationUrl },
+    ],
+  },
+  metadata: { question: "Do heat pumps work in cold climates?" },
+});
+
+describe("research specialist", () => {
+  beforeEach(() => {
+    resetResearch();
+    resetDeliverables();
+    setSearchProvider(createFixtureSearchProvider(fixtures));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("is reachable from the orchestrator via handoff", () => {
+    expect(orchestratorAgent.handoffs.map((agent) => ("agent" in agent ? agent.agent.name : agent.name))).toContain(
+      "Research Synthesizer",
+    );
+  });
+
+  it("records search results in the run's source ledger", async () => {
+    const output = await searchWeb("heat pump cold climates insulation", "run-1");
+
+    expect(output).toContain(heatPumps);
+    expect(getResearchSources("run-1").map((source) => source.url).sort()).toEqual([heatPumps, insulation]);
+    expect(getResearchSources("run-2")).toEqual([]);
+  });
+
+  it("only fetches URLs returned by search_web and truncates long pages", async () => {
+    expect(await fetchContent(heatPumps, "run-1")).toMatch(/^Fetch refused/);
+
+    await searchWeb("heat pump efficiency", "run-1");
+    const output = await fetchContent(heatPumps, "run-1");
+
+    expect(output).toContain("Heat pump efficiency in cold climates");
+    expect(output).toContain("[truncated]");
+    expect(output.length).toBeLessThan(MAX_FETCHED_CHARS + 200);
+  });
+
+  it("rejects briefs that cite sources the run never saw and records valid ones once", async () => {
+    await searchWeb("heat pump cold climates insulation", "run-1");
+
+    const invalid = recordDeliverable({ runId: "run-1" }, brief("https://elsewhere.example.com/made-up"));
+    expect(invalid).toEqual({
+      ok: false,
+      reason: "Citations not returned by search_web: https://elsewhere.example.com/made-up",
+    });
+
+    const first = recordDeliverable({ runId: "run-1" }, brief(insulation));
+    const second = recordDeliverable({ runId: "run-1" }, brief(insulation));
+    expect(first).toMatchObject({ ok: true, identicalToExisting: false });
+    expect(second).toMatchObject({ ok: true, identicalToExisting: true });
+    expect(listRunDeliverables("run-1").map((record) => record.cacheKey)).toEqual([first.ok ? first.cacheKey : undefined]);
+  });
+
+  it("reports search failures to the agent instead of throwing", async () => {
+    setSearchProvider({
+      name: "broken",
+      search: async () => {
+        throw new Error("quota exceeded");
+      },
+      fetchContent: async () => ({ url: "", title: "", text: "" }),
+    });
+
+    expect(await searchWeb("anything at all", "run-1")).toBe("Search failed: quota exceeded");
+  });
+
+  it("keeps source ledgers for the most recent runs only", () => {
+    for (let index = 0; index <= 200; index += 1) {
+      recordResearchSources(`run-${index}`, [{ title: "Insulation", url: insulation, snippet: null }]);
+    }
+    expect(getResearchSources("run-0")).toEqual([]);
+    expect(getResearchSources("run-200")).toHaveLength(1);
+  });
+
+  it("stops reading fetched pages after the byte limit", async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        pulled += 64 * 1024;
+        controller.enqueue(new Uint8Array(64 * 1024).fill(97));
+      },
+    });
+    vi.stubGlobal("fetch", async () => new Response(endless, { headers: { "content-type": "text/plain" } }));
+
+    const page = await createBraveSearchProvider("key").fetchContent("https://example.org/endless");
+    expect(page.text).toHaveLength(MAX_FETCH_BYTES);
+    expect(pulled).toBeLessThan(MAX_FETCH_BYTES * 2);
+  });
+});
@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import {
+  beginRun,
+  createFileRunRepository,
+  finishRun,
+  getRun,
+  listRunSummaries,
+  logRunStep,
+  resetRuns,
+  setRunRepository,
+} from "@/server/runs/store";
+
+describe("run repository", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-runs-"));
+    setRunRepository(undefined);
+    resetRuns();
+    resetDeliverables();
+  });
+
+  afterEach(() => {
+    setRunRepository(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("records steps and completion for a run", () => {
+    beginRun({ runId: "run-a", name: "Test run", message: "Queued" });
+    logRunStep("run-a", "running", "Working");
+    finishRun("run-a", "done", "Finished");
+
+    const run = getRun("run-a");
+    expect(run?.status).toBe("done");
+    expect(run?.completedAt).toBeDefined();
+    expect(run?.steps.map((step) => step.message)).toEqual(["Queued", "Working", "Finished"]);
+    expect(run?.steps[2].id).toBe("run-a-step-3");
+  });
+
+  it("survives a restart when backed by a file", () => {
+    const filePath = path.join(tempDir, "runs.json");
+    setRunRepository(createFileRunRepository(filePath));
+    beginRun({ runId: "run-persisted", name: "Persisted run" });
+    finishRun("run-persisted", "error", "Connector timed out");
+
+    setRunRepository(createFileRunRepository(filePath));
+    const restored = getRun("run-persisted");
+    expect(restored?.status).toBe("error");
+    expect(restored?.steps.at(-1)?.message).toBe("Connector timed out");
+  });
+
+  it("trims the oldest runs past the retention limit", () => {
+    const filePath = path.join(tempDir, "runs.json");
+    const repository = createFileRunRepository(filePath, 2);
+    ["2024-01-01", "2024-01-02", "2024-01-03"].forEach((day, index) => {
+      repository.save({
+        id: `run-${index}`,
+        name: `Run ${index}`,
+        status: "done",
+        startedAt: `${day}T00:00:00Z`,
+        steps: [],
+      });
+    });
+
+    const stored = createFileRunRepository(filePath).list().map((run) => run.id);
+    expect(stored.sort()).toEqual(["run-1", "run-2"]);
+  });
+
+  it("records email agent runs with their outcome", async () => {
+    const response = await runEmailAgentFromPayload({
+      payload: {
+        recipient: "Alex Rivera",
+        tone: "friendly",
+        keyPoints: ["Confirm deployment timeline"],
+        variants: 1,
+      },
+    });
+
+    expect(response.ok).toBe(true);
+    if (!response.ok) return;
+
+    const run = getRun(response.runId);
+    expect(run?.status).toBe("done");
+    expect(run?.workflowId).toBe("email-draft");
+    expect(listRunSummaries().map((summary) => summary.id)).toContain(response.runId);
+  });
+});
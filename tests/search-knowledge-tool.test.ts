@@ -0,0 +1,46 @@
+import { RunContext } from "@openai/agents";
+import { beforeEach, describe, expect, it } from "vitest";
+import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
+import { searchKnowledgeTool, toKnowledgeSources } from "@/server/agents/tools/search-knowledge";
+import { ingestDocument, resetKnowledge } from "@/server/knowledge/store";
+
+describe("search_knowledge tool", () => {
+  beforeEach(() => {
+    resetKnowledge();
+  });
+
+  it("is available to the orchestrator", () => {
+    expect(orchestratorAgent.tools.map((item) => item.name)).toContain("search_knowledge");
+  });
+
+  it("returns ranked passages with document ids and offsets", async () => {
+    const runbook = await ingestDocument({
+      name: "On-call runbook",
+      content: "Escalate sev1 incidents to the incident commander within five minutes.\n\nRotate pager duty weekly.",
+    });
+    await ingestDocument({ name: "Brand guide", content: "Use the red accent colour for primary actions only." });
+    if (!runbook.ok) throw new Error(runbook.reason);
+
+    const output = await searchKnowledgeTool.invoke(
+      new RunContext({}),
+      JSON.stringify({ query: "who do we escalate sev1 incidents to", limit: 3 }),
+    );
+    const result = JSON.parse(String(output));
+
+    expect(result.passages[0]).toMatchObject({ documentId: runbook.document.id, documentName: "On-call runbook", start: 0 });
+    expect(result.passages[0].end).toBeGreaterThan(result.passages[0].start);
+
+    const [source] = toKnowledgeSources(result.passages);
+    expect(source).toMatchObject({
+      title: "On-call runbook",
+      documentId: runbook.document.id,
+      offsets: { start: result.passages[0].start, end: result.passages[0].end },
+    });
+    expect(source.url).toContain(`/api/uploads/${runbook.document.id}`);
+  });
+
+  it("returns no passages when nothing matches", async () => {
+    const output = await searchKnowledgeTool.invoke(new RunContext({}), JSON.stringify({ query: "quarterly revenue", limit: 4 }));
+    expect(JSON.parse(String(output))).toEqual({ query: "quarterly revenue", passages: [] });
+  });
+});
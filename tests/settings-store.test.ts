@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_RUNTIME_SETTINGS, runtimeSettingsUpdateSchema } from "@/models/settings";
+import { emailDraftAgent } from "@/server/agents/agents/email";
+import { orchestratorAgent } from "@/server/agents/agents/orchestrator";
+import { createAgentRunner } from "@/server/agents/runner";
+import { createRuntimeContext } from "@/server/agents/runtime";
+import { createScriptedModelProvider, setModelProvider } from "@/server/providers/models";
+import {
+  createFileSettingsRepository,
+  createMemorySettingsRepository,
+  getRuntimeSettings,
+  resetRuntimeSettings,
+  setSettingsRepository,
+  updateRuntimeSettings,
+} from "@/server/settings/store";
+
+describe("runtime settings", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sidekick-settings-"));
+    setSettingsRepository(undefined);
+    resetRuntimeSettings();
+  });
+
+  afterEach(() => {
+    setSettingsRepository(undefined);
+    setModelProvider(undefined);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("starts from the defaults and merges partial updates per agent", () => {
+    expect(getRuntimeSettings()).toEqual(DEFAULT_RUNTIME_SETTINGS);
+
+    const updated = updateRuntimeSettings({ agents: { email: { model: "gpt-5" } }, tracingEnabled: false });
+
+    expect(updated.agents.email).toEqual({ model: "gpt-5", reasoningEffort: "medium", verbosity: "low" });
+    expect(updated.agents.orchestrator).toEqual(DEFAULT_RUNTIME_SETTINGS.agents.orchestrator);
+    expect(getRuntimeSettings().tracingEnabled).toBe(false);
+  });
+
+  it("validates updates and ignores stored settings that no longer parse", () => {
+    expect(runtimeSettingsUpdateSchema.safeParse({ agents: { email: { reasoningEffort: "extreme" } } }).success).toBe(false);
+    expect(runtimeSettingsUpdateSchema.safeParse({ agents: { planner: {} } }).success).toBe(false);
+    expect(runtimeSettingsUpdateSchema.safeParse({ theme: "dark" }).success).toBe(false);
+
+    const errors = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    try {
+      setSettingsRepository(createMemorySettingsRepository({ ...DEFAULT_RUNTIME_SETTINGS, tracingEnabled: "yes" } as never));
+      expect(getRuntimeSettings()).toEqual(DEFAULT_RUNTIME_SETTINGS);
+      getRuntimeSettings();
+      expect(errors).toHaveBeenCalledTimes(1);
+    } finally {
+      errors.mockRestore();
+    }
+  });
+
+  it("persists settings to disk", () => {
+    const filePath = path.join(tempDir, "settings.json");
+    setSettingsRepository(createFileSettingsRepository(filePath));
+    updateRuntimeSettings({ agents: { research: { verbosity: "high" } } });
+
+    setSettingsRepository(createFileSettingsRepository(filePath));
+    expect(getRuntimeSettings().agents.research.verbosity).toBe("high");
+  });
+
+  it("configures per-run copies of the agents without touching the shared ones", () => {
+    setModelProvider(createScriptedModelProvider(), "mock");
+    updateRuntimeSettings({
+      agents: {
+        orchestrator: { model: "gpt-5-mini", reasoningEffort: "high" },
+        email: { verbosity: "medium" },
+      },
+    });
+
+    const { agents } = createAgentRunner(createRuntimeContext({}));
+
+    expect(agents.orchestrator.model).toBe("gpt-5-mini");
+    expect(agents.orchestrator.modelSettings.reasoning).toEqual({ effort: "high" });
+    expect(agents.email.modelSettings.text).toEqual({ verbosity: "medium" });
+    expect(agents.orchestrator.handoffs).toContain(agents.email);
+    expect(orchestratorAgent.model).toBe("gpt-5");
+    expect(emailDraftAgent.modelSettings.text).toEqual({ verbosity: "low" });
+
+    resetRuntimeSettings();
+    expect(createAgentRunner(createRuntimeContext({})).agents.orchestrator.model).toBe("gpt-5");
+    expect(agents.orchestrator.model).toBe("gpt-5-mini");
+  });
+});
@@ -0,0 +1,119 @@
+import { Agent, RunContext, Runner, tool, type AgentOutputType, type protocol } from "@openai/agents";
+import { beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { runEmailAgentFromPayload } from "@/server/agents/run-email";
+import { createStepTracker, startStep, traceRunner } from "@/server/agents/runtime";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { beginRun, finishRun, getRun, resetRuns } from "@/server/runs/store";
+
+// Typed like the agents the runner itself emits, so the hooks accept them.
+const fakeAgent = (name: string) => new Agent<unknown, AgentOutputType>({ name });
+
+const fakeTool = (name: string) =>
+  tool({ name, description: `${name} stub`, parameters: z.object({}), execute: async () => "ok" });
+
+const functionCall = (callId: string, name: string) =>
+  ({ type: "function_call", callId, name, arguments: "{}" }) satisfies protocol.FunctionCallItem;
+
+describe("step tracker", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetDeliverables();
+  });
+
+  it("records nested spans with parents, progress and durations", () => {
+    beginRun({ runId: "run-spans", name: "Spans" });
+    const tracker = createStepTracker("run-spans");
+
+    const agentSpan = tracker.start("agent", "Orchestrator");
+    const toolSpan = tracker.start("tool", "draft_email", { parentId: agentSpan });
+    tracker.progress(toolSpan, 150, "Halfway");
+    expect(tracker.timeline().find((span) => span.id === toolSpan)?.progress).toBe(99);
+
+    tracker.end(toolSpan, "done");
+    tracker.end(agentSpan, "done");
+
+    const [agent, tool] = tracker.timeline();
+    expect(tool.parentId).toBe(agent.id);
+    expect(tool.status).toBe("done");
+    expect(tool.progress).toBe(100);
+    expect(tool.durationMs).toBeGreaterThanOrEqual(0);
+    expect(getRun("run-spans")?.steps.filter((step) => step.spanId === tool.id)).toHaveLength(3);
+  });
+
+  it("no-ops when the runtime context is missing", () => {
+    expect(startStep(undefined, "step", "Orphan")).toBeUndefined();
+    expect(createStepTracker("missing-run").start("step", "Orphan")).toBeUndefined();
+  });
+
+  it("closes spans left open when the run finishes", () => {
+    beginRun({ runId: "run-open", name: "Open" });
+    const spanId = createStepTracker("run-open").start("tool", "slow_tool");
+    finishRun("run-open", "error", "Aborted");
+
+    const span = getRun("run-open")?.spans?.find((item) => item.id === spanId);
+    expect(span?.status).toBe("error");
+    expect(span?.endedAt).toBeDefined();
+  });
+
+  it("maps runner lifecycle hooks onto agent, tool and handoff spans", () => {
+    beginRun({ runId: "run-hooks", name: "Hooks" });
+    const tracker = createStepTracker("run-hooks");
+    const runner = new Runner();
+    traceRunner(runner, tracker);
+
+    const context = new RunContext({});
+    const orchestrator = fakeAgent("Orchestrator");
+    const specialist = fakeAgent("Specialist");
+    const reportTool = fakeTool("report_result");
+    const toolCall = functionCall("call-1", "report_result");
+
+    runner.emit("agent_start", context, orchestrator);
+    runner.emit("agent_handoff", context, orchestrator, specialist);
+    runner.emit("agent_start", context, specialist);
+    runner.emit("agent_tool_start", context, specialist, reportTool, { toolCall });
+    runner.emit("agent_tool_end", context, specialist, reportTool, "ok", { toolCall });
+    runner.emit("agent_end", context, specialist, "done");
+
+    const spans = tracker.timeline();
+    expect(spans.map((span) => span.kind)).toEqual(["agent", "handoff", "agent", "tool"]);
+    expect(spans[1].parentId).toBe(spans[0].id);
+    expect(spans[3].parentId).toBe(spans[2].id);
+    expect(spans.every((span) => span.status === "done")).toBe(true);
+  });
+
+  it("marks tool spans as failed when the tool throws", () => {
+    beginRun({ runId: "run-tool-error", name: "Tool error" });
+    const tracker = createStepTracker("run-tool-error");
+    const runner = new Runner();
+    traceRunner(runner, tracker);
+
+    const context = new RunContext({});
+    const agent = fakeAgent("Research");
+    const fetchTool = fakeTool("fetch_content");
+    const toolCall = functionCall("call-2", "fetch_content");
+    const result = "An error occurred while running the tool. Please try again. Error: Error: Request timed out";
+
+    runner.emit("agent_start", context, agent);
+    runner.emit("agent_tool_start", context, agent, fetchTool, { toolCall });
+    runner.emit("agent_tool_end", context, agent, fetchTool, result, { toolCall });
+
+    const span = tracker.timeline().find((entry) => entry.kind === "tool");
+    expect(span).toMatchObject({ status: "error", message: "fetch_content failed: Error: Request timed out" });
+  });
+
+  it("records guardrail and fallback spans for email runs", async () => {
+    const response = await runEmailAgentFromPayload({
+      payload: {
+        recipient: "Alex Rivera",
+        tone: "formal",
+        keyPoints: ["Confirm deployment timeline"],
+      },
+    });
+
+    expect(response.ok).toBe(true);
+    if (!response.ok) return;
+    const kinds = getRun(response.runId)?.spans?.map((span) => span.kind);
+    expect(kinds).toEqual(["guardrail", "fallback"]);
+  });
+});
@@ -0,0 +1,327 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { workflowDefinitionSchema, type WorkflowDefinition } from "@/models/workflow";
+import { resetActivityBus, subscribeActivity } from "@/server/activity/bus";
+import { resetDeliverables } from "@/server/agents/store/deliverables";
+import { listApprovals, resetApprovals } from "@/server/approvals/store";
+import { getRun, resetRuns } from "@/server/runs/store";
+import { queueWorkflowRun, resolveWorkflowInputs, runWorkflow } from "@/server/workflows/engine";
+import { registerStepHandler, resetStepHandlers } from "@/server/workflows/handlers";
+import { getWorkflowDefinition, loadWorkflowDefinitions, parseWorkflowDefinition } from "@/server/workflows/loader";
+
+const defineWorkflow = (definition: Record<string, unknown>): WorkflowDefinition =>
+  workflowDefinitionSchema.parse({ id: "workflow-test", name: "Test Workflow", ...definition });
+
+const workflow = defineWorkflow({
+  description: "Exercises the engine",
+  estimatedDuration: "1 minute",
+  steps: [
+    { id: "fetch", label: "Fetch", description: "Fetch data from an external service.", handler: "test.fetch" },
+    { id: "transform", label: "Transform", description: "Transform fetched data.", handler: "test.transform" },
+  ],
+});
+
+describe("workflow engine", () => {
+  beforeEach(() => {
+    resetRuns();
+    resetActivityBus();
+    resetStepHandlers();
+    resetDeliverables();
+    resetApprovals();
+  });
+
+  it("runs steps in order and passes outputs forward", async () => {
+    registerStepHandler("test.fetch", async ({ reportProgress }) => {
+      reportProgress(50, "Half fetched");
+      return { output: [1, 2, 3] };
+    });
+    registerStepHandler("test.transform", async ({ outputs }) => ({
+      output: (outputs.fetch as number[]).map((value) => value * 2),
+      message: "Doubled values",
+    }));
+
+    const result = await runWorkflow(workflow);
+
+    expect(result.status).toBe("done");
+    expect(result.outputs.transform).toEqual([2, 4, 6]);
+    const run = getRun(result.runId);
+    expect(run?.workflowId).toBe("workflow-test");
+    expect(run?.spans?.map((span) => [span.name, span.status])).toEqual([
+      ["Fetch", "done"],
+      ["Transform", "done"],
+    ]);
+  });
+
+  it("prefers per-run handler overrides so external steps can be stubbed", async () => {
+    registerStepHandler("test.transform", async () => ({ output: "registered" }));
+    const result = await runWorkflow(workflow, {
+      handlers: {
+        "test.fetch": async () => ({ output: "stubbed" }),
+        "test.transform": async ({ outputs }) => ({ output: `${outputs.fetch} + override` }),
+      },
+    });
+
+    expect(result.outputs.transform).toBe("stubbed + override");
+  });
+
+  it("stops at the first failing step and marks the run as errored", async () => {
+    registerStepHandler("test.fetch", async () => {
+      throw new Error("Connector timed out");
+    });
+    let transformed = false;
+    registerStepHandler("test.transform", async () => {
+      transformed = true;
+    });
+
+    const result = await runWorkflow(workflow);
+
+    expect(result.status).toBe("error");
+    expect(result.error).toBe("Connector timed out");
+    expect(transformed).toBe(false);
+    expect(getRun(result.runId)?.status).toBe("error");
+  });
+
+  it("fails fast when a step has no handler", async () => {
+    const result = await runWorkflow(
+      defineWorkflow({ steps: [{ id: "unknown", label: "Unknown", handler: "test.missing" }] }),
+    );
+    expect(result.error).toMatch(/No handler registered/);
+  });
+
+  it("registers queued runs immediately and streams their progress", async () => {
+    const events: string[] = [];
+    subscribeActivity((envelope) => events.push(envelope.event.type));
+
+    const evaluation = getWorkflowDefinition("workflow-evals")!;
+    const { runId, completion } = queueWorkflowRun(evaluation);
+    expect(getRun(runId)?.status).toBe("running");
+
+    await completion;
+    expect(getRun(runId)?.status).toBe("done");
+    expect(events[0]).toBe("run.updated");
+    expect(events.at(-1)).toBe("run.completed");
+    expect(listApprovals()).toEqual([]);
+  });
+
+  it("validates, defaults and coerces declared inputs", async () => {
+    const withInputs = defineWorkflow({
+      inputs: [
+        { name: "service", type: "string", required: true },
+        { name: "limit", type: "number", default: 5 },
+        { name: "tags", type: "string[]" },
+      ],
+      steps: [{ id: "fetch", label: "Fetch", handler: "test.fetch" }],
+    });
+
+    expect(resolveWorkflowInputs(withInputs, {})).toEqual({ ok: false, reason: 'Missing required input "service"' });
+    expect(resolveWorkflowInputs(withInputs, { service: "api", limit: "3", tags: "a, b", extra: true })).toEqual({
+      ok: true,
+      inputs: { service: "api", limit: 3, tags: ["a", "b"] },
+    });
+    expect(resolveWorkflowInputs(withInputs, { service: "api", limit: "many" }).ok).toBe(false);
+
+    const result = await runWorkflow(withInputs, { handlers: { "test.fetch": async () => undefined } });
+    expect(result.status).toBe("error");
+    expect(getRun(result.runId)?.status).toBe("error");
+  });
+
+  it("follows branch steps and skips steps whose condition does not match", async () => {
+    const branching = defineWorkflow({
+      inputs: [{ name: "severity", type: "string", default: "sev2" }],
+      steps: [
+        { id: "page", label: "Page on-call", handler: "test.record", when: { ref: "inputs.severity", equals: "sev1" } },
+        { id: "count", label: "Count", handler: "test.count" },
+        {
+          id: "route",
+          type: "branch",
+          label: "Route",
+          branches: [{ when: { ref: "steps.count.total", gt: 0 }, next: "escalate" }],
+          otherwise: "close",
+        },
+        { id: "escalate", label: "Escalate", handler: "test.record", next: "end" },
+        { id: "close", label: "Close", handler: "test.record" },
+      ],
+    });
+    const visited: string[] = [];
+    const handlers = {
+      "test.record": async ({ step }: { step: { id: string } }) => {
+        visited.push(step.id);
+      },
+      "test.count": async () => ({ output: { total: 0 } }),
+    };
+
+    await runWorkflow(branching, { handlers });
+    expect(visited).toEqual(["close"]);
+
+    visited.length = 0;
+    const result = await runWorkflow(branching, {
+      inputs: { severity: "sev1" },
+      handlers: { ...handlers, "test.count": async () => ({ output: { total: 2 } }) },
+    });
+    expect(visited).toEqual(["page", "escalate"]);
+    expect(getRun(result.runId)?.spans?.map((span) => span.name)).toEqual(["Page on-call", "Count", "Route", "Escalate"]);
+  });
+
+  it("skips a branch step whose own condition does not match", async () => {
+    const gated = defineWorkflow({
+      inputs: [{ name: "triage", type: "boolean", default: false }],
+      steps: [
+        {
+          id: "route",
+          type: "branch",
+          label: "Route",
+          when: { ref: "inputs.triage", equals: true },
+          branches: [{ when: { ref: "inputs.triage", equals: true }, next: "escalate" }],
+          otherwise: "escalate",
+        },
+        { id: "close", label: "Close", handler: "test.record", next: "end" },
+        { id: "escalate", label: "Escalate", handler: "test.record" },
+      ],
+    });
+    const visited: string[] = [];
+    const handlers = {
+      "test.record": async ({ step }: { step: { id: string } }) => {
+        visited.push(step.id);
+      },
+    };
+
+    const result = await runWorkflow(gated, { handlers });
+    expect(visited).toEqual(["close"]);
+    expect(getRun(result.runId)?.spans?.[0]).toMatchObject({ name: "Route", message: "Skipped: inputs.triage did not match" });
+
+    visited.length = 0;
+    await runWorkflow(gated, { inputs: { triage: true }, handlers });
+    expect(visited).toEqual(["escalate"]);
+  });
+
+  it("fans out parallel steps and joins their outputs", async () => {
+    const fanOut = defineWorkflow({
+      steps: [
+        {
+          id: "enrich",
+          type: "parallel",
+          label: "Enrich",
+          steps: [
+            { id: "left", label: "Left", handler: "test.left" },
+            { id: "right", label: "Right", handler: "test.right" },
+          ],
+        },
+        { id: "merge", label: "Merge", handler: "test.merge" },
+      ],
+    });
+
+    const result = await runWorkflow(fanOut, {
+      handlers: {
+        "test.left": async () => ({ output: "L" }),
+        "test.right": async () => ({ output: "R" }),
+        "test.merge": async ({ outputs }) => ({ output: Object.values(outputs.enrich as object).join("") }),
+      },
+    });
+
+    expect(result.outputs.merge).toBe("LR");
+    const spans = getRun(result.runId)?.spans ?? [];
+    const group = spans.find((span) => span.name === "Enrich");
+    expect(spans.filter((span) => span.parentId === group?.id).map((span) => span.name)).toEqual(["Left", "Right"]);
+  });
+
+  it("retries failing steps and aborts steps that exceed their timeout", async () => {
+    let attempts = 0;
+    const flaky = defineWorkflow({
+      steps: [
+        { id: "flaky", label: "Flaky", handler: "test.flaky", retry: { maxAttempts: 3, backoffMs: 1 } },
+        { id: "slow", label: "Slow", handler: "test.slow", timeoutMs: 20 },
+      ],
+    });
+    let aborted = false;
+
+    const result = await runWorkflow(flaky, {
+      handlers: {
+        "test.flaky": async ({ attempt }) => {
+          attempts += 1;
+          if (attempt < 3) throw new Error("Transient failure");
+          return { output: attempt };
+        },
+        "test.slow": ({ signal }) =>
+          new Promise((resolve) => {
+            signal.addEventListener("abort", () => {
+              aborted = true;
+              resolve(undefined);
+            });
+          }),
+      },
+    });
+
+    expect(attempts).toBe(3);
+    expect(result.outputs.flaky).toBe(3);
+    expect(result.status).toBe("error");
+    expect(result.error).toBe("Slow timed out after 20ms");
+    expect(aborted).toBe(true);
+  });
+
+  it("waits for a timed-out handler that ignores its signal before retrying", async () => {
+    const stubborn = defineWorkflow({
+      steps: [{ id: "stubborn", label: "Stubborn", handler: "test.stubborn", timeoutMs: 10, retry: { maxAttempts: 2 } }],
+    });
+    let running = 0;
+    let overlapped = false;
+    const finished: number[] = [];
+
+    const result = await runWorkflow(stubborn, {
+      handlers: {
+        "test.stubborn": async ({ attempt }) => {
+          overlapped ||= running > 0;
+          running += 1;
+          await new Promise((resolve) => setTimeout(resolve, 40));
+          running -= 1;
+          finished.push(attempt);
+        },
+      },
+    });
+
+    expect(result.error).toBe("Stubborn timed out after 10ms (after 2 attempts)");
+    expect(overlapped).toBe(false);
+    expect(finished).toEqual([1]);
+  });
+
+  it("records knowledge steps without a configured service as skipped", async () => {
+    const refresh = getWorkflowDefinition("workflow-knowledge-refresh")!;
+
+    const result = await runWorkflow(refresh);
+
+    expect(result.status).toBe("done");
+    expect(result.outputs).toEqual({});
+    const spans = getRun(result.runId)?.spans ?? [];
+    expect(spans.find((span) => span.name === "Ingest")?.message).toBe("Skipped: No document source configured");
+    expect(spans.find((span) => span.name === "Embed")?.message).toBe("Skipped: No embedding provider configured");
+  });
+
+  it("rejects definitions with unknown step targets or duplicate ids", () => {
+    const invalid = parseWorkflowDefinition(
+      [
+        "id: broken",
+        "name: Broken",
+        "steps:",
+        "  - id: one",
+        "    label: One",
+        "    handler: test.one",
+        "    next: missing",
+        "  - id: one",
+        "    label: Again",
+        "    handler: test.one",
+      ].join("\n"),
+      "broken.yaml",
+    );
+
+    expect(invalid.ok).toBe(false);
+    if (invalid.ok) return;
+    expect(invalid.reason).toMatch(/Unknown step "missing"/);
+    expect(invalid.reason).toMatch(/Duplicate step id "one"/);
+  });
+
+  it("loads the bundled catalog from JSON and YAML files", () => {
+    expect(loadWorkflowDefinitions().map((definition) => definition.id)).toEqual([
+      "workflow-evals",
+      "workflow-incident-response",
+      "workflow-knowledge-refresh",
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// Whitespace runs are kept as tokens so the segments reassemble into the original texts.
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+/**
+ * Word-level diff from `before` to `after`, using the longest common subsequence of words.
+ * Joining the equal and removed segments gives `before`; joining the equal and added ones gives `after`.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i]);
+      i += 1;
+    } else {
+      push("added", b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((token) => push("removed", token));
+  b.slice(j).forEach((token) => push("added", token));
+  return segments;
+};
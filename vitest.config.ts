@@ -11,6 +11,9 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["tests/**/*.test.ts"],
+    env: {
+      SIDEKICK_DATA_DIR: ":memory:",
+    },
     coverage: {
       reporter: ["text", "html"],
     },